@@ -1,142 +1,296 @@
 'use server';
 
-import { executeCommand, SSHCredentials } from '../lib/ssh';
+import posixPath from 'path/posix';
+import { executeCommand, loadPrivateKey, SSHCredentials, SSHHost, LoginCredentials, LoginHost, AuthChallenge } from '../lib/ssh';
+import { beginLogin, continueLogin, confirmHostKey, cancelLogin, LoginStep, HostKeyMismatch } from '../lib/login';
+import { HostKeyInfo } from '../lib/known-hosts';
+import { SessionError, createSession, destroySession, getSessionUser, requireCredentials, requireProfile, switchProfile, removeProfileLogin, SessionUser } from '../lib/session';
+import { ClusterProfile, getManagedProfiles, resolveProfile } from '../lib/profiles';
+import {
+  sh,
+  raw,
+  path as shellPath,
+  heredoc,
+  validateAccount,
+  validateCount,
+  validateJobId,
+  validateJobName,
+  validateMemory,
+  validatePartition,
+  validateTime,
+} from '../lib/shell';
+import {
+  FileChangedError,
+  FileExistsError,
+  FileVersion,
+  createEmptyFile,
+  findExisting,
+  makeDirectory,
+  readDirectory,
+  readFile,
+  renameEntry,
+  stat,
+  writeFileAtomic,
+} from '../lib/sftp';
+import { CrossDeviceError, TrashItem, deletePermanently, listTrash, moveToTrash, purgeTrash, restoreFromTrash, trashRetentionDays } from '../lib/trash';
+import { OperationInfo, cancelOperation, clearFinishedOperations, listOperations, monitoredScript, sizeOf, startOperation } from '../lib/operations';
+import { FileProperties, PermissionChanges, getProperties, setProperties } from '../lib/permissions';
+import { DatasetInfo, inspectDataset } from '../lib/datasets';
+import { datasetFormat } from '../lib/file-types';
+import {
+  JobDetails, JobHistoryFilter, JobOutputPaths, JobTemplate, getCachedHistory, getJobUsage, getQueue, inspectJob, jobOutputPaths, jobTemplate,
+} from '../lib/jobs';
+import { EfficiencySummary, JobEfficiency, jobEfficiency, summarizeEfficiency } from '../lib/efficiency';
+import type { JobHistoryEntry, JobQueueEntry } from '../lib/slurm';
+import { createArchiveScript, extractArchiveScript } from '../lib/archives';
+import { recordLineage } from '../lib/lineage';
+import { Bookmark, readBookmarks, writeBookmarks } from '../lib/bookmarks';
+import { DiskUsage, StorageQuota, diskUsageScanScript, getDiskUsage, getQuotas, resolveFolder } from '../lib/storage';
 
 export interface FileEntry {
   name: string;
   isDirectory: boolean;
-  size: string;
+  isSymlink: boolean;
+  size: number;
   permissions: string;
-  updatedAt: string;
+  updatedAt: number; // Milliseconds since the epoch
 }
 
+// The editor holds the whole file in the browser, so keep it to text-sized files
+const MAX_EDITABLE_SIZE = 10 * 1024 * 1024;
+
 export interface JobConfig {
   name: string;
   partition: string;
+  account?: string;
   nodes: number;
   cpus: number;
   memory: string;
   time: string;
   script: string;
+  // The job this submission reruns, recorded so the history can group them
+  parentJobId?: string;
 }
 
-export interface JobQueueEntry {
-  jobId: string;
-  partition: string;
-  name: string;
-  user: string;
-  state: string;
-  time: string;
-  timeLimit: string;
-  nodes: string;
-  nodelist: string;
+export interface LoginResult {
+  success: boolean;
+  user?: SessionUser;
+  challenge?: AuthChallenge & { loginId: string };
+  hostKey?: HostKeyInfo & { loginId: string };
+  hostKeyMismatch?: HostKeyMismatch;
+  message?: string;
+  error?: string;
 }
 
-export interface JobHistoryEntry {
-  jobId: string;
-  name: string;
-  partition: string;
-  state: string;
-  exitCode: string;
+// ssh-agent logins use the agent of the machine running this server, so they are opt-in for local deployments
+const AGENT_LOGIN_ENABLED = process.env.KAMIAK_GUI_ALLOW_AGENT === '1';
+
+function toSSHHost(login: LoginHost): SSHHost {
+  const { privateKey, passphrase, agent, ...rest } = login;
+  const credentials: SSHHost = { ...rest };
+
+  if (privateKey && privateKey.trim()) {
+    // Decrypt now so only the usable key is kept in the session, never the passphrase
+    credentials.privateKey = loadPrivateKey(privateKey, passphrase);
+  }
+  if (agent !== undefined) {
+    if (!AGENT_LOGIN_ENABLED) {
+      throw new Error('ssh-agent login is not enabled on this server');
+    }
+    credentials.agent = agent || process.env.SSH_AUTH_SOCK;
+    if (!credentials.agent) {
+      throw new Error('No ssh-agent socket found. Set SSH_AUTH_SOCK or enter the socket path.');
+    }
+  }
+  return credentials;
+}
+
+function toSSHCredentials(login: LoginCredentials): SSHCredentials {
+  const { jumpHosts, ...target } = login;
+  const credentials: SSHCredentials = toSSHHost(target);
+  if (jumpHosts && jumpHosts.length > 0) {
+    credentials.jumpHosts = jumpHosts.map(toSSHHost);
+  }
+  return credentials;
+}
+
+async function finishLoginStep(step: LoginStep): Promise<LoginResult> {
+  if (step.status === 'challenge') {
+    // The server wants more answers (OTP, Duo option, ...); relay its prompts to the browser
+    return { success: false, challenge: { loginId: step.loginId, ...step.challenge } };
+  }
+  if (step.status === 'hostkey') {
+    // First connection to this host; the user has to check the fingerprint before anything is sent
+    return { success: false, hostKey: { loginId: step.loginId, ...step.hostKey } };
+  }
+  if (step.status === 'failed') {
+    return { success: false, error: step.error, hostKeyMismatch: step.hostKeyMismatch };
+  }
+  // Secrets stay on the server from here on; the browser only gets a session cookie
+  const user = await createSession(step.credentials, step.profile);
+  return { success: true, user, message: 'Connected successfully' };
+}
+
+export async function getLoginOptions(): Promise<{ agentEnabled: boolean; defaultAgentSocket?: string; profiles: ClusterProfile[] }> {
+  return {
+    agentEnabled: AGENT_LOGIN_ENABLED,
+    defaultAgentSocket: AGENT_LOGIN_ENABLED ? process.env.SSH_AUTH_SOCK : undefined,
+    profiles: getManagedProfiles(),
+  };
 }
 
-export async function verifyConnection(credentials: SSHCredentials) {
+export async function verifyConnection(login: LoginCredentials, profile?: ClusterProfile): Promise<LoginResult> {
   try {
-    const result = await executeCommand(credentials, 'echo "Connection Verified"');
-    if (result.code !== 0) {
-        throw new Error(result.stderr || 'Command failed');
-    }
-    return { success: true, message: 'Connected successfully' };
+    const credentials = toSSHCredentials(login);
+    return await finishLoginStep(await beginLogin(credentials, resolveProfile(profile, credentials)));
   } catch (error) {
     console.error('Connection failed:', error);
     return { success: false, error: (error as Error).message || 'Connection failed' };
   }
 }
 
-export async function listFiles(credentials: SSHCredentials, path: string = '~'): Promise<{ success: boolean; files: FileEntry[]; error?: string; currentPath?: string }> {
+export async function respondToLoginChallenge(loginId: string, answers: string[]): Promise<LoginResult> {
   try {
-    let targetPath = path;
-    if (path === '~') {
-        const pwdResult = await executeCommand(credentials, 'pwd');
-        if (pwdResult.code === 0) {
-            targetPath = pwdResult.stdout.trim();
-        }
-    }
+    return await finishLoginStep(await continueLogin(loginId, answers));
+  } catch (error) {
+    console.error('Connection failed:', error);
+    return { success: false, error: (error as Error).message || 'Connection failed' };
+  }
+}
 
-    const command = `ls -lA --time-style=long-iso "${targetPath}"`;
-    const result = await executeCommand(credentials, command);
-    
-    if (result.code !== 0) {
-      throw new Error(result.stderr || 'Failed to list files');
-    }
+export async function respondToHostKey(loginId: string, accepted: boolean): Promise<LoginResult> {
+  try {
+    return await finishLoginStep(await confirmHostKey(loginId, accepted));
+  } catch (error) {
+    console.error('Connection failed:', error);
+    return { success: false, error: (error as Error).message || 'Connection failed' };
+  }
+}
+
+export async function abortLogin(loginId: string): Promise<{ success: boolean }> {
+  cancelLogin(loginId);
+  return { success: true };
+}
 
-    const pwdResult = await executeCommand(credentials, `cd "${targetPath}" && pwd`);
-    const currentPath = pwdResult.stdout.trim();
-
-    const lines = result.stdout.split('\n');
-    const files: FileEntry[] = lines
-      .slice(1)
-      .filter(line => line.trim() !== '')
-      .map(line => {
-        const parts = line.split(/\s+/);
-        if (parts.length < 8) return null;
-        
-        const permissions = parts[0];
-        const isDirectory = permissions.startsWith('d');
-        const size = parts[4];
-        const date = `${parts[5]} ${parts[6]}`;
-        const name = parts.slice(7).join(' ');
-
-        return {
-          name,
-          isDirectory,
-          size,
-          permissions,
-          updatedAt: date
-        };
-      })
-      .filter((file): file is FileEntry => file !== null);
-
-    return { success: true, files, currentPath };
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  return getSessionUser();
+}
+
+export async function switchConnection(profileId: string): Promise<{ success: boolean; user?: SessionUser; error?: string; sessionExpired?: boolean }> {
+  try {
+    return { success: true, user: await switchProfile(profileId) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+export async function disconnectProfile(profileId: string): Promise<{ success: boolean; user: SessionUser | null }> {
+  return { success: true, user: await removeProfileLogin(profileId) };
+}
+
+export async function logout(): Promise<{ success: boolean }> {
+  await destroySession();
+  return { success: true };
+}
+
+export async function listFiles(path: string = '~'): Promise<{ success: boolean; files: FileEntry[]; error?: string; sessionExpired?: boolean; currentPath?: string }> {
+  try {
+    const credentials = await requireCredentials();
+    const listing = await readDirectory(credentials, path);
+    const files: FileEntry[] = listing.entries.map(entry => ({
+      name: entry.name,
+      isDirectory: entry.isDirectory,
+      isSymlink: entry.isSymlink,
+      size: entry.size,
+      permissions: entry.permissions,
+      updatedAt: entry.mtime,
+    }));
+
+    return { success: true, files, currentPath: listing.path };
   } catch (error) {
     console.error('List files failed:', error);
-    return { success: false, files: [], error: (error as Error).message || 'Failed to list files' };
+    return { success: false, files: [], error: (error as Error).message || 'Failed to list files', sessionExpired: error instanceof SessionError };
   }
 }
 
-export async function readFileContent(credentials: SSHCredentials, path: string): Promise<{ success: boolean; content: string; error?: string }> {
+export async function getBookmarks(): Promise<{ success: boolean; bookmarks: Bookmark[]; error?: string; sessionExpired?: boolean }> {
   try {
-    const result = await executeCommand(credentials, `cat "${path}"`);
-    if (result.code !== 0) {
-      throw new Error(result.stderr || 'Failed to read file');
-    }
-    return { success: true, content: result.stdout };
+    const credentials = await requireCredentials();
+    return { success: true, bookmarks: await readBookmarks(credentials, await requireProfile()) };
   } catch (error) {
-    return { success: false, content: '', error: (error as Error).message };
+    return { success: false, bookmarks: [], error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
 }
 
-export async function saveFileContent(credentials: SSHCredentials, path: string, content: string): Promise<{ success: boolean; error?: string }> {
+export async function saveBookmarks(bookmarks: Bookmark[]): Promise<{ success: boolean; error?: string; sessionExpired?: boolean }> {
   try {
-    const base64Content = Buffer.from(content).toString('base64');
-    const command = `echo "${base64Content}" | base64 -d > "${path}"`;
-    const result = await executeCommand(credentials, command);
-    
-    if (result.code !== 0) {
-      throw new Error(result.stderr || 'Save failed');
-    }
+    const credentials = await requireCredentials();
+    await writeBookmarks(credentials, bookmarks);
     return { success: true };
   } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+// `binary` means the file is not text and `tooLarge` that it is too big to edit; show it in
+// the hex or log viewer instead. Pass `version` back when saving to detect changes made on
+// the cluster in the meantime.
+export async function readFileContent(path: string): Promise<{ success: boolean; content: string; version?: FileVersion; binary?: boolean; tooLarge?: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const entry = await stat(credentials, path);
+    if (entry.isDirectory) {
+      throw new Error(`${entry.path} is a directory`);
+    }
+    if (entry.size > MAX_EDITABLE_SIZE) {
+      return { success: false, content: '', tooLarge: true, error: `File is too large to edit (${Math.round(entry.size / 1024 / 1024)} MB)` };
+    }
+    const data = await readFile(credentials, entry.path);
+    // A NUL byte near the start is the usual sign of a binary file
+    if (data.subarray(0, 8192).includes(0)) {
+      return { success: false, content: '', binary: true, error: 'This looks like a binary file and cannot be edited as text' };
+    }
+    return { success: true, content: data.toString('utf8'), version: { mtime: entry.mtime, size: entry.size } };
+  } catch (error) {
+    return { success: false, content: '', error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+/**
+ * Saves a text file. With `expected` (the version that was opened), a file changed on the
+ * cluster since is not overwritten; its current content comes back as `conflict` instead.
+ */
+export async function saveFileContent(
+  path: string,
+  content: string,
+  expected?: FileVersion
+): Promise<{ success: boolean; version?: FileVersion; conflict?: { content: string; version: FileVersion | null }; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const entry = await writeFileAtomic(credentials, path, content, expected);
+    return { success: true, version: { mtime: entry.mtime, size: entry.size } };
+  } catch (error) {
+    if (error instanceof FileChangedError) {
+      const current = await readFileContent(path);
+      return {
+        success: false,
+        // A deleted file compares as empty
+        conflict: { content: current.content, version: current.version ?? null },
+        error: error.message,
+      };
+    }
     console.error('Save file failed:', error);
-    return { success: false, error: (error as Error).message };
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
 }
 
-export async function runTerminalCommand(credentials: SSHCredentials, command: string, cwd: string = '~'): Promise<{ success: boolean; output: string; newCwd: string; error?: string }> {
+export async function runTerminalCommand(command: string, cwd: string = '~'): Promise<{ success: boolean; output: string; newCwd: string; error?: string; sessionExpired?: boolean }> {
   try {
+    const credentials = await requireCredentials();
     const safeCwd = cwd || '~';
+    // The command itself is run verbatim (this is a terminal); only the cwd is quoted
     // Use semi-colon to ensure pwd runs even if command fails
-    const shellCommand = `cd "${safeCwd}"; ${command}; echo ""; echo "__PWD__"; pwd`;
+    const shellCommand = sh`cd ${shellPath(safeCwd)}; ${raw(command)}; echo ""; echo "__PWD__"; pwd`;
     
     const result = await executeCommand(credentials, shellCommand);
     
@@ -151,33 +305,29 @@ export async function runTerminalCommand(credentials: SSHCredentials, command: s
     };
   } catch (error) {
     console.error('Terminal command failed:', error);
-    return { success: false, output: '', newCwd: cwd, error: (error as Error).message };
+    return { success: false, output: '', newCwd: cwd, error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
 }
 
-export async function submitJob(credentials: SSHCredentials, job: JobConfig): Promise<{ success: boolean; jobId?: string; error?: string }> {
+export async function submitJob(job: JobConfig): Promise<{ success: boolean; jobId?: string; error?: string; sessionExpired?: boolean }> {
   try {
-    const safeScript = job.script.replace(/'/g, "'\''");
+    const credentials = await requireCredentials();
+    if (job.parentJobId) validateJobId(job.parentJobId);
+    // #SBATCH lines are parsed by sbatch, not the shell, so these are validated rather than quoted
     const sbatchContent = `#!/bin/bash
-#SBATCH --job-name=${job.name}
-#SBATCH --partition=${job.partition}
-#SBATCH --nodes=${job.nodes}
-#SBATCH --cpus-per-task=${job.cpus}
-#SBATCH --mem=${job.memory}
-#SBATCH --time=${job.time}
-
-${safeScript}
-`;
+#SBATCH --job-name=${validateJobName(job.name)}
+#SBATCH --partition=${validatePartition(job.partition)}
+${job.account ? `#SBATCH --account=${validateAccount(job.account)}\n` : ''}#SBATCH --nodes=${validateCount(job.nodes, 'Nodes')}
+#SBATCH --cpus-per-task=${validateCount(job.cpus, 'CPUs')}
+#SBATCH --mem=${validateMemory(job.memory)}
+#SBATCH --time=${validateTime(job.time)}
 
-    const timestamp = Date.now();
-    const filename = `job_${timestamp}.slurm`;
-    const command = `cat << 'EOF' > ${filename}
-${sbatchContent}
-EOF
-sbatch ${filename}
-rm ${filename}
+${job.script}
 `;
 
+    // sbatch reads the script from stdin, so no temporary file is needed
+    const command = sh`sbatch ${heredoc(sbatchContent)}`;
+
     const result = await executeCommand(credentials, command);
     
     if (result.code !== 0) {
@@ -187,101 +337,377 @@ rm ${filename}
     const match = result.stdout.match(/Submitted batch job (\d+)/);
     const jobId = match ? match[1] : undefined;
 
+    if (jobId && job.parentJobId) {
+      // The job is queued either way; only the grouping in the history is lost
+      try {
+        await recordLineage(credentials, jobId, job.parentJobId);
+      } catch (error) {
+        console.error('Record job lineage failed:', error);
+      }
+    }
+
     return { success: true, jobId };
   } catch (error) {
     console.error('Job submission failed:', error);
-    return { success: false, error: (error as Error).message };
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
 }
 
-export async function getJobQueue(credentials: SSHCredentials): Promise<{ success: boolean; jobs: JobQueueEntry[]; error?: string }> {
+// `poll` marks background refreshes, which do not keep the session alive
+export async function getJobQueue(poll = false): Promise<{ success: boolean; jobs: JobQueueEntry[]; error?: string; sessionExpired?: boolean }> {
   try {
-    // Uses -u username compatible with older Slurm
-    const command = `squeue -u ${credentials.username} --format="%.18i %.9P %.30j %.8u %.8T %.10M %.9l %.6D %R" --noheader`;
-    const result = await executeCommand(credentials, command);
-    
+    const credentials = await requireCredentials(!poll);
+    return { success: true, jobs: await getQueue(credentials, credentials.username) };
+  } catch (error) {
+    console.error('Get queue failed:', error);
+    return { success: false, jobs: [], error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+// One page of the filtered history; `total` counts every matching job. Other pages of the
+// same filter come from a short-lived cache unless `refresh` is set.
+export async function getJobHistory(
+  filter: JobHistoryFilter,
+  page: number = 1,
+  pageSize: number = 50,
+  refresh: boolean = true
+): Promise<{ success: boolean; jobs: JobHistoryEntry[]; total: number; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const jobs = await getCachedHistory(credentials, credentials.username, filter, refresh);
+    const size = Math.min(Math.max(1, Math.floor(pageSize)), 500);
+    const first = (Math.max(1, Math.floor(page)) - 1) * size;
+    return { success: true, jobs: jobs.slice(first, first + size), total: jobs.length };
+  } catch (error) {
+    console.error('Get history failed:', error);
+    return { success: false, jobs: [], total: 0, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+export async function cancelJob(jobId: string): Promise<{ success: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    if (credentials.username === 'demo') {
+      return { success: true };
+    }
+    const result = await executeCommand(credentials, sh`scancel ${validateJobId(jobId)}`);
     if (result.code !== 0) {
-      throw new Error(result.stderr || 'Failed to get job queue');
+      throw new Error(result.stderr || 'Failed to cancel job');
     }
+    return { success: true };
+  } catch (error) {
+    console.error('Cancel job failed:', error);
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
 
-    const lines = result.stdout.split('\n').filter(line => line.trim() !== '');
-    const jobs: JobQueueEntry[] = lines.map(line => {
-      const parts = line.trim().split(/\s+/);
-      return {
-        jobId: parts[0],
-        partition: parts[1],
-        name: parts[2],
-        user: parts[3],
-        state: parts[4],
-        time: parts[5],
-        timeLimit: parts[6],
-        nodes: parts[7],
-        nodelist: parts[8]
-      };
-    });
+// Paths of a job's stdout and stderr files, for opening them in the log viewer
+export async function getJobOutputPaths(jobId: string): Promise<{ success: boolean; paths?: JobOutputPaths; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    return { success: true, paths: await jobOutputPaths(credentials, jobId) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
 
-    return { success: true, jobs };
+/**
+ * Efficiency of the user's `limit` most recently finished jobs (looking back up to 90
+ * days), with a summary and right-sizing suggestions.
+ */
+export async function getEfficiencyReport(
+  limit: number = 25
+): Promise<{ success: boolean; jobs: JobEfficiency[]; summary?: EfficiencySummary; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const usage = await getJobUsage(credentials, credentials.username, Math.min(Math.max(1, Math.floor(limit)), 500), 90);
+    const jobs = usage.map(jobEfficiency);
+    return { success: true, jobs, summary: summarizeEfficiency(jobs) };
   } catch (error) {
-    console.error('Get queue failed:', error);
-    return { success: false, jobs: [], error: (error as Error).message };
+    return { success: false, jobs: [], error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
 }
 
-export async function getJobHistory(credentials: SSHCredentials): Promise<{ success: boolean; jobs: JobHistoryEntry[]; error?: string }> {
+// A job's request and script for the job composer
+export async function getJobTemplate(jobId: string): Promise<{ success: boolean; job?: JobTemplate; error?: string; sessionExpired?: boolean }> {
   try {
-    const command = `sacct -X -u ${credentials.username} --format=JobID,JobName,Partition,State,ExitCode -n`;
-    const result = await executeCommand(credentials, command);
+    const credentials = await requireCredentials();
+    return { success: true, job: await jobTemplate(credentials, jobId) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
 
-    if (result.code !== 0) {
-      throw new Error(result.stderr || 'Failed to get job history');
+export async function getJobDetails(jobId: string): Promise<{ success: boolean; job?: JobDetails; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    return { success: true, job: await inspectJob(credentials, jobId) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+/**
+ * Moves a file or folder to the trash. `crossDevice` means it can only be deleted for good;
+ * confirm with the user and call again with `permanent`.
+ */
+export async function deleteFile(path: string, permanent: boolean = false): Promise<{ success: boolean; crossDevice?: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    if (permanent) {
+      await deletePermanently(credentials, path);
+    } else {
+      await moveToTrash(credentials, path);
     }
+    return { success: true };
+  } catch (error) {
+    if (error instanceof CrossDeviceError) {
+      return { success: false, crossDevice: true, error: error.message };
+    }
+    console.error('Delete file failed:', error);
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
 
-    const lines = result.stdout.split('\n').filter(line => line.trim() !== '');
-    const jobs: JobHistoryEntry[] = lines.map(line => {
-      const parts = line.trim().split(/\s+/);
-      return {
-        jobId: parts[0],
-        name: parts[1],
-        partition: parts[2],
-        state: parts[3],
-        exitCode: parts[4]
-      };
-    });
+export async function getTrash(): Promise<{ success: boolean; items: TrashItem[]; retentionDays: number; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    return { success: true, items: await listTrash(credentials), retentionDays: trashRetentionDays() };
+  } catch (error) {
+    return { success: false, items: [], retentionDays: trashRetentionDays(), error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
 
-    return { success: true, jobs };
+// `conflict` means something now occupies the original location; retry with another `targetPath`
+export async function restoreTrashItem(id: string, targetPath?: string): Promise<{ success: boolean; path?: string; conflict?: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const path = await restoreFromTrash(credentials, id, targetPath);
+    return { success: true, path };
   } catch (error) {
-     console.error('Get history failed:', error);
-     return { success: true, jobs: [] };
+    return { success: false, conflict: error instanceof FileExistsError, error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
 }
 
-export async function cancelJob(credentials: SSHCredentials, jobId: string): Promise<{ success: boolean; error?: string }> {
-  if (credentials.username === 'demo') {
-      return { success: true };
+// Without ids the whole trash is emptied
+export async function purgeTrashItems(ids?: string[]): Promise<{ success: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    await purgeTrash(credentials, ids);
+    return { success: true };
+  } catch (error) {
+    console.error('Purge trash failed:', error);
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+export async function createFolder(path: string): Promise<{ success: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    await makeDirectory(credentials, path);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
+}
+
+export async function createFile(path: string): Promise<{ success: boolean; error?: string; sessionExpired?: boolean }> {
   try {
-    const result = await executeCommand(credentials, `scancel ${jobId}`);
-    if (result.code !== 0) {
-      throw new Error(result.stderr || 'Failed to cancel job');
-    }
+    const credentials = await requireCredentials();
+    await createEmptyFile(credentials, path);
     return { success: true };
   } catch (error) {
-    console.error('Cancel job failed:', error);
-    return { success: false, error: (error as Error).message };
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
 }
 
-export async function deleteFile(credentials: SSHCredentials, path: string): Promise<{ success: boolean; error?: string }> {
+// `conflict` means the new name is taken; ask the user, then retry with overwrite
+export async function renameFile(path: string, newPath: string, overwrite: boolean = false): Promise<{ success: boolean; conflict?: boolean; error?: string; sessionExpired?: boolean }> {
   try {
-    const command = `rm -rf "${path}"`;
-    const result = await executeCommand(credentials, command);
-    
-    if (result.code !== 0) {
-      throw new Error(result.stderr || 'Delete failed');
+    const credentials = await requireCredentials();
+    await renameEntry(credentials, path, newPath, overwrite);
+    return { success: true };
+  } catch (error) {
+    return { success: false, conflict: error instanceof FileExistsError, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+/**
+ * Copies or moves `sources` into the `destination` folder as a background operation.
+ * Without `overwrite`, names that already exist there come back as `conflicts` and
+ * nothing is started.
+ */
+export async function transferFiles(
+  kind: 'copy' | 'move',
+  sources: string[],
+  destination: string,
+  overwrite: boolean = false
+): Promise<{ success: boolean; operation?: OperationInfo; conflicts?: string[]; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    if (sources.length === 0) {
+      throw new Error('No files selected');
+    }
+    const names = sources.map(source => posixPath.basename(source));
+    if (!overwrite) {
+      const conflicts = await findExisting(credentials, destination, names);
+      if (conflicts.length > 0) {
+        return { success: false, conflicts };
+      }
+    }
+
+    const sourcePaths = sources.map(source => shellPath(source));
+    const targetPaths = names.map(name => shellPath(posixPath.join(destination, name)));
+    const clobber = overwrite ? '-f' : '-n';
+    const work = kind === 'copy'
+      ? sh`cp -a ${clobber} -t ${shellPath(destination)} -- ${sourcePaths}`
+      : sh`mv ${clobber} -t ${shellPath(destination)} -- ${sourcePaths}`;
+    const label = `${kind === 'copy' ? 'Copy' : 'Move'} ${names.length === 1 ? names[0] : `${names.length} items`} to ${destination}`;
+
+    const operation = await startOperation(credentials, kind, label, monitoredScript(work, sizeOf(sourcePaths), sizeOf(targetPaths)));
+    return { success: true, operation };
+  } catch (error) {
+    console.error('File transfer failed:', error);
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+/**
+ * Packs `names` (entries of `dir`) into a new archive in `dir` as a background operation.
+ * The format follows the archive name's extension. Without `overwrite`, an existing file
+ * of that name comes back as `conflict` and nothing is started.
+ */
+export async function createArchive(
+  dir: string,
+  names: string[],
+  archiveName: string,
+  overwrite: boolean = false
+): Promise<{ success: boolean; operation?: OperationInfo; conflict?: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const script = createArchiveScript(dir, names, archiveName);
+    if (!overwrite && (await findExisting(credentials, dir, [archiveName])).length > 0) {
+      return { success: false, conflict: true };
     }
+    const label = `Archive ${names.length === 1 ? names[0] : `${names.length} items`} as ${archiveName}`;
+    return { success: true, operation: await startOperation(credentials, 'archive', label, script) };
+  } catch (error) {
+    console.error('Create archive failed:', error);
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+// Unpacks an archive into the folder it is in, as a background operation
+export async function extractArchive(path: string): Promise<{ success: boolean; operation?: OperationInfo; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const label = `Extract ${posixPath.basename(path)}`;
+    return { success: true, operation: await startOperation(credentials, 'extract', label, extractArchiveScript(path)) };
+  } catch (error) {
+    console.error('Extract archive failed:', error);
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+// `poll` marks background refreshes, which do not keep the session alive
+export async function getFileOperations(poll = false): Promise<{ success: boolean; operations: OperationInfo[]; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials(!poll);
+    return { success: true, operations: listOperations(credentials) };
+  } catch (error) {
+    return { success: false, operations: [], error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+export async function cancelFileOperation(id: string): Promise<{ success: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    cancelOperation(credentials, id);
     return { success: true };
   } catch (error) {
-    console.error('Delete file failed:', error);
-    return { success: false, error: (error as Error).message };
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+export async function clearFileOperations(): Promise<{ success: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    clearFinishedOperations(credentials);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+export async function getFileProperties(path: string): Promise<{ success: boolean; properties?: FileProperties; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    return { success: true, properties: await getProperties(credentials, path) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+export async function updateFileProperties(path: string, changes: PermissionChanges): Promise<{ success: boolean; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    await setProperties(credentials, path, changes);
+    return { success: true };
+  } catch (error) {
+    console.error('Update file properties failed:', error);
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+export async function getDatasetInfo(path: string): Promise<{ success: boolean; info?: DatasetInfo; error?: string; sessionExpired?: boolean }> {
+  try {
+    const format = datasetFormat(path);
+    if (!format) {
+      throw new Error('Not a Parquet, HDF5 or NetCDF file');
+    }
+    const credentials = await requireCredentials();
+    return { success: true, info: await inspectDataset(credentials, await requireProfile(), path, format) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+// Quotas of the storage areas configured in the active profile
+export async function getStorageQuotas(): Promise<{ success: boolean; quotas?: StorageQuota[]; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const profile = await requireProfile();
+    return { success: true, quotas: await getQuotas(credentials, profile.storage ?? []) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+// Starts a background `du` scan of a folder for the disk usage explorer
+export async function scanDiskUsage(path: string): Promise<{ success: boolean; operation?: OperationInfo; root?: string; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const root = await resolveFolder(credentials, path);
+    if (root === '/') {
+      throw new Error('Choose a folder below / to scan');
+    }
+    const operation = await startOperation(credentials, 'scan', `Disk usage of ${root}`, diskUsageScanScript(root));
+    return { success: true, operation, root };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+  }
+}
+
+/**
+ * Disk usage inside `dir` (default: the root itself) from the last scan of `path`.
+ * `usage` is null when the folder has not been scanned.
+ */
+export async function getDiskUsageReport(path: string, dir?: string): Promise<{ success: boolean; usage?: DiskUsage | null; root?: string; error?: string; sessionExpired?: boolean }> {
+  try {
+    const credentials = await requireCredentials();
+    const root = await resolveFolder(credentials, path);
+    return { success: true, root, usage: await getDiskUsage(credentials, root, dir ?? root) };
+  } catch (error) {
+    return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
   }
 }
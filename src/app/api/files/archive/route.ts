@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { requireCredentials } from '../../../../lib/session';
+import { stat } from '../../../../lib/sftp';
+import { listArchive } from '../../../../lib/archives';
+import { BadRequestError, errorResponse } from '../../../../lib/http';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lists the contents of a tar or zip archive as newline-delimited JSON (ArchiveEvent).
+ * Closing the request stops the listing.
+ *
+ *   GET ?path=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const credentials = await requireCredentials();
+    const path = request.nextUrl.searchParams.get('path');
+    if (!path) {
+      throw new BadRequestError('A path is required');
+    }
+    const entry = await stat(credentials, path);
+    if (entry.isDirectory) {
+      throw new BadRequestError(`${entry.path} is a folder`);
+    }
+    const stream = await listArchive(credentials, entry.path);
+    request.signal.addEventListener('abort', () => stream.cancel().catch(() => {}));
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
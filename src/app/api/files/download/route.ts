@@ -0,0 +1,102 @@
+import posixPath from 'path/posix';
+import { Readable } from 'stream';
+import { NextRequest } from 'next/server';
+import { requireCredentials } from '../../../../lib/session';
+import { openReadStream, stat } from '../../../../lib/sftp';
+import { streamCommand } from '../../../../lib/ssh';
+import { sh, path as shellPath } from '../../../../lib/shell';
+import { BadRequestError, attachment, errorResponse } from '../../../../lib/http';
+import { inlineContentType } from '../../../../lib/file-types';
+
+export const dynamic = 'force-dynamic';
+
+function toWeb(stream: Readable): ReadableStream<Uint8Array> {
+  return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+}
+
+// Single "bytes=start-end" ranges, which is what browsers send to resume a download
+function parseRange(header: string | null, size: number): { start: number; end: number } | null | 'invalid' {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return 'invalid';
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  return start <= end && start < size ? { start, end } : 'invalid';
+}
+
+/**
+ * Streams a file (with Range support, so browsers can resume) or a folder as a .tar.gz.
+ * With `inline`, images and PDFs are served for the browser to display.
+ *
+ *   GET ?path=&inline=1
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const credentials = await requireCredentials();
+    const path = request.nextUrl.searchParams.get('path');
+    if (!path) {
+      throw new BadRequestError('A path is required');
+    }
+    const entry = await stat(credentials, path);
+
+    if (entry.isDirectory) {
+      if (entry.path === '/') {
+        throw new BadRequestError('Cannot download the root folder');
+      }
+      // The archive is built on the cluster and piped straight through
+      const parent = posixPath.dirname(entry.path);
+      const tar = await streamCommand(credentials, sh`tar -czf - -C ${shellPath(parent)} -- ${entry.name}`);
+      tar.stderr.on('data', (data: Buffer) => console.warn(`tar ${entry.path}: ${data.toString().trim()}`));
+      request.signal.addEventListener('abort', () => tar.destroy());
+      return new Response(toWeb(tar), {
+        headers: {
+          'Content-Type': 'application/gzip',
+          'Content-Disposition': attachment(`${entry.name}.tar.gz`),
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const inlineType = request.nextUrl.searchParams.get('inline') === '1' ? inlineContentType(entry.name) : null;
+    const headers: Record<string, string> = {
+      'Content-Type': inlineType ?? 'application/octet-stream',
+      'Content-Disposition': attachment(entry.name, inlineType ? 'inline' : 'attachment'),
+      'Accept-Ranges': 'bytes',
+      'Last-Modified': new Date(entry.mtime).toUTCString(),
+      'Cache-Control': 'no-store',
+      'X-Content-Type-Options': 'nosniff',
+    };
+    if (inlineType === 'image/svg+xml') {
+      // An SVG opened directly would run its scripts with this app's origin
+      headers['Content-Security-Policy'] = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+    }
+    // A resumed download must not splice together two versions of the file
+    const ifRange = request.headers.get('if-range');
+    const range = ifRange && ifRange !== headers['Last-Modified'] ? null : parseRange(request.headers.get('range'), entry.size);
+    if (range === 'invalid') {
+      return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${entry.size}` } });
+    }
+    if (entry.size === 0) {
+      return new Response(null, { headers: { ...headers, 'Content-Length': '0' } });
+    }
+
+    const { start, end } = range ?? { start: 0, end: entry.size - 1 };
+    const { stream } = await openReadStream(credentials, entry.path, { start, end });
+    request.signal.addEventListener('abort', () => stream.destroy());
+    if (range) {
+      headers['Content-Range'] = `bytes ${start}-${end}/${entry.size}`;
+    }
+    headers['Content-Length'] = String(end - start + 1);
+    return new Response(toWeb(stream), { status: range ? 206 : 200, headers });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
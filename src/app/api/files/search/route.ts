@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { requireCredentials } from '../../../../lib/session';
+import { stat } from '../../../../lib/sftp';
+import { SearchQuery, SearchType, startSearch } from '../../../../lib/search';
+import { BadRequestError, errorResponse } from '../../../../lib/http';
+
+export const dynamic = 'force-dynamic';
+
+const SEARCH_TYPES: SearchType[] = ['any', 'file', 'directory', 'symlink'];
+
+function optionalNumber(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new BadRequestError(`${name} must be a number`);
+  }
+  return number;
+}
+
+/**
+ * Searches below a folder and streams the results as newline-delimited JSON (SearchEvent).
+ * Closing the request stops the search.
+ *
+ *   GET ?path=&mode=name&pattern=&case=1&type=file&minSize=&maxSize=&within=&notWithin=
+ *   GET ?path=&mode=content&pattern=&case=1&fixed=1&include=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const credentials = await requireCredentials();
+    const params = request.nextUrl.searchParams;
+    const path = params.get('path');
+    if (!path) {
+      throw new BadRequestError('A path is required');
+    }
+    const mode = params.get('mode') === 'content' ? 'content' : 'name';
+    const type = (params.get('type') || 'any') as SearchType;
+    if (!SEARCH_TYPES.includes(type)) {
+      throw new BadRequestError(`Unknown type "${type}"`);
+    }
+    const query: SearchQuery = {
+      mode,
+      pattern: params.get('pattern') ?? '',
+      caseSensitive: params.get('case') === '1',
+      type,
+      minSize: optionalNumber(params, 'minSize'),
+      maxSize: optionalNumber(params, 'maxSize'),
+      modifiedWithinDays: optionalNumber(params, 'within'),
+      notModifiedWithinDays: optionalNumber(params, 'notWithin'),
+      fixedString: params.get('fixed') === '1',
+      include: params.get('include') || undefined,
+    };
+
+    const root = await stat(credentials, path);
+    if (!root.isDirectory) {
+      throw new BadRequestError(`${root.path} is not a folder`);
+    }
+    const stream = await startSearch(credentials, root.path, query);
+    request.signal.addEventListener('abort', () => stream.cancel().catch(() => {}));
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,96 @@
+import { StringDecoder } from 'string_decoder';
+import { NextRequest } from 'next/server';
+import { requireCredentials } from '../../../../lib/session';
+import { stat } from '../../../../lib/sftp';
+import { streamCommand } from '../../../../lib/ssh';
+import { sh, path as shellPath } from '../../../../lib/shell';
+import { BadRequestError, errorResponse } from '../../../../lib/http';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing a quiet stream
+const KEEPALIVE_INTERVAL = 15 * 1000;
+
+/**
+ * Follows a growing file like `tail -F`, as server-sent events. Each event's data is a JSON
+ * string of appended text and its id is the byte offset after it, so a reconnecting
+ * EventSource (which sends Last-Event-ID) resumes where it left off. A `truncated` event
+ * means the file was cut short or replaced and is being read again from the start.
+ *
+ *   GET ?path=&offset=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const credentials = await requireCredentials();
+    const params = request.nextUrl.searchParams;
+    const path = params.get('path');
+    if (!path) {
+      throw new BadRequestError('A path is required');
+    }
+    const offset = Number(request.headers.get('last-event-id') ?? params.get('offset') ?? 0);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new BadRequestError('Invalid offset');
+    }
+    const entry = await stat(credentials, path);
+    if (entry.isDirectory) {
+      throw new BadRequestError(`${entry.path} is a folder`);
+    }
+
+    const tail = await streamCommand(credentials, sh`exec tail -c +${offset + 1} -F -- ${shellPath(entry.path)}`);
+    const encoder = new TextEncoder();
+    const decoder = new StringDecoder('utf8');
+    let position = offset;
+    let keepalive: NodeJS.Timeout | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (text: string) => {
+          try {
+            controller.enqueue(encoder.encode(text));
+          } catch {
+            tail.destroy();
+          }
+        };
+        keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_INTERVAL);
+        tail.on('data', (data: Buffer) => {
+          position += data.length;
+          const text = decoder.write(data);
+          if (text) send(`id: ${position}\ndata: ${JSON.stringify(text)}\n\n`);
+        });
+        tail.stderr.on('data', (data: Buffer) => {
+          // GNU tail reports "file truncated" and "has been replaced" on stderr
+          if (/truncated|replaced/.test(data.toString())) {
+            position = 0;
+            send('event: truncated\ndata: {}\n\n');
+          }
+        });
+        tail.on('close', () => {
+          clearInterval(keepalive);
+          try {
+            controller.close();
+          } catch {
+            // Already cancelled by the browser
+          }
+        });
+      },
+      cancel() {
+        clearInterval(keepalive);
+        tail.destroy();
+      },
+    });
+    request.signal.addEventListener('abort', () => {
+      clearInterval(keepalive);
+      tail.destroy();
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-store',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
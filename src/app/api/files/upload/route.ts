@@ -0,0 +1,66 @@
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { NextRequest } from 'next/server';
+import { requireCredentials } from '../../../../lib/session';
+import { UploadOffsetError, discardUpload, getUploadOffset, writeUploadChunk } from '../../../../lib/sftp';
+import { BadRequestError, errorResponse } from '../../../../lib/http';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Resumable uploads. The browser sends a file as a series of PUTs, each carrying one chunk
+ * in the body and its byte offset in the query; nothing is buffered here.
+ *
+ *   GET    ?path=  -> { offset }  bytes already received, to resume an interrupted upload
+ *   PUT    ?path=&offset=&last=1  -> { offset, entry? }
+ *   DELETE ?path=  -> discards a partial upload
+ */
+
+function targetPath(request: NextRequest): string {
+  const path = request.nextUrl.searchParams.get('path');
+  if (!path) {
+    throw new BadRequestError('A path is required');
+  }
+  return path;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const credentials = await requireCredentials();
+    return Response.json({ offset: await getUploadOffset(credentials, targetPath(request)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const credentials = await requireCredentials();
+    const params = request.nextUrl.searchParams;
+    const offset = Number(params.get('offset') ?? 0);
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      throw new BadRequestError('Invalid offset');
+    }
+
+    const body = request.body
+      ? Readable.fromWeb(request.body as WebReadableStream<Uint8Array>)
+      : Readable.from([]);
+    const result = await writeUploadChunk(credentials, targetPath(request), body, offset, params.get('last') === '1');
+    return Response.json(result);
+  } catch (error) {
+    if (error instanceof UploadOffsetError) {
+      return Response.json({ error: error.message, offset: error.offset }, { status: 409 });
+    }
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const credentials = await requireCredentials();
+    await discardUpload(credentials, targetPath(request));
+    return Response.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
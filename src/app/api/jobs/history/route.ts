@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { requireCredentials } from '../../../../lib/session';
+import { JobHistoryFilter, getCachedHistory } from '../../../../lib/jobs';
+import { BadRequestError, attachment, errorResponse } from '../../../../lib/http';
+import { JobHistoryEntry, JobState, formatExitCode } from '../../../../lib/slurm';
+
+export const dynamic = 'force-dynamic';
+
+const CSV_COLUMNS: [string, (job: JobHistoryEntry) => string | number][] = [
+  ['JobID', job => job.jobId],
+  ['JobName', job => job.name],
+  ['Partition', job => job.partition],
+  ['Account', job => job.account],
+  ['State', job => job.state],
+  ['ExitCode', job => formatExitCode(job.exitCode)],
+  ['Submit', job => job.submitTime],
+  ['Start', job => job.startTime],
+  ['End', job => job.endTime],
+  ['ElapsedSeconds', job => job.elapsed],
+  ['CPUs', job => job.cpus],
+  ['CPUHours', job => (job.elapsed * job.cpus / 3600).toFixed(2)],
+  ['ParentJobID', job => job.parentJobId ?? ''],
+];
+
+// RFC 4180: quote fields with commas, quotes or line breaks, doubling the quotes. Text that
+// a spreadsheet would run as a formula (job names are user-chosen) gets a leading '
+const csvField = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function toCsv(jobs: JobHistoryEntry[]): string {
+  const lines = [CSV_COLUMNS.map(([name]) => name).join(',')];
+  for (const job of jobs) {
+    lines.push(CSV_COLUMNS.map(([, value]) => csvField(value(job))).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * The whole filtered job history (every page) as a file, for allocation reports.
+ *
+ *   GET ?start=YYYY-MM-DD&end=YYYY-MM-DD&state=FAILED,TIMEOUT&partition=&name=&search=&group=1&format=csv|json
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const credentials = await requireCredentials();
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format') ?? 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      throw new BadRequestError('The format must be csv or json');
+    }
+    const filter: JobHistoryFilter = {
+      start: params.get('start') ?? '',
+      end: params.get('end') ?? '',
+      states: (params.get('state') ?? '').split(',').filter(Boolean) as JobState[],
+      partition: params.get('partition') ?? undefined,
+      name: params.get('name') ?? undefined,
+      search: params.get('search') ?? undefined,
+      groupReruns: params.get('group') === '1',
+    };
+    // Usually the history just shown, so sacct does not run again
+    const jobs = await getCachedHistory(credentials, credentials.username, filter);
+    const filename = `jobs-${filter.start}-to-${filter.end}.${format}`;
+    return new Response(format === 'json' ? JSON.stringify(jobs, null, 2) : toCsv(jobs), {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+        'Content-Disposition': attachment(filename),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,11 +1,14 @@
 'use server';
 
 import { SSHCredentials, executeCommand } from '../lib/ssh';
-import { spawn as spawnProc } from 'child_process';
+import { SessionError, requireCredentials, requireProfile, requireSessionId } from '../lib/session';
+import { moduleLoads, sbatchDefaults } from '../lib/profiles';
+import { sh, path as shellPath, heredoc, validateJobId } from '../lib/shell';
+import { openTunnel, closeTunnel, tunnelPort } from '../lib/tunnel';
+import { resolvePath, withSftp } from '../lib/sftp';
+import { CrossDeviceError, deletePermanently, moveToTrash } from '../lib/trash';
 import path from 'path';
-
-// Keep track of tunnel in global scope
-let tunnelProcess: any = null;
+import posixPath from 'path/posix';
 
 // Helper for model validation
 const ALLOWED_MODELS = [
@@ -15,16 +18,29 @@ const ALLOWED_MODELS = [
     'google/gemma-3-1b-it'
 ];
 
-const CACHE_DIR = "$HOME/.cache/huggingface/hub";
+// The app listens on this port on the compute node; each session reaches it through its own tunnel
+const LLM_PORT = 5000;
+const LLM_TUNNEL = 'llm';
+
+// URL of the LLM app through this session's tunnel
+async function llmUrl(path: string): Promise<string> {
+    const port = tunnelPort(await requireSessionId(), LLM_TUNNEL);
+    if (port === null) {
+        throw new Error('The LLM tunnel is not running');
+    }
+    return `http://127.0.0.1:${port}${path}`;
+}
 
-export async function submitLLMJob(credentials: SSHCredentials, modelId: string = 'meta-llama/Meta-Llama-3-8B-Instruct') {
+export async function submitLLMJob(modelId: string = 'meta-llama/Meta-Llama-3-8B-Instruct') {
     try {
+        const credentials = await requireCredentials();
+        const profile = await requireProfile();
         if (!ALLOWED_MODELS.includes(modelId)) {
             throw new Error('Invalid model selection');
         }
 
         // Proactively cancel any existing job to free up the port
-        await stopLLMJob(credentials);
+        await stopLLMJob();
 
         const sbatchScript = `#!/bin/bash
 #SBATCH --nodes=1
@@ -36,10 +52,10 @@ export async function submitLLMJob(credentials: SSHCredentials, modelId: string
 #SBATCH --job-name=rag_app
 #SBATCH --output=rag_app_%j.out
 #SBATCH --error=rag_app_%j.err
-#SBATCH --partition=kamiak
+${sbatchDefaults(profile)}
 
-module load python3/3.13.1
-module load cuda/12.2.0
+${moduleLoads(profile)}
+export HF_HUB_CACHE=${shellPath(profile.cacheDir)}
 
 BASE_DIR="$HOME/llm"
 if [ ! -d "$BASE_DIR" ]; then
@@ -215,18 +231,11 @@ else
 fi
 
 echo "Starting app..."
-python app.py --host 0.0.0.0 --port 5000
+python app.py --host 0.0.0.0 --port ${LLM_PORT}
 `;
 
-        const timestamp = Date.now();
-        const filename = `llm_job_${timestamp}.slurm`;
-
-        const command = `cat << 'EOF' > ${filename}
-${sbatchScript}
-EOF
-sbatch ${filename}
-rm ${filename}
-`;
+        // sbatch reads the script from stdin, so no temporary file is needed
+        const command = sh`sbatch ${heredoc(sbatchScript)}`;
 
         const result = await executeCommand(credentials, command);
         if (result.code !== 0) {
@@ -237,16 +246,18 @@ rm ${filename}
         return { success: true, jobId: match ? match[1] : undefined };
 
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function checkLLMJobStatus(credentials: SSHCredentials, jobId: string) {
+// Only polled while the job starts, so it does not keep the session alive
+export async function checkLLMJobStatus(jobId: string) {
     try {
-        const result = await executeCommand(credentials, `squeue -j ${jobId} --noheader --format="%T %N"`);
+        const credentials = await requireCredentials(false);
+        const result = await executeCommand(credentials, sh`squeue -j ${validateJobId(jobId)} --noheader --format="%T %N"`);
 
         if (result.code !== 0) {
-            const histResult = await executeCommand(credentials, `sacct -j ${jobId} --noheader --format="State"`);
+            const histResult = await executeCommand(credentials, sh`sacct -j ${validateJobId(jobId)} --noheader --format="State"`);
             if (histResult.stdout.trim()) {
                 return { success: true, state: histResult.stdout.trim().split(/\s+/)[0], node: null };
             }
@@ -262,86 +273,54 @@ export async function checkLLMJobStatus(credentials: SSHCredentials, jobId: stri
         return { success: true, state, node: node === '(N/A)' ? null : node };
 
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function startTunnelAction(credentials: SSHCredentials, nodeName: string) {
-    if (tunnelProcess) {
-        return { success: true, message: 'Tunnel already running' };
-    }
-
-    const segments = ['public', 'tunnel_script.js'];
-    const scriptPath = path.resolve(process.cwd(), ...segments);
-
+export async function startTunnelAction(nodeName: string) {
     try {
-        return await new Promise<{ success: boolean; message?: string; error?: string }>((resolve, reject) => {
-            tunnelProcess = spawnProc('node', [
-                scriptPath,
-                credentials.host,
-                credentials.username,
-                credentials.password || 'null',
-                credentials.privateKey || 'null',
-                nodeName,
-                '5000',
-                '5000'
-            ], {
-                detached: false,
-            });
-
-            let output = '';
-            tunnelProcess.stdout.on('data', (data: any) => {
-                const msg = data.toString();
-                console.log(`Tunnel Out: ${msg}`);
-                output += msg;
-                if (msg.includes('Tunnel listening')) {
-                    resolve({ success: true, message: 'Tunnel started' });
-                }
-            });
-            tunnelProcess.stderr.on('data', (data: any) => {
-                const msg = data.toString();
-                console.error(`Tunnel Err: ${msg}`);
-                output += msg;
-            });
-            tunnelProcess.on('close', (code: any) => {
-                console.log(`Tunnel exited with code ${code}`);
-                tunnelProcess = null;
-                if (code !== 0) {
-                    reject(new Error(`Tunnel process exited with code ${code}. Output: ${output}`));
-                }
-            });
+        const credentials = await requireCredentials();
+        const { alreadyRunning } = await openTunnel({
+            owner: await requireSessionId(),
+            credentials,
+            name: LLM_TUNNEL,
+            remoteHost: nodeName,
+            remotePort: LLM_PORT,
         });
+        return { success: true, message: alreadyRunning ? 'Tunnel already running' : 'Tunnel started' };
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
 export async function stopTunnelAction() {
-    if (tunnelProcess) {
-        tunnelProcess.kill();
-        tunnelProcess = null;
+    try {
+        closeTunnel(await requireSessionId(), LLM_TUNNEL);
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
-    return { success: true };
 }
 
-export async function stopLLMJob(credentials: SSHCredentials) {
+export async function stopLLMJob() {
     try {
+        const credentials = await requireCredentials();
         await stopTunnelAction();
         // Cancel job by name to ensure we catch any running instance
         // rag_app is the job name defined in SBATCH
-        const result = await executeCommand(credentials, `scancel -n rag_app -u ${credentials.username}`);
+        const result = await executeCommand(credentials, sh`scancel -n rag_app -u ${credentials.username}`);
         if (result.code !== 0) {
             console.error('Failed to cancel job:', result.stderr);
         }
         return { success: true };
     } catch (e) {
-        return { success: false, error: (e as Error).message };
+        return { success: false, error: (e as Error).message, sessionExpired: e instanceof SessionError };
     }
 }
 
 export async function queryLLM(message: string, systemInstruction?: string) {
     try {
-        const response = await fetch('http://127.0.0.1:5000/query', {
+        const response = await fetch(await llmUrl('/query'), {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ query: message, system_instruction: systemInstruction })
@@ -353,13 +332,13 @@ export async function queryLLM(message: string, systemInstruction?: string) {
 
         return await response.json();
     } catch (error) {
-        return { error: (error as Error).message };
+        return { error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
 export async function resetLLMContext() {
     try {
-        const response = await fetch('http://127.0.0.1:5000/reset', {
+        const response = await fetch(await llmUrl('/reset'), {
             method: 'POST',
         });
         if (!response.ok) {
@@ -367,23 +346,43 @@ export async function resetLLMContext() {
         }
         return { success: true };
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function listCachedModels(credentials: SSHCredentials) {
+export async function uploadLLMFile(file: File) {
+    const formData = new FormData();
+    formData.append('file', file);
     try {
-        const command = `ls -d ${CACHE_DIR}/models--* 2>/dev/null`;
+        const res = await fetch(await llmUrl('/upload'), {
+            method: 'POST',
+            body: formData,
+        });
+        const data = await res.json();
+        return res.ok ? { success: true, message: data.message } : { success: false, error: data.error };
+    } catch (error) {
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
+    }
+}
+
+export async function listCachedModels() {
+    try {
+        const credentials = await requireCredentials();
+        const { cacheDir } = await requireProfile();
+        // One du call for every model directory instead of one per model
+        const command = sh`du -sh ${shellPath(cacheDir)}/models--* 2>/dev/null`;
         const result = await executeCommand(credentials, command);
 
-        if (result.code !== 0) {
+        if (!result.stdout.trim()) {
             return { success: true, models: [] };
         }
 
-        const rawPaths = result.stdout.trim().split('\n').filter(p => p.trim());
+        const rows = result.stdout.trim().split('\n').filter(p => p.trim());
         const models = [];
 
-        for (const p of rawPaths) {
+        for (const row of rows) {
+            const [size, ...pathParts] = row.split('\t');
+            const p = pathParts.join('\t');
             const folderName = path.basename(p);
             const parts = folderName.split('--');
             if (parts.length >= 3) {
@@ -391,39 +390,61 @@ export async function listCachedModels(credentials: SSHCredentials) {
                 const name = parts.slice(2).join('-');
                 const displayName = `${org}/${name}`;
 
-                const sizeRes = await executeCommand(credentials, `du -sh "${p}" | cut -f1`);
-                const size = sizeRes.stdout.trim();
-
                 models.push({ id: folderName, name: displayName, size, path: p });
             }
         }
 
         return { success: true, models };
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function deleteCachedModel(credentials: SSHCredentials, folderPath: string) {
-    try {
-        if (!folderPath.includes('models--')) {
+/**
+ * The model folder `folderPath` names, resolved on the cluster. Only a models--<name> folder
+ * directly inside the profile's cache directory is accepted.
+ */
+async function resolveCachedModel(credentials: SSHCredentials, cacheDir: string, folderPath: string): Promise<string> {
+    const name = posixPath.basename(folderPath);
+    if (folderPath.split('/').some(segment => segment === '..' || segment === '.') || !/^models--[^/]+$/.test(name)) {
+        throw new Error('Invalid model path selection');
+    }
+    return withSftp(credentials, async (sftp) => {
+        const [cache, parent] = await Promise.all([
+            resolvePath(sftp, cacheDir.replace(/^\$HOME(\/|$)/, '~$1')),
+            resolvePath(sftp, posixPath.dirname(folderPath)),
+        ]);
+        if (parent !== cache) {
             throw new Error('Invalid model path selection');
         }
+        return posixPath.join(cache, name);
+    });
+}
 
-        const command = `rm -rf "${folderPath}"`;
-        const result = await executeCommand(credentials, command);
-
-        if (result.code !== 0) {
-            throw new Error(result.stderr || 'Failed to delete model');
+/**
+ * Moves a cached model to the trash, with the same guards as the file manager. `crossDevice`
+ * means it can only be deleted for good; confirm with the user and call again with `permanent`.
+ */
+export async function deleteCachedModel(folderPath: string, permanent: boolean = false) {
+    try {
+        const credentials = await requireCredentials();
+        const { cacheDir } = await requireProfile();
+        const target = await resolveCachedModel(credentials, cacheDir, folderPath);
+        if (permanent) {
+            await deletePermanently(credentials, target);
+        } else {
+            await moveToTrash(credentials, target);
         }
-
         return { success: true };
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        if (error instanceof CrossDeviceError) {
+            return { success: false, crossDevice: true, error: error.message };
+        }
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-const GEMS_FILE = "$HOME/llm/gems.json";
+const GEMS_FILE = shellPath('~/llm/gems.json');
 
 export interface Gem {
     id: string;
@@ -433,9 +454,10 @@ export interface Gem {
     created_at: number;
 }
 
-export async function listGems(credentials: SSHCredentials) {
+export async function listGems() {
     try {
-        const command = `cat ${GEMS_FILE} 2>/dev/null`;
+        const credentials = await requireCredentials();
+        const command = sh`cat ${GEMS_FILE} 2>/dev/null`;
         const result = await executeCommand(credentials, command);
 
         if (result.code !== 0) {
@@ -449,14 +471,15 @@ export async function listGems(credentials: SSHCredentials) {
             return { success: true, gems: [] }; // Corrupt file, return empty
         }
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function saveGem(credentials: SSHCredentials, gem: Gem) {
+export async function saveGem(gem: Gem) {
     try {
+        const credentials = await requireCredentials();
         // Read existing
-        const listRes = await listGems(credentials);
+        const listRes = await listGems();
         let gems: Gem[] = listRes.success && listRes.gems ? listRes.gems : [];
 
         // Update or Append
@@ -468,10 +491,7 @@ export async function saveGem(credentials: SSHCredentials, gem: Gem) {
         }
 
         // Write back
-        // Create temp file securely then mv? Simple echo should suffice for now.
-        // We need to escape single quotes in the JSON string for the bash command
-        const jsonStr = JSON.stringify(gems).replace(/'/g, "'\\''");
-        const command = `echo '${jsonStr}' > ${GEMS_FILE}`;
+        const command = sh`printf '%s\n' ${JSON.stringify(gems)} > ${GEMS_FILE}`;
 
         const result = await executeCommand(credentials, command);
         if (result.code !== 0) {
@@ -480,19 +500,19 @@ export async function saveGem(credentials: SSHCredentials, gem: Gem) {
 
         return { success: true };
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function deleteGem(credentials: SSHCredentials, gemId: string) {
+export async function deleteGem(gemId: string) {
     try {
-        const listRes = await listGems(credentials);
+        const credentials = await requireCredentials();
+        const listRes = await listGems();
         let gems: Gem[] = listRes.success && listRes.gems ? listRes.gems : [];
 
         const newGems = gems.filter(g => g.id !== gemId);
 
-        const jsonStr = JSON.stringify(newGems).replace(/'/g, "'\\''");
-        const command = `echo '${jsonStr}' > ${GEMS_FILE}`;
+        const command = sh`printf '%s\n' ${JSON.stringify(newGems)} > ${GEMS_FILE}`;
 
         const result = await executeCommand(credentials, command);
         if (result.code !== 0) {
@@ -501,7 +521,7 @@ export async function deleteGem(credentials: SSHCredentials, gemId: string) {
 
         return { success: true };
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
@@ -530,22 +550,22 @@ const DEFAULT_GEMS: Gem[] = [
     }
 ];
 
-export async function ensureLLMEnvironment(credentials: SSHCredentials) {
+export async function ensureLLMEnvironment() {
     try {
+        const credentials = await requireCredentials();
         // 1. Create base directory
-        await executeCommand(credentials, `mkdir -p "$HOME/llm"`);
+        await executeCommand(credentials, sh`mkdir -p ${shellPath('~/llm')}`);
 
         // 2. Check and Create gems.json if missing
-        const checkRes = await executeCommand(credentials, `ls ${GEMS_FILE} 2>/dev/null`);
+        const checkRes = await executeCommand(credentials, sh`ls ${GEMS_FILE} 2>/dev/null`);
         if (checkRes.code !== 0) {
             console.log("Seeding gems.json...");
-            const jsonStr = JSON.stringify(DEFAULT_GEMS).replace(/'/g, "'\\''");
-            await executeCommand(credentials, `echo '${jsonStr}' > ${GEMS_FILE}`);
+            await executeCommand(credentials, sh`printf '%s\n' ${JSON.stringify(DEFAULT_GEMS)} > ${GEMS_FILE}`);
             return { success: true, seeded: true };
         }
 
         return { success: true, seeded: false };
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
@@ -1,13 +1,9 @@
 'use server';
-import { SSHCredentials, executeCommand } from '../lib/ssh';
-import { spawn as spawnProc, exec } from 'child_process';
-import util from 'util';
-import path from 'path';
-
-const execAsync = util.promisify(exec);
-
-// Keep track of tunnel in global scope
-let tunnelProcess: any = null;
+import { executeCommand } from '../lib/ssh';
+import { SessionError, requireCredentials, requireProfile, requireSessionId } from '../lib/session';
+import { moduleLoads, sbatchDefaults } from '../lib/profiles';
+import { sh, path as shellPath, heredoc, validateJobId } from '../lib/shell';
+import { openTunnel, closeTunnel, tunnelPort } from '../lib/tunnel';
 
 // Helper for model validation
 const ALLOWED_MODELS = [
@@ -17,14 +13,29 @@ const ALLOWED_MODELS = [
     'google/gemma-3-1b-it'
 ];
 
-export async function submitNotebookJob(credentials: SSHCredentials, modelId: string = 'meta-llama/Meta-Llama-3-8B-Instruct') {
+// The app listens on this port on the compute node; each session reaches it through its own tunnel
+const NOTEBOOK_PORT = 5001;
+const NOTEBOOK_TUNNEL = 'notebook';
+
+// URL of the notebook app through this session's tunnel
+async function notebookUrl(path: string, touch = true): Promise<string> {
+    const port = tunnelPort(await requireSessionId(touch), NOTEBOOK_TUNNEL);
+    if (port === null) {
+        throw new Error('The notebook tunnel is not running');
+    }
+    return `http://127.0.0.1:${port}${path}`;
+}
+
+export async function submitNotebookJob(modelId: string = 'meta-llama/Meta-Llama-3-8B-Instruct') {
     try {
+        const credentials = await requireCredentials();
+        const profile = await requireProfile();
         if (!ALLOWED_MODELS.includes(modelId)) {
             throw new Error('Invalid model selection');
         }
 
         // Proactively cancel any existing job to free up the port
-        await stopNotebookJob(credentials);
+        await stopNotebookJob();
 
         const sbatchScript = `#!/bin/bash
 #SBATCH --nodes=1
@@ -36,10 +47,10 @@ export async function submitNotebookJob(credentials: SSHCredentials, modelId: st
 #SBATCH --job-name=notebook_llm
 #SBATCH --output=notebook_%j.out
 #SBATCH --error=notebook_%j.err
-#SBATCH --partition=kamiak
+${sbatchDefaults(profile)}
 
-module load python3/3.13.1
-module load cuda/12.2.0
+${moduleLoads(profile)}
+export HF_HUB_CACHE=${shellPath(profile.cacheDir)}
 
 BASE_DIR="$HOME/llm"
 if [ ! -d "$BASE_DIR" ]; then
@@ -227,18 +238,11 @@ else
 fi
 
 echo "Starting NotebookLLM app..."
-python NotebookLLM.py --host 0.0.0.0 --port 5001
+python NotebookLLM.py --host 0.0.0.0 --port ${NOTEBOOK_PORT}
 `;
 
-        const timestamp = Date.now();
-        const filename = `notebook_job_${timestamp}.slurm`;
-
-        const command = `cat << 'EOF' > ${filename}
-${sbatchScript}
-EOF
-sbatch ${filename}
-rm ${filename}
-`;
+        // sbatch reads the script from stdin, so no temporary file is needed
+        const command = sh`sbatch ${heredoc(sbatchScript)}`;
 
         const result = await executeCommand(credentials, command);
         if (result.code !== 0) {
@@ -249,16 +253,18 @@ rm ${filename}
         return { success: true, jobId: match ? match[1] : undefined };
 
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function checkNotebookJobStatus(credentials: SSHCredentials, jobId: string) {
+// Only polled while the job starts, so it does not keep the session alive
+export async function checkNotebookJobStatus(jobId: string) {
     try {
-        const result = await executeCommand(credentials, `squeue -j ${jobId} --noheader --format="%T %N"`);
+        const credentials = await requireCredentials(false);
+        const result = await executeCommand(credentials, sh`squeue -j ${validateJobId(jobId)} --noheader --format="%T %N"`);
 
         if (result.code !== 0) {
-            const histResult = await executeCommand(credentials, `sacct -j ${jobId} --noheader --format="State"`);
+            const histResult = await executeCommand(credentials, sh`sacct -j ${validateJobId(jobId)} --noheader --format="State"`);
             if (histResult.stdout.trim()) {
                 return { success: true, state: histResult.stdout.trim().split(/\s+/)[0], node: null };
             }
@@ -274,79 +280,47 @@ export async function checkNotebookJobStatus(credentials: SSHCredentials, jobId:
         return { success: true, state, node: node === '(N/A)' ? null : node };
 
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function startTunnelAction(credentials: SSHCredentials, nodeName: string) {
-    if (tunnelProcess) {
-        return { success: true, message: 'Tunnel already running' };
-    }
-
-    const segments = ['public', 'tunnel_script.js'];
-    const scriptPath = path.resolve(process.cwd(), ...segments);
-
+export async function startTunnelAction(nodeName: string) {
     try {
-        return await new Promise<{ success: boolean; message?: string; error?: string }>((resolve, reject) => {
-            tunnelProcess = spawnProc('node', [
-                scriptPath,
-                credentials.host,
-                credentials.username,
-                credentials.password || 'null',
-                credentials.privateKey || 'null',
-                nodeName,
-                '5001',
-                '5001'
-            ], {
-                detached: false,
-            });
-
-            let output = '';
-            tunnelProcess.stdout.on('data', (data: any) => {
-                const msg = data.toString();
-                console.log(`Tunnel Out: ${msg}`);
-                output += msg;
-                if (msg.includes('Tunnel listening')) {
-                    resolve({ success: true, message: 'Tunnel started' });
-                }
-            });
-            tunnelProcess.stderr.on('data', (data: any) => {
-                const msg = data.toString();
-                console.error(`Tunnel Err: ${msg}`);
-                output += msg;
-            });
-            tunnelProcess.on('close', (code: any) => {
-                console.log(`Tunnel exited with code ${code}`);
-                tunnelProcess = null;
-                if (code !== 0) {
-                    reject(new Error(`Tunnel process exited with code ${code}. Output: ${output}`));
-                }
-            });
+        const credentials = await requireCredentials();
+        const { alreadyRunning } = await openTunnel({
+            owner: await requireSessionId(),
+            credentials,
+            name: NOTEBOOK_TUNNEL,
+            remoteHost: nodeName,
+            remotePort: NOTEBOOK_PORT,
         });
+        return { success: true, message: alreadyRunning ? 'Tunnel already running' : 'Tunnel started' };
     } catch (error) {
-        return { success: false, error: (error as Error).message };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
 export async function stopTunnelAction() {
-    if (tunnelProcess) {
-        tunnelProcess.kill();
-        tunnelProcess = null;
+    try {
+        closeTunnel(await requireSessionId(), NOTEBOOK_TUNNEL);
+        return { success: true };
+    } catch (error) {
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
-    return { success: true };
 }
 
-export async function stopNotebookJob(credentials: SSHCredentials) {
+export async function stopNotebookJob() {
     try {
+        const credentials = await requireCredentials();
         await stopTunnelAction();
         // Cancel job by name to ensure we catch any running instance
-        const result = await executeCommand(credentials, `scancel -n notebook_llm -u ${credentials.username}`);
+        const result = await executeCommand(credentials, sh`scancel -n notebook_llm -u ${credentials.username}`);
         if (result.code !== 0) {
             console.error('Failed to cancel job:', result.stderr);
         }
         return { success: true };
     } catch (e) {
-        return { success: false, error: (e as Error).message };
+        return { success: false, error: (e as Error).message, sessionExpired: e instanceof SessionError };
     }
 }
 
@@ -354,38 +328,39 @@ export async function uploadNotebookFile(file: File) {
     const formData = new FormData();
     formData.append('file', file);
     try {
-        const res = await fetch('http://127.0.0.1:5001/upload_file', {
+        const res = await fetch(await notebookUrl('/upload_file'), {
             method: 'POST',
             body: formData,
         });
         return await res.json();
     } catch (error) {
-        return { error: (error as Error).message };
+        return { error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
-export async function listNotebookFiles() {
+// `poll` marks background refreshes, which do not keep the session alive
+export async function listNotebookFiles(poll = false) {
     try {
-        const res = await fetch('http://127.0.0.1:5001/list_files', { method: 'GET' });
+        const res = await fetch(await notebookUrl('/list_files', !poll), { method: 'GET' });
         if (!res.ok) return { files: [] };
         return await res.json();
     } catch (error) {
-        return { files: [] };
+        return { files: [], sessionExpired: error instanceof SessionError };
     }
 }
 
 export async function deleteNotebookFile(filename: string) {
     try {
-        const res = await fetch(`http://127.0.0.1:5001/delete_file/${filename}`, { method: 'DELETE' });
+        const res = await fetch(await notebookUrl(`/delete_file/${encodeURIComponent(filename)}`), { method: 'DELETE' });
         return await res.json();
     } catch (error) {
-        return { error: (error as Error).message };
+        return { error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
 export async function queryNotebook(message: string, systemInstruction?: string) {
     try {
-        const response = await fetch('http://127.0.0.1:5001/query', {
+        const response = await fetch(await notebookUrl('/query'), {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ query: message, system_instruction: systemInstruction })
@@ -395,17 +370,18 @@ export async function queryNotebook(message: string, systemInstruction?: string)
         }
         return await response.json();
     } catch (error) {
-        return { error: (error as Error).message };
+        return { error: (error as Error).message, sessionExpired: error instanceof SessionError };
     }
 }
 
 export async function checkNotebookHealth() {
     try {
-        const res = await fetch('http://127.0.0.1:5001/health', { method: 'GET' });
+        // Polled in the background, so it does not keep the session alive
+        const res = await fetch(await notebookUrl('/health', false), { method: 'GET' });
         if (!res.ok) return { status: 'down' };
         const data = await res.json();
         return data.status === 'notebook_ok' ? { status: 'ok', file_count: data.file_count } : { status: 'down' };
     } catch (error) {
-        return { status: 'down' };
+        return { status: 'down', sessionExpired: error instanceof SessionError };
     }
 }
@@ -4,55 +4,151 @@ import { useState } from 'react';
 import Login from '../components/Login';
 import Dashboard from '../components/Dashboard';
 import { useRef, useEffect } from 'react';
-import { verifyConnection } from './actions';
+import { verifyConnection, respondToLoginChallenge, respondToHostKey, abortLogin, getCurrentUser, logout, switchConnection, disconnectProfile, LoginResult } from './actions';
 import { ensureLLMEnvironment } from './llm-actions';
+import type { SessionUser } from '../lib/session';
+import type { LoginCredentials } from '../lib/ssh';
+import type { ClusterProfile } from '../lib/profiles';
+import { onSessionExpired, reportSessionExpired } from '../lib/session-expiry';
 
 export default function Home() {
-  const [credentials, setCredentials] = useState(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+  // Logging in to another profile while already connected
+  const [addingConnection, setAddingConnection] = useState(false);
   const [loading, setLoading] = useState(false);
   
   const [error, setError] = useState('');
+  const [challenge, setChallenge] = useState<LoginResult['challenge']>();
+  const [hostKey, setHostKey] = useState<LoginResult['hostKey']>();
+  const [hostKeyMismatch, setHostKeyMismatch] = useState<LoginResult['hostKeyMismatch']>();
   
-  // Use a ref to prevent double-execution in Strict Mode
-  const setupRan = useRef(false);
+  // Use a ref to prevent double-execution in Strict Mode; holds the profile last set up
+  const setupRan = useRef<string | null>(null);
 
+  // Resume an existing server-side session after a page reload
   useEffect(() => {
-    if (credentials && !setupRan.current) {
-        setupRan.current = true;
+    getCurrentUser()
+        .then(current => setUser(current))
+        .finally(() => setCheckingSession(false));
+  }, []);
+
+  // Back to the login screen once any request finds the server session gone
+  useEffect(() => onSessionExpired(() => {
+    setUser(null);
+    setAddingConnection(false);
+    setupRan.current = null;
+    setError('Your session has expired. Please log in again.');
+  }), []);
+
+  useEffect(() => {
+    if (user && setupRan.current !== user.profile.id) {
+        setupRan.current = user.profile.id;
         // Run setup in background
-        ensureLLMEnvironment(credentials).then(res => {
+        ensureLLMEnvironment().then(res => {
             if (res.success && res.seeded) {
                 console.log('LLM Environment Seeded with Default Gems');
             }
         });
     }
-  }, [credentials]);
+  }, [user]);
+
+  const handleLoginResult = (result: LoginResult) => {
+    setChallenge(result.challenge);
+    setHostKey(result.hostKey);
+    setHostKeyMismatch(result.hostKeyMismatch);
+    if (result.success && result.user) {
+      setUser(result.user);
+      setAddingConnection(false);
+    } else if (!result.challenge && !result.hostKey && !result.hostKeyMismatch) {
+      setError(result.error || 'Failed to connect');
+    }
+  };
 
-  const handleLogin = async (creds: any) => {
+  const handleLogin = async (creds: LoginCredentials, profile?: ClusterProfile) => {
     setLoading(true);
     setError('');
     try {
-        const result = await verifyConnection(creds);
-        setLoading(false);
-        
-        if (result.success) {
-          setCredentials(creds);
-        } else {
-          setError(result.error || 'Failed to connect');
-        }
+        handleLoginResult(await verifyConnection(creds, profile));
     } catch (e) {
+        setError('An unexpected error occurred');
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const handleRespond = async (answers: string[]) => {
+    if (!challenge) return;
+    setLoading(true);
+    setError('');
+    try {
+        handleLoginResult(await respondToLoginChallenge(challenge.loginId, answers));
+    } catch {
+        setChallenge(undefined);
+        setError('An unexpected error occurred');
+    } finally {
         setLoading(false);
+    }
+  };
+
+  const handleHostKeyDecision = async (accepted: boolean) => {
+    if (!hostKey) return;
+    setLoading(true);
+    setError('');
+    try {
+        handleLoginResult(await respondToHostKey(hostKey.loginId, accepted));
+    } catch {
+        setHostKey(undefined);
         setError('An unexpected error occurred');
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const handleCancelChallenge = () => {
+    if (challenge) abortLogin(challenge.loginId);
+    if (hostKey) abortLogin(hostKey.loginId);
+    setChallenge(undefined);
+    setHostKey(undefined);
+  };
+
+  const handleSwitchConnection = async (profileId: string) => {
+    const result = await switchConnection(profileId);
+    if (result.success && result.user) {
+        setUser(result.user);
+    } else if (result.sessionExpired) {
+        reportSessionExpired();
     }
   };
 
-  const handleLogout = () => {
-    setCredentials(null);
-    setupRan.current = false;
+  const handleDisconnectProfile = async (profileId: string) => {
+    const result = await disconnectProfile(profileId);
+    setUser(result.user);
+    if (!result.user) setupRan.current = null;
   };
 
-  if (credentials) {
-    return <Dashboard credentials={credentials} onLogout={handleLogout} />;
+  const handleLogout = async () => {
+    await logout();
+    setUser(null);
+    setupRan.current = null;
+  };
+
+  if (checkingSession) {
+    return null;
+  }
+
+  if (user && !addingConnection) {
+    // Remount on profile switch so every panel reloads against the new cluster
+    return (
+        <Dashboard
+            key={user.profile.id}
+            user={user}
+            onLogout={handleLogout}
+            onSwitchConnection={handleSwitchConnection}
+            onAddConnection={() => setAddingConnection(true)}
+            onDisconnectProfile={handleDisconnectProfile}
+        />
+    );
   }
 
   return (
@@ -62,7 +158,18 @@ export default function Home() {
                 <span className="font-bold">Error:</span> {error}
             </div>
         )}
-        <Login onLogin={handleLogin} loading={loading} />
+        <Login
+            onLogin={handleLogin}
+            onCancel={addingConnection ? () => setAddingConnection(false) : undefined}
+            loading={loading}
+            challenge={challenge}
+            onRespond={handleRespond}
+            onCancelChallenge={handleCancelChallenge}
+            hostKey={hostKey}
+            onHostKeyDecision={handleHostKeyDecision}
+            hostKeyMismatch={hostKeyMismatch}
+            onDismissMismatch={() => setHostKeyMismatch(undefined)}
+        />
     </>
   );
 }
@@ -1,6 +1,6 @@
 ﻿'use server';
 
-import { SSHCredentials } from '../lib/ssh';
+import { SessionError, requireCredentials } from '../lib/session';
 
 export interface SearchResult {
     title: string;
@@ -8,8 +8,10 @@ export interface SearchResult {
     snippet: string;
 }
 
-export async function searchWeb(query: string): Promise<{ success: boolean; results: SearchResult[]; error?: string }> {
+export async function searchWeb(query: string): Promise<{ success: boolean; results: SearchResult[]; error?: string; sessionExpired?: boolean }> {
     try {
+        await requireCredentials();
+
         // Use a privacy-friendly public instance or direct DDG HTML scraping
         // Note: Direct scraping of DDG html is fragile but works without API keys for low volume.
         // We will strictly parse the HTML response from html.duckduckgo.com
@@ -77,7 +79,7 @@ export async function searchWeb(query: string): Promise<{ success: boolean; resu
 
     } catch (error) {
         console.error("Web Search Error:", error);
-        return { success: false, error: (error as Error).message, results: [] };
+        return { success: false, error: (error as Error).message, sessionExpired: error instanceof SessionError, results: [] };
     }
 }
 
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ArchiveEntry, ArchiveEvent } from '../lib/archives';
+import { checkResponse } from '../lib/session-expiry';
+
+interface ArchivePreviewProps {
+  path: string;
+  onExtract?: () => void;
+}
+
+type ListingSummary = Extract<ArchiveEvent, { type: 'done' }>;
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+/**
+ * The table of contents of a tar or zip archive, read without extracting it.
+ */
+export default function ArchivePreview({ path, onExtract }: ArchivePreviewProps) {
+  const [entries, setEntries] = useState<ArchiveEntry[]>([]);
+  const [running, setRunning] = useState(true);
+  const [summary, setSummary] = useState<ListingSummary | null>(null);
+  const [error, setError] = useState('');
+  const controller = useRef<AbortController | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    const abort = new AbortController();
+    controller.current = abort;
+    setRunning(true);
+    try {
+      const response = checkResponse(await fetch(`/api/files/archive?${new URLSearchParams({ path })}`, { signal: abort.signal }));
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `${response.status} ${response.statusText}`);
+      }
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let pending = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const lines = (pending + value).split('\n');
+        pending = lines.pop() ?? '';
+        const batch: ArchiveEntry[] = [];
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as ArchiveEvent;
+          if (event.type === 'entry') {
+            batch.push(event.entry);
+          } else {
+            setSummary(event);
+          }
+        }
+        if (batch.length > 0) setEntries(previous => [...previous, ...batch]);
+      }
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        setError((e as Error).message || 'Failed to list the archive');
+      }
+    } finally {
+      if (controller.current === abort) {
+        controller.current = null;
+        setRunning(false);
+      }
+    }
+  }, [path]);
+
+  useEffect(() => {
+    loadEntries();
+    return () => controller.current?.abort();
+  }, [loadEntries]);
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex justify-between items-center mb-2 text-xs text-gray-500">
+        <span>
+          {entries.length} entr{entries.length === 1 ? 'y' : 'ies'}, {formatSize(totalSize)} unpacked
+          {running && ' · reading the archive...'}
+          {summary?.truncated && ' · only the first entries are shown'}
+          {!running && !summary && !error && ' · stopped'}
+        </span>
+        <div className="flex items-center space-x-2">
+          {running && (
+            <button onClick={() => controller.current?.abort()} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300">
+              Stop
+            </button>
+          )}
+          {onExtract && (
+            <button onClick={onExtract} className="px-2 py-1 bg-blue-600 hover:bg-blue-500 rounded text-white">
+              Extract Here
+            </button>
+          )}
+        </div>
+      </div>
+      {(error || summary?.error) && (
+        <div className="bg-red-900/50 border border-red-500 text-red-200 p-3 rounded mb-2 text-sm whitespace-pre-wrap">{error || summary?.error}</div>
+      )}
+      <div className="flex-1 overflow-auto border border-gray-700 rounded">
+        <table className="w-full text-left text-xs text-gray-300">
+          <thead className="bg-gray-700/50 uppercase sticky top-0">
+            <tr>
+              <th className="px-3 py-2">Name</th>
+              <th className="px-3 py-2 text-right">Size</th>
+              <th className="px-3 py-2">Modified</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {entries.map((entry, i) => (
+              <tr key={i} className="hover:bg-gray-800/50">
+                <td className={`px-3 py-1 font-mono break-all ${entry.isDirectory ? 'text-yellow-300' : ''}`}>
+                  {entry.path}
+                  {entry.link && <span className="text-gray-500"> &rarr; {entry.link}</span>}
+                </td>
+                <td className="px-3 py-1 font-mono text-right whitespace-nowrap">{entry.isDirectory ? '' : formatSize(entry.size)}</td>
+                <td className="px-3 py-1 text-gray-400 whitespace-nowrap">{entry.modified}</td>
+              </tr>
+            ))}
+            {!running && entries.length === 0 && !error && (
+              <tr><td colSpan={3} className="px-3 py-6 text-center text-gray-500">The archive is empty</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,12 @@
 import { useState, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { searchWeb } from '../app/web-actions';
+import * as webActions from '../app/web-actions';
+import * as llmActions from '../app/llm-actions';
+import { watchSession } from '../lib/session-expiry';
+
+const { searchWeb } = watchSession(webActions);
+const { uploadLLMFile } = watchSession(llmActions);
 
 interface ChatInterfaceProps {
     onQuery: (msg: string, systemInstruction?: string) => Promise<any>;
@@ -42,17 +47,11 @@ export default function ChatInterface({ onQuery, onReset }: ChatInterfaceProps)
         if (!file) return;
 
         setUploading(true);
-        const formData = new FormData();
-        formData.append('file', file);
 
         try {
-            const res = await fetch('http://127.0.0.1:5000/upload', {
-                method: 'POST',
-                body: formData,
-            });
-            const data = await res.json();
+            const data = await uploadLLMFile(file);
 
-            if (res.ok) {
+            if (data.success) {
                 setMessages(prev => [...prev, { role: 'system' as any, content: `File uploaded: ${file.name} (${data.message})` }]);
             } else {
                 setMessages(prev => [...prev, { role: 'system' as any, content: `Upload failed: ${data.error}` }]);
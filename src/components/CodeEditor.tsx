@@ -0,0 +1,73 @@
+'use client';
+
+import { useRef, useEffect } from 'react';
+import { basicSetup } from 'codemirror';
+import { EditorState } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
+import { indentWithTab } from '@codemirror/commands';
+import type { EditorLanguage } from '../lib/file-types';
+import { editorTheme, languageExtension } from '../lib/editor';
+
+interface CodeEditorProps {
+  // Only read when the editor is created; remount it (e.g. with a key) to load other content
+  value: string;
+  language: EditorLanguage | null;
+  // 1-based line to select and scroll to
+  initialLine?: number;
+  onChange: (value: string) => void;
+  onSave: () => void;
+}
+
+/**
+ * CodeMirror with line numbers, search and replace (Ctrl/Cmd-F), and Ctrl/Cmd-S to save.
+ */
+export default function CodeEditor({ value, language, initialLine, onChange, onSave }: CodeEditorProps) {
+  const container = useRef<HTMLDivElement>(null);
+  const view = useRef<EditorView | null>(null);
+  // The editor is created once per language; this keeps its callbacks and starting text current
+  const latest = useRef({ value, initialLine, onChange, onSave });
+
+  useEffect(() => {
+    latest.current = { value, initialLine, onChange, onSave };
+  });
+
+  useEffect(() => {
+    if (!container.current) return;
+    const { value, initialLine } = latest.current;
+    const editor = new EditorView({
+      parent: container.current,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          keymap.of([
+            { key: 'Mod-s', preventDefault: true, run: () => { latest.current.onSave(); return true; } },
+            indentWithTab,
+          ]),
+          basicSetup,
+          languageExtension(language),
+          editorTheme,
+          EditorView.updateListener.of(update => {
+            if (update.docChanged) latest.current.onChange(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+    view.current = editor;
+
+    if (initialLine) {
+      const line = editor.state.doc.line(Math.min(Math.max(initialLine, 1), editor.state.doc.lines));
+      editor.dispatch({
+        selection: { anchor: line.from, head: line.to },
+        effects: EditorView.scrollIntoView(line.from, { y: 'center' }),
+      });
+    }
+    editor.focus();
+    return () => {
+      editor.destroy();
+      view.current = null;
+    };
+    // Edits flow out through onChange, so the editor is not rebuilt for each keystroke
+  }, [language]);
+
+  return <div ref={container} className="h-full overflow-hidden" />;
+}
@@ -7,26 +7,56 @@ import JobMonitor from './JobMonitor';
 import Terminal from './Terminal';
 import LLMManager from './LLMManager';
 import NotebookManager from './NotebookManager';
-import { listGems, listCachedModels, Gem } from '../app/llm-actions';
+import DiskUsageExplorer from './DiskUsageExplorer';
+import * as llmActions from '../app/llm-actions';
+import type { Gem } from '../app/llm-actions';
+import * as actions from '../app/actions';
+import type { SessionUser } from '../lib/session';
+import type { QuotaUsage, StorageQuota } from '../lib/storage';
+import type { JobTemplate } from '../lib/jobs';
+import { watchSession } from '../lib/session-expiry';
+
+const { listGems, listCachedModels } = watchSession(llmActions);
+const { getStorageQuotas } = watchSession(actions);
+
+// Share of the quota in use, by space or by file count, whichever is fuller
+const quotaFraction = (usage: QuotaUsage) => Math.max(
+    usage.limitBytes ? usage.usedBytes / usage.limitBytes : 0,
+    usage.fileLimit && usage.files !== null ? usage.files / usage.fileLimit : 0
+);
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(0)} MB`;
+    if (bytes < 1024 ** 4) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    return `${(bytes / 1024 ** 4).toFixed(2)} TB`;
+};
 
 interface DashboardProps {
-    credentials: {
-        host: string;
-        username: string;
-        password?: string;
-    };
+    user: SessionUser;
     onLogout: () => void;
+    onSwitchConnection: (profileId: string) => void;
+    onAddConnection: () => void;
+    onDisconnectProfile: (profileId: string) => void;
 }
 
-export default function Dashboard({ credentials, onLogout }: DashboardProps) {
+export default function Dashboard({ user, onLogout, onSwitchConnection, onAddConnection, onDisconnectProfile }: DashboardProps) {
     const [activeTab, setActiveTab] = useState('overview');
     const [llmSubTab, setLlmSubTab] = useState<'server' | 'gems' | 'manage'>('server');
 
     // Background Data State
     const [gems, setGems] = useState<Gem[]>([]);
     const [cachedModels, setCachedModels] = useState<{ id: string, name: string, size: string, path: string }[]>([]);
+    const [quotas, setQuotas] = useState<StorageQuota[] | null>(null);
+    const [showDiskUsage, setShowDiskUsage] = useState(false);
     const [loadingBackground, setLoadingBackground] = useState(false);
     const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
+    // A job handed to the composer from the monitor; the counter gives each one a fresh form
+    const [composerDraft, setComposerDraft] = useState<{ job: JobTemplate; key: number } | null>(null);
+
+    const openInComposer = (job: JobTemplate) => {
+        setComposerDraft(prev => ({ job, key: (prev?.key ?? 0) + 1 }));
+        setActiveTab('jobs');
+    };
 
     useEffect(() => {
         // Preload data on mount
@@ -36,9 +66,10 @@ export default function Dashboard({ credentials, onLogout }: DashboardProps) {
     const refreshData = async () => {
         setLoadingBackground(true);
         try {
-            const [gemsRes, modelsRes] = await Promise.all([
-                listGems(credentials),
-                listCachedModels(credentials)
+            const [gemsRes, modelsRes, quotasRes] = await Promise.all([
+                listGems(),
+                listCachedModels(),
+                getStorageQuotas()
             ]);
 
             if (gemsRes.success && gemsRes.gems) {
@@ -47,6 +78,9 @@ export default function Dashboard({ credentials, onLogout }: DashboardProps) {
             if (modelsRes.success && modelsRes.models) {
                 setCachedModels(modelsRes.models);
             }
+            if (quotasRes.success && quotasRes.quotas) {
+                setQuotas(quotasRes.quotas);
+            }
         } catch (e) {
             console.error("Background fetch failed", e);
         }
@@ -56,19 +90,18 @@ export default function Dashboard({ credentials, onLogout }: DashboardProps) {
     const renderContent = () => {
         switch (activeTab) {
             case 'files':
-                return <FileManager credentials={credentials} />;
+                return <FileManager connection={`${user.profile.id}:${user.username}`} />;
             case 'jobs':
-                return <JobComposer credentials={credentials} />;
+                return <JobComposer key={composerDraft?.key} profile={user.profile} draft={composerDraft?.job} />;
             case 'monitor':
-                return <JobMonitor credentials={credentials} />;
+                return <JobMonitor onCompose={openInComposer} />;
             case 'terminal':
-                return <Terminal credentials={credentials} />;
+                return <Terminal user={user} />;
             case 'notebook':
-                return <NotebookManager credentials={credentials} />;
+                return <NotebookManager />;
             case 'llm':
                 return (
                     <LLMManager
-                        credentials={credentials}
                         currentView={llmSubTab}
                         onViewChange={setLlmSubTab}
                         initialGems={gems}
@@ -85,10 +118,55 @@ export default function Dashboard({ credentials, onLogout }: DashboardProps) {
                                 <div className="text-2xl font-bold text-green-600">Operational</div>
                                 <p className="text-xs text-gray-500 mt-1">Kamiak is running normally</p>
                             </div>
-                            <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-lg">
-                                <h4 className="text-gray-600 text-sm font-medium mb-2">Storage Quota</h4>
-                                <div className="text-2xl font-bold text-crimson">--</div>
-                                <p className="text-xs text-gray-500 mt-1">Check via console</p>
+                            <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-lg md:col-span-2">
+                                <div className="flex justify-between items-center mb-2">
+                                    <h4 className="text-gray-600 text-sm font-medium">Storage Quota</h4>
+                                    <button onClick={() => setShowDiskUsage(true)} className="text-xs text-crimson hover:underline">
+                                        Explore disk usage
+                                    </button>
+                                </div>
+                                {!quotas && <div className="text-2xl font-bold text-crimson">--</div>}
+                                <div className="space-y-3">
+                                    {quotas?.map(quota => (
+                                        <div key={quota.label} className="text-sm">
+                                            {quota.usage.length === 0 && (
+                                                <div className="flex justify-between text-gray-500">
+                                                    <span className="font-medium text-gray-700">{quota.label}</span>
+                                                    <span className="text-xs truncate ml-4" title={quota.error}>{quota.error ? 'Quota unavailable' : 'No quota'}</span>
+                                                </div>
+                                            )}
+                                            {quota.usage.map((usage, i) => {
+                                                const fraction = quotaFraction(usage);
+                                                const level = fraction >= 1 ? 'over' : fraction >= 0.9 ? 'high' : 'ok';
+                                                return (
+                                                    <div key={i} className="mb-1">
+                                                        <div className="flex justify-between">
+                                                            <span className="font-medium text-gray-700">
+                                                                {quota.label}{usage.owner && quota.usage.length > 1 ? ` (${usage.owner})` : ''}
+                                                            </span>
+                                                            <span className={level === 'ok' ? 'text-gray-600' : 'text-red-600 font-bold'}>
+                                                                {formatBytes(usage.usedBytes)} / {usage.limitBytes ? formatBytes(usage.limitBytes) : 'no limit'}
+                                                                {level === 'over' && ' · over quota'}
+                                                                {level === 'high' && ' · nearly full'}
+                                                            </span>
+                                                        </div>
+                                                        {(usage.limitBytes || usage.fileLimit) && (
+                                                            <div className="h-2 mt-1 bg-gray-200 rounded overflow-hidden">
+                                                                <div
+                                                                    className={`h-full ${level === 'over' ? 'bg-red-600' : level === 'high' ? 'bg-yellow-500' : 'bg-green-600'}`}
+                                                                    style={{ width: `${Math.min(100, fraction * 100)}%` }}
+                                                                />
+                                                            </div>
+                                                        )}
+                                                        {usage.fileLimit && usage.files !== null && (
+                                                            <p className="text-xs text-gray-500 mt-1">{usage.files.toLocaleString()} of {usage.fileLimit.toLocaleString()} files</p>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    ))}
+                                </div>
                             </div>
                         </div>
                         <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-lg">
@@ -113,8 +191,8 @@ export default function Dashboard({ credentials, onLogout }: DashboardProps) {
                     {!isSidebarCollapsed && (
                         <div className="overflow-hidden mr-2">
                             <h2 className="text-2xl font-bold text-crimson">Kamiak</h2>
-                            <p className="text-xs text-gray-600 mt-2 truncate" title={credentials.username + '@' + credentials.host}>
-                                {credentials.username}@{credentials.host}
+                            <p className="text-xs text-gray-600 mt-2 truncate" title={user.username + '@' + user.host}>
+                                {user.username}@{user.host}
                             </p>
                         </div>
                     )}
@@ -132,6 +210,33 @@ export default function Dashboard({ credentials, onLogout }: DashboardProps) {
                     </button>
                 </div>
 
+                {!isSidebarCollapsed && (
+                    <div className="px-4 py-3 border-b border-gray-200">
+                        <label className="block text-xs text-gray-500 mb-1" htmlFor="active-profile">Profile</label>
+                        <select
+                            id="active-profile"
+                            value={user.profile.id}
+                            onChange={(e) => e.target.value === '__add__' ? onAddConnection() : onSwitchConnection(e.target.value)}
+                            className="w-full bg-white border border-gray-300 rounded px-2 py-1 text-sm text-gray-900 focus:outline-none focus:border-crimson"
+                        >
+                            {user.connections.map(connection => (
+                                <option key={connection.profile.id} value={connection.profile.id}>
+                                    {connection.profile.name} ({connection.username})
+                                </option>
+                            ))}
+                            <option value="__add__">+ Connect another profile...</option>
+                        </select>
+                        {user.connections.length > 1 && (
+                            <button
+                                onClick={() => onDisconnectProfile(user.profile.id)}
+                                className="mt-1 text-xs text-gray-500 hover:text-red-600"
+                            >
+                                Disconnect {user.profile.name}
+                            </button>
+                        )}
+                    </div>
+                )}
+
                 <nav className="flex-1 p-2 space-y-2 overflow-y-auto">
                     {['Overview', 'Files', 'Jobs', 'Monitor', 'Terminal'].map((tab) => (
                         <button
@@ -197,7 +302,7 @@ export default function Dashboard({ credentials, onLogout }: DashboardProps) {
                     >
                         {isSidebarCollapsed ? (
                             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path><polyline points="16 17 21 12 16 7"></polyline><line x1="21" y1="12" x2="9" y2="12"></line></svg>
-                        ) : "Disconnect"}
+                        ) : user.connections.length > 1 ? "Disconnect All" : "Disconnect"}
                     </button>
                 </div>
             </div>
@@ -214,6 +319,16 @@ export default function Dashboard({ credentials, onLogout }: DashboardProps) {
 
                 {renderContent()}
             </div>
+
+            {showDiskUsage && (
+                <DiskUsageExplorer
+                    roots={[
+                        ...(user.profile.storage ?? []).map(area => ({ label: area.label, path: area.path })),
+                        { label: 'Model cache', path: user.profile.cacheDir },
+                    ]}
+                    onClose={() => setShowDiskUsage(false)}
+                />
+            )}
         </div>
     );
 }
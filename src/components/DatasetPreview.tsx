@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import * as actions from '../app/actions';
+import type { DatasetInfo } from '../lib/datasets';
+import { watchSession } from '../lib/session-expiry';
+
+const { getDatasetInfo } = watchSession(actions);
+
+interface DatasetPreviewProps {
+  path: string;
+}
+
+const FORMAT_NAMES: Record<DatasetInfo['format'], string> = {
+  parquet: 'Parquet',
+  hdf5: 'HDF5',
+  netcdf: 'NetCDF',
+};
+
+export default function DatasetPreview({ path }: DatasetPreviewProps) {
+  const [info, setInfo] = useState<DatasetInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadInfo = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getDatasetInfo(path);
+      if (result.success && result.info) {
+        setInfo(result.info);
+      } else {
+        setError(result.error || 'Failed to read the file');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [path]);
+
+  useEffect(() => {
+    loadInfo();
+  }, [loadInfo]);
+
+  if (loading) {
+    return <div className="text-center py-12 text-gray-500 animate-pulse">Reading the file header on the cluster...</div>;
+  }
+  if (error || !info) {
+    return <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded whitespace-pre-wrap">{error}</div>;
+  }
+
+  if (info.raw !== undefined) {
+    return (
+      <div className="h-full overflow-auto">
+        <p className="mb-2 text-xs text-gray-500">{FORMAT_NAMES[info.format]} header (the Python libraries for this format are not installed)</p>
+        <pre className="text-xs text-gray-300 font-mono whitespace-pre">{info.raw}</pre>
+      </div>
+    );
+  }
+
+  const attributes = Object.entries(info.attributes);
+  return (
+    <div className="h-full overflow-auto space-y-4 text-sm text-gray-300">
+      {attributes.length > 0 && (
+        <div>
+          <h5 className="text-xs uppercase text-gray-500 mb-2">{FORMAT_NAMES[info.format]} metadata</h5>
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+            {attributes.map(([key, value]) => (
+              <div key={key} className="contents">
+                <dt className="text-gray-400">{key}</dt>
+                <dd className="font-mono break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+      <div>
+        <h5 className="text-xs uppercase text-gray-500 mb-2">
+          {info.format === 'parquet' ? 'Columns' : 'Variables'}
+          {info.truncated && ` (first ${info.variables.length})`}
+        </h5>
+        <table className="w-full text-left text-xs">
+          <thead className="bg-gray-700/50 uppercase">
+            <tr>
+              <th className="px-3 py-2 rounded-tl-lg">Name</th>
+              <th className="px-3 py-2">Type</th>
+              <th className="px-3 py-2">Shape</th>
+              <th className="px-3 py-2 rounded-tr-lg">Attributes</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {info.variables.map(variable => (
+              <tr key={variable.name}>
+                <td className="px-3 py-2 font-mono text-white">{variable.name}</td>
+                <td className="px-3 py-2 font-mono">{variable.type}</td>
+                <td className="px-3 py-2 font-mono text-gray-400">{variable.shape}</td>
+                <td className="px-3 py-2 text-gray-400">
+                  {Object.entries(variable.attributes ?? {}).map(([key, value]) => (
+                    <div key={key}><span className="text-gray-500">{key}:</span> {value}</div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
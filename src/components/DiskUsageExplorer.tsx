@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import * as actions from '../app/actions';
+import type { DiskUsage, DiskUsageEntry } from '../lib/storage';
+import type { OperationInfo } from '../lib/operations';
+import { squarify } from '../lib/treemap';
+import { watchSession } from '../lib/session-expiry';
+
+const { getDiskUsageReport, scanDiskUsage, getFileOperations, cancelFileOperation } = watchSession(actions);
+
+interface DiskUsageExplorerProps {
+  roots: { label: string; path: string }[];
+  onClose: () => void;
+}
+
+// Layout units; the treemap box has the same 2:1 aspect ratio
+const MAP_WIDTH = 1000;
+const MAP_HEIGHT = 500;
+
+const TILE_COLORS = ['bg-blue-700', 'bg-teal-700', 'bg-indigo-700', 'bg-emerald-700', 'bg-sky-700', 'bg-violet-700', 'bg-cyan-700'];
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes < 1024 ** 4) return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+  return `${(bytes / 1024 ** 4).toFixed(2)} TB`;
+};
+
+/**
+ * Where the space in a folder goes, as a treemap to click through. Sizes come from a `du`
+ * scan that runs in the background on the cluster and is kept there until rescanned.
+ */
+export default function DiskUsageExplorer({ roots, onClose }: DiskUsageExplorerProps) {
+  const [rootPath, setRootPath] = useState(roots[0]?.path ?? '~');
+  const [usage, setUsage] = useState<DiskUsage | null>(null);
+  const [scanned, setScanned] = useState(true);
+  const [scan, setScan] = useState<OperationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadUsage = useCallback(async (path: string, dir?: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await getDiskUsageReport(path, dir);
+      if (result.success) {
+        setUsage(result.usage ?? null);
+        setScanned(!!result.usage);
+      } else {
+        setError(result.error || 'Failed to read disk usage');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage(rootPath);
+  }, [rootPath, loadUsage]);
+
+  // Follow the scan until it finishes, then show its results
+  useEffect(() => {
+    if (!scan || scan.status !== 'running') return;
+    const timer = setInterval(async () => {
+      const result = await getFileOperations(true);
+      const current = result.operations.find(op => op.id === scan.id);
+      if (!current || current.status === 'running') return;
+      setScan(current);
+      if (current.status === 'done') loadUsage(rootPath);
+      else if (current.status === 'failed') setError(current.error || 'The scan failed');
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [scan, rootPath, loadUsage]);
+
+  const handleScan = async () => {
+    setError('');
+    const result = await scanDiskUsage(rootPath);
+    if (result.success && result.operation) {
+      setScan(result.operation);
+    } else {
+      setError(result.error || 'Failed to start the scan');
+    }
+  };
+
+  const handleCancelScan = async () => {
+    if (!scan) return;
+    await cancelFileOperation(scan.id);
+    setScan({ ...scan, status: 'cancelled' });
+  };
+
+  const handleOpen = (entry: DiskUsageEntry) => {
+    if (entry.isDirectory && usage) loadUsage(rootPath, entry.path);
+  };
+
+  const scanning = scan?.status === 'running';
+  const tiles = usage ? squarify(usage.entries, entry => entry.size, MAP_WIDTH, MAP_HEIGHT) : [];
+  // Breadcrumbs from the scanned folder down to the one shown
+  const crumbs = usage
+    ? [usage.root, ...usage.dir.slice(usage.root.length).split('/').filter(Boolean)]
+        .map((name, i, parts) => ({ name, path: i === 0 ? usage.root : `${usage.root}/${parts.slice(1, i + 1).join('/')}` }))
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-6">
+      <div className="bg-gray-800 w-full max-w-6xl max-h-[90vh] rounded-lg shadow-2xl flex flex-col border border-gray-700 text-gray-300">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900/50 rounded-t-lg">
+          <h3 className="text-lg font-bold text-white px-2">Disk Usage</h3>
+          <div className="flex items-center space-x-2">
+            <select
+              value={rootPath}
+              onChange={(e) => {
+                setUsage(null);
+                setRootPath(e.target.value);
+              }}
+              className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+            >
+              {roots.map(root => <option key={root.path} value={root.path}>{root.label} ({root.path})</option>)}
+            </select>
+            {scanning ? (
+              <button onClick={handleCancelScan} className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded transition">
+                Stop Scan
+              </button>
+            ) : (
+              <button onClick={handleScan} className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded transition">
+                {scanned ? 'Rescan' : 'Scan'}
+              </button>
+            )}
+            <button onClick={onClose} className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded transition">
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {error && <div className="bg-red-900/50 border border-red-500 text-red-200 p-3 rounded text-sm whitespace-pre-wrap">{error}</div>}
+          {scanning && <div className="text-sm text-blue-300 animate-pulse">Scanning {rootPath} on the cluster. Large folders can take several minutes; you can close this and come back.</div>}
+
+          {!scanned && !scanning && !loading && (
+            <div className="text-center py-12 text-gray-500">
+              {rootPath} has not been scanned yet. Scanning runs <code>du</code> on the cluster in the background.
+            </div>
+          )}
+
+          {usage && (
+            <>
+              <div className="flex flex-wrap justify-between items-center gap-2 text-sm">
+                <div className="flex flex-wrap items-center font-mono text-xs">
+                  {crumbs.map((crumb, i) => (
+                    <span key={crumb.path}>
+                      {i > 0 && <span className="text-gray-600 mx-1">/</span>}
+                      <button onClick={() => loadUsage(rootPath, crumb.path)} className="text-blue-400 hover:text-blue-300">{crumb.name}</button>
+                    </span>
+                  ))}
+                </div>
+                <span className="text-xs text-gray-500">
+                  {formatSize(usage.size)} · scanned {new Date(usage.scannedAt).toLocaleString()}
+                </span>
+              </div>
+
+              <div className={`relative w-full aspect-[2/1] bg-gray-900 rounded overflow-hidden ${loading ? 'opacity-50' : ''}`}>
+                {tiles.map(({ item, x, y, width, height }, i) => (
+                  <button
+                    key={`${item.path}:${item.isDirectory}`}
+                    onClick={() => handleOpen(item)}
+                    title={`${item.name}\n${formatSize(item.size)}`}
+                    className={`absolute border border-gray-900 text-left p-1 overflow-hidden text-xs text-white ${item.isDirectory ? `${TILE_COLORS[i % TILE_COLORS.length]} hover:brightness-125 cursor-pointer` : 'bg-gray-600 cursor-default'}`}
+                    style={{
+                      left: `${(x / MAP_WIDTH) * 100}%`,
+                      top: `${(y / MAP_HEIGHT) * 100}%`,
+                      width: `${(width / MAP_WIDTH) * 100}%`,
+                      height: `${(height / MAP_HEIGHT) * 100}%`,
+                    }}
+                  >
+                    {width > 60 && height > 30 && (
+                      <>
+                        <div className="truncate font-medium">{item.name}</div>
+                        <div className="truncate opacity-75">{formatSize(item.size)}</div>
+                      </>
+                    )}
+                  </button>
+                ))}
+                {tiles.length === 0 && !loading && <div className="absolute inset-0 flex items-center justify-center text-gray-500">Empty folder</div>}
+              </div>
+
+              <table className="w-full text-left text-xs">
+                <tbody className="divide-y divide-gray-700">
+                  {usage.entries.map(entry => (
+                    <tr
+                      key={`${entry.path}:${entry.isDirectory}`}
+                      onClick={() => handleOpen(entry)}
+                      className={entry.isDirectory ? 'hover:bg-gray-700/50 cursor-pointer' : 'text-gray-500'}
+                    >
+                      <td className="px-3 py-1 font-mono">{entry.name}{entry.isDirectory ? '/' : ''}</td>
+                      <td className="px-3 py-1 font-mono text-right">{formatSize(entry.size)}</td>
+                      <td className="px-3 py-1 w-1/3">
+                        <div className="h-1.5 bg-gray-900 rounded overflow-hidden">
+                          <div className="h-full bg-blue-500" style={{ width: `${usage.size ? (entry.size / usage.size) * 100 : 0}%` }} />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
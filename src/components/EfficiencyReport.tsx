@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as actions from '../app/actions';
+import type { EfficiencySummary, JobEfficiency, ResourceSuggestion } from '../lib/efficiency';
+import type { JobTemplate } from '../lib/jobs';
+import { formatDuration, formatMemory, formatTimeLimit } from '../lib/slurm';
+import { watchSession } from '../lib/session-expiry';
+
+const { getEfficiencyReport, getJobTemplate } = watchSession(actions);
+
+interface EfficiencyReportProps {
+  onInspect: (jobId: string) => void;
+  onCompose: (job: JobTemplate) => void;
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+// Red when most of the allocation sat idle
+const barColor = (value: number) => (value < 0.3 ? 'bg-red-500' : value < 0.7 ? 'bg-yellow-500' : 'bg-green-500');
+
+const UsageBar = ({ value, label }: { value: number | null; label: string }) => (
+  <div className="min-w-28">
+    <div className="flex justify-between text-xs">
+      <span className="font-mono">{label}</span>
+      <span className="text-gray-500">{percent(value)}</span>
+    </div>
+    <div className="h-1.5 bg-gray-900 rounded overflow-hidden mt-1">
+      {value !== null && <div className={`h-full ${barColor(value)}`} style={{ width: `${value * 100}%` }} />}
+    </div>
+  </div>
+);
+
+const Stat = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="bg-gray-900/50 border border-gray-700 rounded p-3">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-lg font-bold text-white">{value}</div>
+    {detail && <div className="text-xs text-gray-500">{detail}</div>}
+  </div>
+);
+
+/**
+ * What the user's recent jobs asked for against what they used, as `seff` reports it, with
+ * suggested requests for the next run of each job.
+ */
+export default function EfficiencyReport({ onInspect, onCompose }: EfficiencyReportProps) {
+  const [limit, setLimit] = useState(25);
+  const [jobs, setJobs] = useState<JobEfficiency[]>([]);
+  const [summary, setSummary] = useState<EfficiencySummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [composing, setComposing] = useState<string | null>(null);
+
+  const loadReport = async (count: number) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await getEfficiencyReport(count);
+      if (result.success) {
+        setJobs(result.jobs);
+        setSummary(result.summary ?? null);
+      } else {
+        setError(result.error || 'Failed to load job efficiency');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport(limit);
+  }, [limit]);
+
+  // Opens the latest run in the job composer with the suggested request
+  const handleApply = async (suggestion: ResourceSuggestion) => {
+    setComposing(suggestion.jobId);
+    setError('');
+    try {
+      const result = await getJobTemplate(suggestion.jobId);
+      if (result.success && result.job) {
+        // Memory and time stay as they were when the job's request was unknown
+        const { cpus, memory, time } = suggestion.suggested;
+        onCompose({ ...result.job, cpus, memory: memory || result.job.memory, time: time || result.job.time });
+      } else {
+        setError(result.error || 'Could not load the job to resubmit');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setComposing(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-2 text-sm">
+        <label className="text-gray-400">
+          Last{' '}
+          <select
+            value={limit}
+            onChange={(e) => setLimit(Number(e.target.value))}
+            className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+          >
+            {[10, 25, 50, 100, 250].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>{' '}
+          finished jobs (up to 90 days)
+        </label>
+        <button onClick={() => loadReport(limit)} disabled={loading} className="px-3 py-1 bg-gray-700 rounded text-gray-300 hover:bg-gray-600 disabled:opacity-50">
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded">{error}</div>}
+      {loading && <div className="text-center py-4 text-gray-500 animate-pulse">Reading accounting data...</div>}
+
+      {summary && summary.jobs > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          <Stat label="Jobs" value={String(summary.jobs)} />
+          <Stat label="Core hours" value={summary.coreHours.toFixed(1)} detail={`${summary.idleCoreHours.toFixed(1)} idle`} />
+          <Stat label="CPU efficiency" value={percent(summary.cpuEfficiency)} />
+          <Stat label="Memory efficiency" value={percent(summary.memoryEfficiency)} />
+          <Stat label="Time limit used" value={percent(summary.timeEfficiency)} />
+          <Stat label="GPU hours" value={summary.gpuHours.toFixed(1)} />
+        </div>
+      )}
+
+      {summary && summary.suggestions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-bold text-white">Right-sizing suggestions</h4>
+          {summary.suggestions.map(suggestion => (
+            <div key={suggestion.name} className="bg-gray-900/50 border border-gray-700 rounded p-3 flex flex-wrap justify-between items-center gap-3">
+              <div className="text-sm space-y-1">
+                <div>
+                  <span className="font-medium text-white">{suggestion.name}</span>
+                  <span className="text-xs text-gray-500 ml-2">{suggestion.jobs} run{suggestion.jobs === 1 ? '' : 's'}</span>
+                </div>
+                <ul className="text-xs text-gray-400 list-disc list-inside">
+                  {suggestion.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                </ul>
+                <div className="text-xs font-mono text-gray-300">
+                  {(['cpus', 'memory', 'time'] as const)
+                    .filter(key => suggestion.suggested[key] !== suggestion.current[key])
+                    .map(key => `${key === 'cpus' ? 'CPUs' : key} ${suggestion.current[key]} → ${suggestion.suggested[key]}`)
+                    .join(' · ')}
+                </div>
+              </div>
+              <button
+                onClick={() => handleApply(suggestion)}
+                disabled={composing !== null}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-sm text-white disabled:opacity-50"
+              >
+                {composing === suggestion.jobId ? 'Loading...' : 'Open in Job Composer'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm text-gray-300">
+          <thead className="bg-gray-700/50 uppercase text-xs">
+            <tr>
+              <th className="px-4 py-3 rounded-tl-lg">Job ID</th>
+              <th className="px-4 py-3">Name</th>
+              <th className="px-4 py-3">State</th>
+              <th className="px-4 py-3">CPU</th>
+              <th className="px-4 py-3">Memory</th>
+              <th className="px-4 py-3">Time</th>
+              <th className="px-4 py-3 rounded-tr-lg">GPU hours</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {jobs.length > 0 ? jobs.map(job => (
+              <tr key={job.jobId} className="hover:bg-gray-800/50">
+                <td className="px-4 py-3 font-mono">
+                  <button onClick={() => onInspect(job.jobId)} className="text-blue-400 hover:text-blue-300">{job.jobId}</button>
+                </td>
+                <td className="px-4 py-3">{job.name}</td>
+                <td className="px-4 py-3 text-xs">{job.state}</td>
+                <td className="px-4 py-3">
+                  <UsageBar value={job.cpuEfficiency} label={`${job.elapsed > 0 ? (job.cpuTime / job.elapsed).toFixed(1) : 0} / ${job.cpus} cores`} />
+                </td>
+                <td className="px-4 py-3">
+                  <UsageBar
+                    value={job.memoryEfficiency}
+                    label={`${job.memoryPeak === null ? '?' : formatMemory(job.memoryPeak)} / ${job.memoryAllocated === null ? '?' : formatMemory(job.memoryAllocated)}`}
+                  />
+                </td>
+                <td className="px-4 py-3">
+                  <UsageBar value={job.timeEfficiency} label={`${formatDuration(job.elapsed)} / ${formatTimeLimit(job.timeLimit)}`} />
+                </td>
+                <td className="px-4 py-3 font-mono text-xs">
+                  {job.gpus > 0 ? `${job.gpuHours.toFixed(1)}${job.gpuUtilization === null ? '' : ` (${Math.round(job.gpuUtilization)}% busy)`}` : '—'}
+                </td>
+              </tr>
+            )) : (
+              <tr><td colSpan={7} className="px-4 py-8 text-center text-gray-500">{loading ? '' : 'No finished jobs found'}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,59 @@
 'use client';
 
 import { useState } from 'react';
-import { saveFileContent } from '../app/actions';
+import * as actions from '../app/actions';
+import type { FileVersion } from '../lib/sftp';
+import { editorLanguage } from '../lib/file-types';
+import CodeEditor from './CodeEditor';
+import MergeEditor from './MergeEditor';
+import { watchSession } from '../lib/session-expiry';
+
+const { saveFileContent } = watchSession(actions);
 
 interface FileEditorProps {
-  credentials: {
-      host: string;
-      username: string;
-      password?: string;
-  };
   filePath: string;
   initialContent: string;
+  // Version the content was read at, to detect changes made on the cluster before saving
+  initialVersion?: FileVersion;
+  // 1-based line to select and scroll to, e.g. a search match
+  initialLine?: number;
   onClose: () => void;
 }
 
-export default function FileEditor({ credentials, filePath, initialContent, onClose }: FileEditorProps) {
+interface Conflict {
+  content: string;
+  version: FileVersion | null; // null when the file was deleted
+}
+
+const LANGUAGE_NAMES = { shell: 'Bash', python: 'Python', r: 'R', yaml: 'YAML', json: 'JSON' };
+
+export default function FileEditor({ filePath, initialContent, initialVersion, initialLine, onClose }: FileEditorProps) {
   const [content, setContent] = useState(initialContent);
+  const [savedContent, setSavedContent] = useState(initialContent);
+  const [version, setVersion] = useState(initialVersion);
+  const [language] = useState(() => editorLanguage(filePath, initialContent));
+  const [jumpLine, setJumpLine] = useState(initialLine);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
+  const [conflict, setConflict] = useState<Conflict | null>(null);
+  const [merged, setMerged] = useState('');
 
-  const handleSave = async () => {
+  const dirty = content !== savedContent;
+
+  const save = async (text: string, expected: FileVersion | undefined) => {
     setSaving(true);
     setError('');
     try {
-      const result = await saveFileContent(credentials, filePath, content);
+      const result = await saveFileContent(filePath, text, expected);
       if (result.success) {
-        onClose(); // Close on success
+        setContent(text);
+        setSavedContent(text);
+        setVersion(result.version);
+        setConflict(null);
+      } else if (result.conflict) {
+        setJumpLine(undefined);
+        setConflict(result.conflict);
+        setMerged(text);
       } else {
         setError(result.error || 'Failed to save file');
       }
@@ -36,40 +64,86 @@ export default function FileEditor({ credentials, filePath, initialContent, onCl
     }
   };
 
+  const handleSave = () => {
+    if (!saving) save(content, version);
+  };
+
+  const handleReload = () => {
+    if (!conflict) return;
+    setContent(conflict.content);
+    setSavedContent(conflict.content);
+    setVersion(conflict.version ?? undefined);
+    setConflict(null);
+  };
+
+  const handleClose = () => {
+    if (dirty && !window.confirm('Discard unsaved changes?')) return;
+    onClose();
+  };
+
   return (
     <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-6">
-      <div className="bg-gray-800 w-full max-w-4xl h-[80vh] rounded-lg shadow-2xl flex flex-col border border-gray-700">
-        
+      <div className="bg-gray-800 w-full max-w-6xl h-[85vh] rounded-lg shadow-2xl flex flex-col border border-gray-700">
+
         {/* Header */}
         <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900/50 rounded-t-lg">
           <h3 className="text-lg font-bold text-white truncate px-2" title={filePath}>
             Editing: <span className="text-blue-400 font-mono text-sm">{filePath}</span>
+            {dirty && <span className="text-gray-500 text-sm font-normal"> (modified)</span>}
           </h3>
-          <div className="flex space-x-2">
-            <button 
-              onClick={onClose}
+          <div className="flex items-center space-x-2 shrink-0">
+            {language && <span className="text-xs text-gray-500 px-2">{LANGUAGE_NAMES[language]}</span>}
+            <button
+              onClick={handleClose}
               className="px-4 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-700 rounded transition"
             >
-              Cancel
-            </button>
-            <button 
-              onClick={handleSave}
-              disabled={saving}
-              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded font-medium transition disabled:opacity-50"
-            >
-              {saving ? 'Saving...' : 'Save Changes'}
+              Close
             </button>
+            {!conflict && (
+              <button
+                onClick={handleSave}
+                disabled={saving || !dirty}
+                title="Ctrl+S"
+                className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded font-medium transition disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : dirty ? 'Save Changes' : 'Saved'}
+              </button>
+            )}
           </div>
         </div>
 
+        {conflict && (
+          <div className="flex flex-wrap justify-between items-center gap-2 px-4 py-3 bg-yellow-900/30 border-b border-yellow-700 text-sm text-yellow-200">
+            <span>
+              {conflict.version
+                ? 'This file was changed on the cluster after you opened it. Left: the cluster\'s version, right: yours.'
+                : 'This file was deleted on the cluster after you opened it.'}
+            </span>
+            <div className="flex space-x-2">
+              <button onClick={handleReload} disabled={saving} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-200 disabled:opacity-50">
+                Reload (Discard Mine)
+              </button>
+              <button onClick={() => save(content, undefined)} disabled={saving} className="px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-white disabled:opacity-50">
+                Overwrite with Mine
+              </button>
+              <button
+                onClick={() => save(merged, conflict.version ?? undefined)}
+                disabled={saving}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-white disabled:opacity-50"
+              >
+                Save Merged
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Editor Area */}
-        <div className="flex-1 relative">
-           <textarea
-             value={content}
-             onChange={(e) => setContent(e.target.value)}
-             className="w-full h-full bg-gray-900 text-gray-300 font-mono text-sm p-4 resize-none focus:outline-none"
-             spellCheck={false}
-           />
+        <div className="flex-1 min-h-0 relative">
+          {conflict ? (
+            <MergeEditor theirs={conflict.content} mine={content} language={language} onChange={setMerged} />
+          ) : (
+            <CodeEditor value={content} language={language} initialLine={jumpLine} onChange={setContent} onSave={handleSave} />
+          )}
         </div>
 
         {/* Footer / Error */}
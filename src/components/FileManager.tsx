@@ -1,16 +1,49 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { listFiles, readFileContent, deleteFile, FileEntry } from '../app/actions';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import * as actions from '../app/actions';
+import type { FileEntry } from '../app/actions';
+import type { Bookmark } from '../lib/bookmarks';
+import { addRecentLocation, loadRecentLocations } from '../lib/recent-locations';
+import type { OperationInfo } from '../lib/operations';
+import { PreviewKind, archiveFormat, previewKind } from '../lib/file-types';
+import type { FileVersion } from '../lib/sftp';
+import {
+  Transfer,
+  UploadItem,
+  UPLOAD_CHUNK_SIZE,
+  collectDroppedItems,
+  collectInputItems,
+  discardUpload,
+  downloadUrl,
+  fetchUploadOffset,
+  uploadChunk,
+} from '../lib/transfers';
 import FileEditor from './FileEditor';
+import TransferPanel from './TransferPanel';
+import OperationPanel from './OperationPanel';
+import TrashView from './TrashView';
+import PropertiesPanel from './PropertiesPanel';
+import SearchPanel from './SearchPanel';
+import FilePreview from './FilePreview';
+import { watchSession } from '../lib/session-expiry';
 
-interface FileManagerProps {
-  credentials: {
-      host: string;
-      username: string;
-      password?: string;
-  };
-}
+const {
+  listFiles,
+  readFileContent,
+  deleteFile,
+  createFolder,
+  createFile,
+  renameFile,
+  transferFiles,
+  createArchive,
+  extractArchive,
+  getFileOperations,
+  cancelFileOperation,
+  clearFileOperations,
+  getBookmarks,
+  saveBookmarks,
+} = watchSession(actions);
 
 // Icons
 const FolderIcon = () => (
@@ -32,7 +65,50 @@ const TrashIcon = () => (
   </svg>
 );
 
-export default function FileManager({ credentials }: FileManagerProps) {
+const DownloadIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 text-blue-400 hover:text-blue-300">
+    <path fillRule="evenodd" d="M12 2.25a.75.75 0 01.75.75v11.69l3.22-3.22a.75.75 0 111.06 1.06l-4.5 4.5a.75.75 0 01-1.06 0l-4.5-4.5a.75.75 0 111.06-1.06l3.22 3.22V3a.75.75 0 01.75-.75zm-9 13.5a.75.75 0 01.75.75v2.25a1.5 1.5 0 001.5 1.5h13.5a1.5 1.5 0 001.5-1.5V16.5a.75.75 0 011.5 0v2.25a3 3 0 01-3 3H5.25a3 3 0 01-3-3V16.5a.75.75 0 01.75-.75z" clipRule="evenodd" />
+  </svg>
+);
+
+const joinPath = (dir: string, name: string) => dir === '/' ? `/${name}` : `${dir}/${name}`;
+
+const toolbarButton = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-300 transition-colors disabled:opacity-40 disabled:hover:bg-gray-700';
+
+interface Clipboard {
+  mode: 'cut' | 'copy';
+  paths: string[];
+  sourceDir: string;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['K', 'M', 'G', 'T'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+const formatDate = (ms: number) => new Date(ms).toLocaleString(undefined, {
+  year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+});
+
+interface FileManagerProps {
+  // Identifies the cluster login, to keep recent locations apart
+  connection: string;
+}
+
+// Each folder from the root down to `path`, for breadcrumbs
+const pathCrumbs = (path: string) => {
+  const parts = path.split('/').filter(Boolean);
+  return [{ name: '/', path: '/' }, ...parts.map((name, i) => ({ name, path: `/${parts.slice(0, i + 1).join('/')}` }))];
+};
+
+export default function FileManager({ connection }: FileManagerProps) {
   const [currentPath, setCurrentPath] = useState('~');
   const [inputPath, setInputPath] = useState('~'); // For manual entry
   const [files, setFiles] = useState<FileEntry[]>([]);
@@ -40,22 +116,60 @@ export default function FileManager({ credentials }: FileManagerProps) {
   const [error, setError] = useState('');
   
   // Editor State
-  const [editingFile, setEditingFile] = useState<{path: string, content: string} | null>(null);
+  const [editingFile, setEditingFile] = useState<{path: string, content: string, version?: FileVersion, line?: number} | null>(null);
   const [loadingContent, setLoadingContent] = useState(false);
+  const [previewing, setPreviewing] = useState<{ path: string; kind: PreviewKind } | null>(null);
+
+  // Uploads
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const uploadFiles = useRef(new Map<string, File>());
+  const uploadControllers = useRef(new Map<string, AbortController>());
+  const uploadQueue = useRef<Promise<void>>(Promise.resolve());
+  const nextTransferId = useRef(0);
+  const currentPathRef = useRef(currentPath);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const folderInput = useRef<HTMLInputElement>(null);
+
+  // Selection, clipboard and background copy/move operations
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [clipboard, setClipboard] = useState<Clipboard | null>(null);
+  const [operations, setOperations] = useState<OperationInfo[]>([]);
+  const [showTrash, setShowTrash] = useState(false);
+  const [propertiesPath, setPropertiesPath] = useState<string | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const previousRunning = useRef(0);
 
-  const loadFiles = async (path: string) => {
+  // Navigation: bookmarks on the cluster, recent folders in this browser, back/forward history
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [recent, setRecent] = useState<string[]>(() => typeof window === 'undefined' ? [] : loadRecentLocations(connection));
+  const [history, setHistory] = useState<{ paths: string[]; index: number }>({ paths: [], index: -1 });
+
+  const recordVisit = useCallback((path: string, fromHistory: boolean) => {
+    setRecent(addRecentLocation(connection, path));
+    if (fromHistory) return;
+    setHistory(prev => prev.paths[prev.index] === path
+      ? prev
+      : { paths: [...prev.paths.slice(0, prev.index + 1), path], index: prev.index + 1 });
+  }, [connection]);
+
+  // Resolves to whether the folder could be opened
+  const loadFiles = useCallback(async (path: string, fromHistory = false) => {
     setLoading(true);
     setError('');
     setInputPath(path);
     
     try {
-      const result = await listFiles(credentials, path);
+      const result = await listFiles(path);
       if (result.success) {
         setFiles(result.files);
+        setSelected(new Set());
         if (result.currentPath) {
             setCurrentPath(result.currentPath);
             setInputPath(result.currentPath);
+            recordVisit(result.currentPath, fromHistory);
         }
+        return true;
       } else {
         setError(result.error || 'Failed to list files');
       }
@@ -64,33 +178,228 @@ export default function FileManager({ credentials }: FileManagerProps) {
     } finally {
       setLoading(false);
     }
+    return false;
+  }, [recordVisit]);
+
+  const goHistory = (step: number) => {
+    const index = history.index + step;
+    if (index < 0 || index >= history.paths.length) return;
+    setHistory({ ...history, index });
+    loadFiles(history.paths[index], true);
   };
 
-  useEffect(() => {
-    loadFiles(currentPath);
+  const updateBookmarks = async (next: Bookmark[]) => {
+    const previous = bookmarks;
+    setBookmarks(next);
+    const result = await saveBookmarks(next);
+    if (!result.success) {
+      setBookmarks(previous);
+      setError(result.error || 'Failed to save bookmarks');
+    }
+  };
+
+  const handleAddBookmark = () => {
+    const name = window.prompt(`Bookmark ${currentPath} as:`, currentPath.split('/').pop() || currentPath);
+    if (!name) return;
+    updateBookmarks([...bookmarks.filter(b => b.path !== currentPath), { name, path: currentPath }]);
+  };
+
+  const handleRemoveBookmark = (bookmark: Bookmark) => {
+    if (!window.confirm(`Remove the bookmark ${bookmark.name}?`)) return;
+    updateBookmarks(bookmarks.filter(b => b !== bookmark));
+  };
+
+  const refreshOperations = useCallback(async (poll = false) => {
+    const result = await getFileOperations(poll);
+    if (result.success) setOperations(result.operations);
   }, []);
 
+  useEffect(() => {
+    // Pick up where the last visit left off, if that folder is still there
+    const start = loadRecentLocations(connection)[0];
+    const home = currentPathRef.current;
+    loadFiles(start ?? home).then(opened => {
+      if (!opened && start) loadFiles(home);
+    });
+    getBookmarks().then(result => {
+      if (result.success) setBookmarks(result.bookmarks);
+    });
+    // Operations keep running on the server while this tab is closed
+    refreshOperations();
+    // Not a standard React prop, so set it directly
+    folderInput.current?.setAttribute('webkitdirectory', '');
+  }, [connection, loadFiles, refreshOperations]);
+
+  const runningOperations = operations.filter(op => op.status === 'running').length;
+
+  useEffect(() => {
+    if (runningOperations === 0) return;
+    const timer = setInterval(() => refreshOperations(true), 2000);
+    return () => clearInterval(timer);
+  }, [runningOperations, refreshOperations]);
+
+  // Show the results once an operation finishes
+  useEffect(() => {
+    if (runningOperations < previousRunning.current) loadFiles(currentPathRef.current);
+    previousRunning.current = runningOperations;
+  }, [runningOperations, loadFiles]);
+
+  useEffect(() => {
+    currentPathRef.current = currentPath;
+  }, [currentPath]);
+
+  const updateTransfer = (id: string, changes: Partial<Transfer>) => {
+    setTransfers(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t));
+  };
+
+  const runUpload = async (transfer: Transfer, resume: boolean) => {
+    const file = uploadFiles.current.get(transfer.id);
+    if (!file) return; // Cancelled while queued
+
+    const controller = new AbortController();
+    uploadControllers.current.set(transfer.id, controller);
+    updateTransfer(transfer.id, { status: 'uploading', error: undefined });
+    try {
+      let offset = resume ? await fetchUploadOffset(transfer.target) : 0;
+      if (offset > file.size) offset = 0;
+      for (;;) {
+        const start = offset;
+        const end = Math.min(start + UPLOAD_CHUNK_SIZE, file.size);
+        const result = await uploadChunk(
+          transfer.target,
+          file.slice(start, end),
+          start,
+          end === file.size,
+          loaded => updateTransfer(transfer.id, { loaded: start + loaded }),
+          controller.signal
+        );
+        offset = result.offset;
+        if (result.conflict) {
+          if (offset > file.size) throw new Error('The partial upload on the server is larger than this file');
+          continue;
+        }
+        updateTransfer(transfer.id, { loaded: offset });
+        if (end === file.size) break;
+      }
+      uploadFiles.current.delete(transfer.id);
+      updateTransfer(transfer.id, { status: 'done', loaded: file.size });
+    } catch (e) {
+      // Pause and cancel abort the request and set the status themselves
+      if (!controller.signal.aborted) {
+        updateTransfer(transfer.id, { status: 'error', error: (e as Error).message });
+      }
+    } finally {
+      uploadControllers.current.delete(transfer.id);
+    }
+  };
+
+  const startUploads = async (items: UploadItem[]) => {
+    if (items.length === 0) return;
+    const dir = currentPath;
+
+    const existing = new Set(files.map(f => f.name));
+    const clashes = [...new Set(items.map(item => item.relativePath.split('/')[0]))].filter(name => existing.has(name));
+    if (clashes.length > 0 && !window.confirm(`${clashes.join(', ')} already exist${clashes.length === 1 ? 's' : ''} here. Files with the same names will be overwritten. Continue?`)) {
+      return;
+    }
+
+    const created = items.map(item => ({
+      item,
+      transfer: {
+        id: String(nextTransferId.current++),
+        name: item.relativePath,
+        target: joinPath(dir, item.relativePath),
+        size: item.file.size,
+        loaded: 0,
+        status: 'queued' as const,
+      },
+    }));
+
+    // Large files may have a partial upload left over from an earlier, interrupted session
+    const interrupted = new Set<string>();
+    for (const { item, transfer } of created) {
+      if (item.file.size <= UPLOAD_CHUNK_SIZE) continue;
+      const offset = await fetchUploadOffset(transfer.target).catch(() => 0);
+      if (offset > 0 && offset <= item.file.size) interrupted.add(transfer.id);
+    }
+    const resume = interrupted.size > 0 &&
+      window.confirm(`${interrupted.size} of these uploads were interrupted earlier. Resume them where they stopped? (Cancel starts them over.)`);
+
+    created.forEach(({ item, transfer }) => uploadFiles.current.set(transfer.id, item.file));
+    setTransfers(prev => [...prev, ...created.map(c => c.transfer)]);
+
+    for (const { transfer } of created) {
+      uploadQueue.current = uploadQueue.current.then(() => runUpload(transfer, resume && interrupted.has(transfer.id)));
+    }
+    uploadQueue.current = uploadQueue.current.then(() => {
+      if (currentPathRef.current === dir) loadFiles(dir);
+    });
+  };
+
+  const handlePauseUpload = (id: string) => {
+    updateTransfer(id, { status: 'paused' });
+    uploadControllers.current.get(id)?.abort();
+  };
+
+  const handleResumeUpload = (id: string) => {
+    const transfer = transfers.find(t => t.id === id);
+    if (transfer) runUpload(transfer, true);
+  };
+
+  const handleCancelUpload = (id: string) => {
+    const transfer = transfers.find(t => t.id === id);
+    if (!transfer) return;
+    updateTransfer(id, { status: 'cancelled' });
+    uploadControllers.current.get(id)?.abort();
+    uploadFiles.current.delete(id);
+    discardUpload(transfer.target);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    collectDroppedItems(e.dataTransfer)
+      .then(startUploads)
+      .catch(() => setError('Could not read the dropped files'));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) startUploads(collectInputItems(e.target.files));
+    e.target.value = '';
+  };
+
+  // Files with a previewer open in it, unless asked for as text (e.g. to jump to a line)
+  const openFile = async (fullPath: string, line?: number, asText = false) => {
+    const kind = asText || line !== undefined ? null : previewKind(fullPath);
+    if (kind) {
+      setPreviewing({ path: fullPath, kind });
+      return;
+    }
+    setLoadingContent(true);
+    setError('');
+    try {
+      const result = await readFileContent(fullPath);
+      if (result.success) {
+        setEditingFile({ path: fullPath, content: result.content, version: result.version, line });
+      } else if (result.binary || result.tooLarge) {
+        setPreviewing({ path: fullPath, kind: result.binary ? 'binary' : 'log' });
+      } else {
+        setError(result.error || 'Failed to read file');
+      }
+    } catch {
+      setError('Failed to open file');
+    } finally {
+      setLoadingContent(false);
+    }
+  };
+
   const handleNavigate = async (entry: FileEntry) => {
-    const fullPath = currentPath === '/' ? `/${entry.name}` : `${currentPath}/${entry.name}`;
+    const fullPath = joinPath(currentPath, entry.name);
 
     if (entry.isDirectory) {
       loadFiles(fullPath);
     } else {
-      // Open File Editor
-      setLoadingContent(true);
-      setError('');
-      try {
-        const result = await readFileContent(credentials, fullPath);
-        if (result.success) {
-          setEditingFile({ path: fullPath, content: result.content });
-        } else {
-          setError(result.error || 'Failed to read file');
-        }
-      } catch (e) {
-        setError('Failed to open file');
-      } finally {
-        setLoadingContent(false);
-      }
+      openFile(fullPath);
     }
   };
 
@@ -103,36 +412,219 @@ export default function FileManager({ credentials }: FileManagerProps) {
       loadFiles(inputPath);
   };
 
-  const handleDelete = async (e: React.MouseEvent, file: FileEntry) => {
-    e.stopPropagation(); // Prevent navigation/opening
-    
-    if (!window.confirm(`Are you sure you want to delete ${file.name}? This cannot be undone.`)) {
+  const deleteEntries = async (entries: FileEntry[]) => {
+    const label = entries.length === 1 ? entries[0].name : `${entries.length} items`;
+    if (!window.confirm(`Move ${label} to the trash?`)) {
       return;
     }
 
     setLoading(true);
     try {
-      const fullPath = currentPath === '/' ? `/${file.name}` : `${currentPath}/${file.name}`;
-      const result = await deleteFile(credentials, fullPath);
-      
-      if (result.success) {
-        loadFiles(currentPath);
-      } else {
-        setError(result.error || 'Failed to delete file');
-        setLoading(false);
+      for (const entry of entries) {
+        const fullPath = joinPath(currentPath, entry.name);
+        let result = await deleteFile(fullPath);
+        // Items on another file system (e.g. scratch) would have to be copied into the trash
+        if (result.crossDevice && window.confirm(`${result.error}. Delete ${entry.name} permanently? This cannot be undone.`)) {
+          result = await deleteFile(fullPath, true);
+        }
+        if (!result.success) {
+          setError(result.error || `Failed to delete ${entry.name}`);
+          break;
+        }
       }
     } catch (err) {
       setError('An unexpected error occurred during deletion');
-      setLoading(false);
     }
+    loadFiles(currentPath);
+  };
+
+  const handleDelete = async (e: React.MouseEvent, file: FileEntry) => {
+    e.stopPropagation(); // Prevent navigation/opening
+    await deleteEntries([file]);
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const handleCreate = async (kind: 'folder' | 'file') => {
+    const name = window.prompt(kind === 'folder' ? 'New folder name' : 'New file name');
+    if (!name) return;
+    const path = joinPath(currentPath, name);
+    const result = kind === 'folder' ? await createFolder(path) : await createFile(path);
+    if (result.success) {
+      loadFiles(currentPath);
+    } else {
+      setError(result.error || `Failed to create ${kind}`);
+    }
+  };
+
+  const handleRename = async (file: FileEntry) => {
+    const name = window.prompt(`Rename ${file.name} to:`, file.name);
+    if (!name || name === file.name) return;
+    const from = joinPath(currentPath, file.name);
+    // Names with a slash move the entry; relative ones stay relative to this folder
+    const to = name.startsWith('/') || name.startsWith('~') ? name : joinPath(currentPath, name);
+
+    let result = await renameFile(from, to);
+    if (result.conflict) {
+      if (!window.confirm(`${name} already exists. Replace it?`)) return;
+      result = await renameFile(from, to, true);
+    }
+    if (result.success) {
+      loadFiles(currentPath);
+    } else {
+      setError(result.error || 'Failed to rename');
+    }
+  };
+
+  const handleClipboard = (mode: Clipboard['mode']) => {
+    const paths = files.filter(f => selected.has(f.name)).map(f => joinPath(currentPath, f.name));
+    if (paths.length === 0) return;
+    setClipboard({ mode, paths, sourceDir: currentPath });
+    setSelected(new Set());
+  };
+
+  const handlePaste = async () => {
+    if (!clipboard) return;
+    if (clipboard.sourceDir === currentPath) {
+      setError('These items are already in this folder');
+      return;
+    }
+    const kind = clipboard.mode === 'cut' ? 'move' : 'copy';
+    setError('');
+
+    let result = await transferFiles(kind, clipboard.paths, currentPath);
+    if (result.conflicts) {
+      const names = result.conflicts.join(', ');
+      if (!window.confirm(`${names} already exist${result.conflicts.length === 1 ? 's' : ''} here. Overwrite? Files with the same names are replaced and folders are merged.`)) {
+        return;
+      }
+      result = await transferFiles(kind, clipboard.paths, currentPath, true);
+    }
+    if (!result.success || !result.operation) {
+      setError(result.error || `Failed to ${kind} files`);
+      return;
+    }
+    // Cut items can only be pasted once
+    if (kind === 'move') setClipboard(null);
+    const operation = result.operation;
+    setOperations(prev => [...prev, operation]);
+  };
+
+  const handleCompress = async () => {
+    const names = files.filter(f => selected.has(f.name)).map(f => f.name);
+    if (names.length === 0) return;
+    const suggested = `${names.length === 1 ? names[0] : currentPath.split('/').pop() || 'archive'}.tar.gz`;
+    const archiveName = window.prompt('Archive name (.tar, .tar.gz, .tar.zst or .zip)', suggested);
+    if (!archiveName) return;
+    setError('');
+
+    let result = await createArchive(currentPath, names, archiveName);
+    if (result.conflict) {
+      if (!window.confirm(`${archiveName} already exists. Replace it?`)) return;
+      result = await createArchive(currentPath, names, archiveName, true);
+    }
+    if (!result.success || !result.operation) {
+      setError(result.error || 'Failed to create the archive');
+      return;
+    }
+    const operation = result.operation;
+    setSelected(new Set());
+    setOperations(prev => [...prev, operation]);
+  };
+
+  const handleExtract = async (path: string) => {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    if (!window.confirm(`Extract ${name} into the folder it is in? Files with the same names are replaced.`)) return;
+    setError('');
+    const result = await extractArchive(path);
+    if (!result.success || !result.operation) {
+      setError(result.error || 'Failed to extract the archive');
+      return;
+    }
+    const operation = result.operation;
+    setOperations(prev => [...prev, operation]);
+  };
+
+  const handleCancelOperation = async (id: string) => {
+    if (!window.confirm('Stop this operation? Anything already copied or extracted is left in place.')) return;
+    const result = await cancelFileOperation(id);
+    if (!result.success) setError(result.error || 'Failed to cancel operation');
+    refreshOperations();
   };
 
+  const handleClearOperations = async () => {
+    await clearFileOperations();
+    refreshOperations();
+  };
+
+  const selectedFile = selected.size === 1 ? files.find(f => selected.has(f.name)) : undefined;
+
   return (
     <>
-      <div className="bg-gray-800 rounded-lg p-6 shadow-xl border border-gray-700">
+      <div
+        className={`bg-gray-800 rounded-lg p-6 shadow-xl border ${dragging ? 'border-blue-500 ring-2 ring-blue-500/50' : 'border-gray-700'}`}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragging(false);
+        }}
+        onDrop={handleDrop}
+      >
         <div className="flex justify-between items-center mb-6">
           <h3 className="text-xl font-bold text-white">File Browser</h3>
           <div className="flex space-x-2">
+             <input ref={fileInput} type="file" multiple className="hidden" onChange={handleInputChange} />
+             <input ref={folderInput} type="file" multiple className="hidden" onChange={handleInputChange} />
+             <button 
+               onClick={() => fileInput.current?.click()}
+               className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-300 transition-colors"
+             >
+               Upload Files
+             </button>
+             <button 
+               onClick={() => folderInput.current?.click()}
+               className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-300 transition-colors"
+             >
+               Upload Folder
+             </button>
+             <button 
+               onClick={() => setShowSearch(!showSearch)}
+               className={`px-3 py-1 rounded text-sm transition-colors ${showSearch ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+             >
+               Search
+             </button>
+             <button 
+               onClick={() => setShowTrash(true)}
+               className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-300 transition-colors"
+             >
+               Trash
+             </button>
+             <button
+               onClick={() => goHistory(-1)}
+               disabled={history.index <= 0}
+               className={toolbarButton}
+               title="Back"
+             >
+               &larr;
+             </button>
+             <button
+               onClick={() => goHistory(1)}
+               disabled={history.index >= history.paths.length - 1}
+               className={toolbarButton}
+               title="Forward"
+             >
+               &rarr;
+             </button>
              <button 
                onClick={handleUp}
                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-300 transition-colors"
@@ -168,12 +660,107 @@ export default function FileManager({ credentials }: FileManagerProps) {
             </button>
         </form>
 
+        {/* Breadcrumbs, bookmarks and recent folders */}
+        <div className="mb-4 flex flex-wrap items-center gap-x-1 gap-y-2 text-sm">
+          <div className="flex flex-wrap items-center font-mono text-xs mr-4">
+            {currentPath.startsWith('/') && pathCrumbs(currentPath).map((crumb, i) => (
+              <span key={crumb.path} className="flex items-center">
+                {i > 1 && <span className="text-gray-600 mx-1">/</span>}
+                <button onClick={() => loadFiles(crumb.path)} className="text-blue-400 hover:text-blue-300 px-0.5">{crumb.name}</button>
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-1 ml-auto">
+            {bookmarks.map(bookmark => (
+              <span key={`${bookmark.name}:${bookmark.path}`} className="group flex items-center bg-gray-700 rounded text-xs">
+                <button onClick={() => loadFiles(bookmark.path)} className="pl-2 pr-1 py-1 text-gray-200 hover:text-white" title={bookmark.path}>
+                  {bookmark.name}
+                </button>
+                <button onClick={() => handleRemoveBookmark(bookmark)} className="pr-2 text-gray-500 hover:text-red-400 invisible group-hover:visible" title="Remove bookmark">
+                  &times;
+                </button>
+              </span>
+            ))}
+            <button
+              onClick={handleAddBookmark}
+              disabled={bookmarks.some(b => b.path === currentPath)}
+              className="px-2 py-1 text-xs text-gray-400 hover:text-white disabled:opacity-40"
+              title="Bookmark this folder"
+            >
+              + Bookmark
+            </button>
+            {recent.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && loadFiles(e.target.value)}
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-blue-500 max-w-[14rem]"
+              >
+                <option value="">Recent folders...</option>
+                {recent.map(path => <option key={path} value={path}>{path}</option>)}
+              </select>
+            )}
+          </div>
+        </div>
+
+        {/* File actions */}
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <button onClick={() => handleCreate('folder')} className={toolbarButton}>New Folder</button>
+          <button onClick={() => handleCreate('file')} className={toolbarButton}>New File</button>
+          <span className="w-px h-5 bg-gray-700 mx-1" />
+          <button onClick={() => handleClipboard('cut')} disabled={selected.size === 0} className={toolbarButton}>Cut</button>
+          <button onClick={() => handleClipboard('copy')} disabled={selected.size === 0} className={toolbarButton}>Copy</button>
+          <button onClick={() => selectedFile && handleRename(selectedFile)} disabled={!selectedFile} className={toolbarButton}>Rename</button>
+          <button onClick={() => selectedFile && setPropertiesPath(joinPath(currentPath, selectedFile.name))} disabled={!selectedFile} className={toolbarButton}>Properties</button>
+          <button onClick={() => deleteEntries(files.filter(f => selected.has(f.name)))} disabled={selected.size === 0} className={toolbarButton}>Delete</button>
+          <span className="w-px h-5 bg-gray-700 mx-1" />
+          <button onClick={handleCompress} disabled={selected.size === 0} className={toolbarButton}>Compress</button>
+          <button
+            onClick={() => selectedFile && handleExtract(joinPath(currentPath, selectedFile.name))}
+            disabled={!selectedFile || selectedFile.isDirectory || !archiveFormat(selectedFile.name)}
+            className={toolbarButton}
+          >
+            Extract
+          </button>
+          {clipboard && (
+            <>
+              <button
+                onClick={handlePaste}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-sm text-white transition-colors"
+                title={clipboard.paths.join('\n')}
+              >
+                Paste {clipboard.paths.length} item{clipboard.paths.length === 1 ? '' : 's'} ({clipboard.mode === 'cut' ? 'move' : 'copy'})
+              </button>
+              <button onClick={() => setClipboard(null)} className="text-xs text-gray-400 hover:text-white">Clear</button>
+            </>
+          )}
+          {selected.size > 0 && <span className="ml-auto text-xs text-gray-500">{selected.size} selected</span>}
+        </div>
+
         {error && (
           <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded mb-4">
             {error}
           </div>
         )}
 
+        {showSearch && (
+          <SearchPanel
+            rootPath={currentPath}
+            onOpenFile={openFile}
+            onOpenFolder={(path) => loadFiles(path)}
+            onClose={() => setShowSearch(false)}
+          />
+        )}
+
+        <OperationPanel operations={operations} onCancel={handleCancelOperation} onClearFinished={handleClearOperations} />
+
+        <TransferPanel
+          transfers={transfers}
+          onPause={handlePauseUpload}
+          onResume={handleResumeUpload}
+          onCancel={handleCancelUpload}
+          onClearFinished={() => setTransfers(prev => prev.filter(t => t.status !== 'done' && t.status !== 'cancelled'))}
+        />
+
         {loading ? (
           <div className="text-center py-12 text-gray-500 animate-pulse">
             Loading files...
@@ -183,11 +770,19 @@ export default function FileManager({ credentials }: FileManagerProps) {
             <table className="w-full text-left text-sm text-gray-300">
               <thead className="bg-gray-700/50 uppercase text-xs">
                 <tr>
-                  <th className="px-4 py-3 rounded-tl-lg">Name</th>
+                  <th className="pl-4 py-3 rounded-tl-lg w-8">
+                    <input
+                      type="checkbox"
+                      checked={files.length > 0 && selected.size === files.length}
+                      onChange={(e) => setSelected(e.target.checked ? new Set(files.map(f => f.name)) : new Set())}
+                      aria-label="Select all"
+                    />
+                  </th>
+                  <th className="px-4 py-3">Name</th>
                   <th className="px-4 py-3">Size</th>
                   <th className="px-4 py-3">Permissions</th>
                   <th className="px-4 py-3">Modified</th>
-                  <th className="px-4 py-3 rounded-tr-lg w-10"></th>
+                  <th className="px-4 py-3 rounded-tr-lg w-20"></th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-700">
@@ -197,27 +792,47 @@ export default function FileManager({ credentials }: FileManagerProps) {
                     className="hover:bg-gray-800/50 transition-colors cursor-pointer"
                     onClick={() => handleNavigate(file)}
                   >
+                    <td className="pl-4 py-3" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selected.has(file.name)}
+                        onChange={() => toggleSelected(file.name)}
+                        aria-label={`Select ${file.name}`}
+                      />
+                    </td>
                     <td className="px-4 py-3 font-medium text-white flex items-center space-x-3">
                       <span>{file.isDirectory ? <FolderIcon /> : <FileIcon />}</span>
                       <span>{file.name}</span>
+                      {file.isSymlink && <span className="text-xs text-gray-500" title="Symbolic link">&rarr;</span>}
                     </td>
-                    <td className="px-4 py-3 font-mono text-xs">{file.size}</td>
+                    <td className="px-4 py-3 font-mono text-xs">{file.isDirectory ? '' : formatSize(file.size)}</td>
                     <td className="px-4 py-3 font-mono text-xs text-gray-500">{file.permissions}</td>
-                    <td className="px-4 py-3 text-xs text-gray-400">{file.updatedAt}</td>
+                    <td className="px-4 py-3 text-xs text-gray-400">{formatDate(file.updatedAt)}</td>
                     <td className="px-4 py-3">
-                      <button 
-                        onClick={(e) => handleDelete(e, file)}
-                        className="p-1 hover:bg-red-500/20 rounded transition-colors"
-                        title="Delete"
-                      >
-                        <TrashIcon />
-                      </button>
+                      <div className="flex items-center space-x-1">
+                        <a
+                          href={downloadUrl(joinPath(currentPath, file.name))}
+                          download
+                          onClick={(e) => e.stopPropagation()}
+                          className="p-1 hover:bg-blue-500/20 rounded transition-colors"
+                          title={file.isDirectory ? 'Download as .tar.gz' : 'Download'}
+                        >
+                          <DownloadIcon />
+                        </a>
+                        <button 
+                          onClick={(e) => handleDelete(e, file)}
+                          className="p-1 hover:bg-red-500/20 rounded transition-colors"
+                          title="Delete"
+                        >
+                          <TrashIcon />
+                        </button>
+                      </div>
                     </td>
                   </tr>
                 ))}
                 {files.length === 0 && (
                   <tr>
-                     <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                     <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
                        Empty directory
                      </td>
                   </tr>
@@ -234,12 +849,48 @@ export default function FileManager({ credentials }: FileManagerProps) {
         )}
       </div>
 
+      {showTrash && (
+        <TrashView
+          onClose={() => {
+            setShowTrash(false);
+            loadFiles(currentPath);
+          }}
+        />
+      )}
+
+      {propertiesPath && (
+        <PropertiesPanel
+          path={propertiesPath}
+          onClose={(changed) => {
+            setPropertiesPath(null);
+            if (changed) loadFiles(currentPath);
+          }}
+        />
+      )}
+
+      {previewing && (
+        <FilePreview
+          path={previewing.path}
+          kind={previewing.kind}
+          onOpenAsText={previewing.kind === 'table' || previewing.kind === 'log' ? () => {
+            setPreviewing(null);
+            openFile(previewing.path, undefined, true);
+          } : undefined}
+          onExtract={previewing.kind === 'archive' ? () => {
+            setPreviewing(null);
+            handleExtract(previewing.path);
+          } : undefined}
+          onClose={() => setPreviewing(null)}
+        />
+      )}
+
       {/* Editor Modal */}
       {editingFile && (
         <FileEditor 
-           credentials={credentials}
            filePath={editingFile.path}
            initialContent={editingFile.content}
+           initialVersion={editingFile.version}
+           initialLine={editingFile.line}
            onClose={() => {
              setEditingFile(null);
              loadFiles(currentPath); 
@@ -0,0 +1,79 @@
+'use client';
+
+import type { PreviewKind } from '../lib/file-types';
+import { downloadUrl } from '../lib/transfers';
+import TablePreview from './TablePreview';
+import HexPreview from './HexPreview';
+import DatasetPreview from './DatasetPreview';
+import LogViewer from './LogViewer';
+import ArchivePreview from './ArchivePreview';
+
+interface FilePreviewProps {
+  path: string;
+  kind: PreviewKind;
+  // Offered for files that are also text, such as CSV tables and logs
+  onOpenAsText?: () => void;
+  onExtract?: () => void;
+  onClose: () => void;
+}
+
+export default function FilePreview({ path, kind, onOpenAsText, onExtract, onClose }: FilePreviewProps) {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+
+  let body;
+  switch (kind) {
+    case 'image':
+      body = (
+        <div className="h-full flex items-center justify-center overflow-auto bg-[repeating-conic-gradient(#374151_0_25%,#1f2937_0_50%)] bg-[length:20px_20px] rounded">
+          {/* eslint-disable-next-line @next/next/no-img-element -- remote files cannot go through next/image */}
+          <img src={downloadUrl(path, true)} alt={name} className="max-w-full max-h-full object-contain" />
+        </div>
+      );
+      break;
+    case 'pdf':
+      body = <iframe src={downloadUrl(path, true)} title={name} className="w-full h-full rounded bg-white" />;
+      break;
+    case 'table':
+      body = <TablePreview path={path} />;
+      break;
+    case 'dataset':
+      body = <DatasetPreview path={path} />;
+      break;
+    case 'log':
+      body = <LogViewer path={path} />;
+      break;
+    case 'archive':
+      body = <ArchivePreview path={path} onExtract={onExtract} />;
+      break;
+    default:
+      body = <HexPreview path={path} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-6">
+      <div className="bg-gray-800 w-full max-w-6xl h-[85vh] rounded-lg shadow-2xl flex flex-col border border-gray-700">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900/50 rounded-t-lg">
+          <h3 className="text-lg font-bold text-white truncate px-2" title={path}>
+            Preview: <span className="text-blue-400 font-mono text-sm">{path}</span>
+          </h3>
+          <div className="flex space-x-2 shrink-0">
+            {onOpenAsText && (
+              <button onClick={onOpenAsText} className="px-4 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-700 rounded transition">
+                Edit as Text
+              </button>
+            )}
+            <a href={downloadUrl(path)} download className="px-4 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-700 rounded transition">
+              Download
+            </a>
+            <button onClick={onClose} className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded transition">
+              Close
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 p-4">
+          {body}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,20 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Gem, listGems, saveGem, deleteGem, queryLLM, resetLLMContext } from '../app/llm-actions';
+import * as llmActions from '../app/llm-actions';
+import type { Gem } from '../app/llm-actions';
 import ChatInterface from './ChatInterface';
-import { SSHCredentials } from '../lib/ssh';
+import { watchSession } from '../lib/session-expiry';
+
+const { listGems, saveGem, deleteGem, queryLLM, resetLLMContext } = watchSession(llmActions);
 
 interface GemManagerProps {
-    credentials: SSHCredentials;
     onSelectGem: (gem: Gem | null) => void;
     initialGems: Gem[];
     onRefresh: () => Promise<void>;
 }
 
-export default function GemManager({ credentials, onSelectGem, initialGems, onRefresh }: GemManagerProps) {
+export default function GemManager({ onSelectGem, initialGems, onRefresh }: GemManagerProps) {
     const [gems, setGems] = useState<Gem[]>(initialGems);
     const [view, setView] = useState<'list' | 'edit'>('list');
     const [currentGem, setCurrentGem] = useState<Gem | null>(null);
@@ -50,7 +52,7 @@ export default function GemManager({ credentials, onSelectGem, initialGems, onRe
         e.stopPropagation();
         if (!confirm('Delete this Gem?')) return;
 
-        await deleteGem(credentials, id);
+        await deleteGem(id);
         await refreshGems();
     };
 
@@ -61,7 +63,7 @@ export default function GemManager({ credentials, onSelectGem, initialGems, onRe
         }
 
         setLoading(true);
-        const res = await saveGem(credentials, currentGem);
+        const res = await saveGem(currentGem);
         setLoading(false);
 
         if (res.success) {
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { fetchRange } from '../lib/transfers';
+
+interface HexPreviewProps {
+  path: string;
+}
+
+const CHUNK_BYTES = 4096;
+const BYTES_PER_ROW = 16;
+
+const hex = (value: number, width: number) => value.toString(16).padStart(width, '0');
+const printable = (byte: number) => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.';
+
+export default function HexPreview({ path }: HexPreviewProps) {
+  const [data, setData] = useState<Uint8Array>(new Uint8Array(0));
+  const [size, setSize] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadMore = useCallback(async (loaded: Uint8Array) => {
+    setLoading(true);
+    try {
+      const result = await fetchRange(path, loaded.length, loaded.length + CHUNK_BYTES - 1);
+      const combined = new Uint8Array(loaded.length + result.data.length);
+      combined.set(loaded);
+      combined.set(result.data, loaded.length);
+      setData(combined);
+      setSize(result.size);
+    } catch (e) {
+      setError((e as Error).message || 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  }, [path]);
+
+  useEffect(() => {
+    loadMore(new Uint8Array(0));
+  }, [loadMore]);
+
+  const rows = [];
+  for (let offset = 0; offset < data.length; offset += BYTES_PER_ROW) {
+    const bytes = [...data.subarray(offset, offset + BYTES_PER_ROW)];
+    rows.push(
+      <div key={offset} className="whitespace-pre">
+        <span className="text-gray-500">{hex(offset, 8)}</span>
+        {'  '}
+        {bytes.map(byte => hex(byte, 2)).join(' ').padEnd(BYTES_PER_ROW * 3 - 1)}
+        {'  '}
+        <span className="text-gray-400">{bytes.map(printable).join('')}</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded">{error}</div>;
+  }
+
+  return (
+    <div className="h-full overflow-auto font-mono text-xs text-gray-300">
+      <p className="mb-2 text-gray-500 font-sans">
+        Binary file · showing {data.length.toLocaleString()} of {size.toLocaleString()} bytes
+      </p>
+      {rows}
+      {data.length < size && (
+        <button
+          onClick={() => loadMore(data)}
+          disabled={loading}
+          className="mt-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 font-sans disabled:opacity-40"
+        >
+          {loading ? 'Loading...' : `Load ${CHUNK_BYTES / 1024} KB more`}
+        </button>
+      )}
+    </div>
+  );
+}
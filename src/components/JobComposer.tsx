@@ -1,19 +1,19 @@
 'use client';
 
 import { useState } from 'react';
-import { submitJob, JobConfig } from '../app/actions';
+import * as actions from '../app/actions';
+import type { JobConfig } from '../app/actions';
+import type { ClusterProfile } from '../lib/profiles';
+import type { JobTemplate } from '../lib/jobs';
+import { watchSession } from '../lib/session-expiry';
 
-interface JobComposerProps {
-  credentials: {
-      host: string;
-      username: string;
-      password?: string;
-  };
-}
+const { submitJob } = watchSession(actions);
 
-const TEMPLATES = {
+// Templates take their partition, account and modules from the active profile
+const buildTemplates = (profile: ClusterProfile) => ({
   standard: {
-    partition: 'kamiak',
+    partition: profile.partition,
+    account: profile.account || '',
     nodes: 1,
     cpus: 1,
     memory: '1G',
@@ -30,7 +30,8 @@ echo "======================================================"
 echo "Hello Kamiak"`
   },
   gpu: {
-    partition: 'gpu',
+    partition: profile.gpuPartition,
+    account: profile.account || '',
     nodes: 1,
     cpus: 2,
     memory: '32G',
@@ -40,15 +41,22 @@ echo "Hello Kamiak"`
 #SBATCH --gres=gpu:1
 
 echo "Starting GPU job..."
-module load cuda/12.2.0
+module load ${profile.modules.cuda}
 nvidia-smi`
   }
-};
+});
 
-export default function JobComposer({ credentials }: JobComposerProps) {
-  const [job, setJob] = useState<JobConfig>({
+interface JobComposerProps {
+  profile: ClusterProfile;
+  // A previous job to start from instead of the standard template
+  draft?: JobTemplate;
+}
+
+export default function JobComposer({ profile, draft }: JobComposerProps) {
+  const templates = buildTemplates(profile);
+  const [job, setJob] = useState<JobConfig>(draft ?? {
     name: 'my-job',
-    ...TEMPLATES.standard
+    ...templates.standard
   });
   const [loading, setLoading] = useState(false);
   const [status, setStatus] = useState<{message: string; type: 'success' | 'error'} | null>(null);
@@ -59,7 +67,7 @@ export default function JobComposer({ credentials }: JobComposerProps) {
     setStatus(null);
     
     try {
-      const result = await submitJob(credentials, job);
+      const result = await submitJob(job);
       if (result.success) {
         setStatus({ message: `Job submitted successfully! ID: ${result.jobId}`, type: 'success' });
       } else {
@@ -72,8 +80,9 @@ export default function JobComposer({ credentials }: JobComposerProps) {
     }
   };
 
-  const loadTemplate = (type: keyof typeof TEMPLATES) => {
-    setJob(prev => ({ ...prev, ...TEMPLATES[type] }));
+  const loadTemplate = (type: keyof typeof templates) => {
+    // A template replaces the script, so the result is no longer a rerun
+    setJob(prev => ({ ...prev, ...templates[type], parentJobId: undefined }));
   };
 
   return (
@@ -86,6 +95,15 @@ export default function JobComposer({ credentials }: JobComposerProps) {
         </div>
       </div>
 
+      {job.parentJobId && (
+        <div className="mb-4 flex justify-between items-center bg-blue-900/30 border border-blue-700 text-blue-200 text-sm px-3 py-2 rounded">
+          <span>Resubmission of job <span className="font-mono">{job.parentJobId}</span>; it will be grouped with it in the job history.</span>
+          <button type="button" onClick={() => setJob({ ...job, parentJobId: undefined })} className="text-xs text-blue-300 hover:text-white">
+            Submit as a new job
+          </button>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div className="grid grid-cols-2 gap-4">
           <div>
@@ -107,6 +125,16 @@ export default function JobComposer({ credentials }: JobComposerProps) {
               className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white"
             />
           </div>
+          <div>
+            <label className="block text-gray-400 text-sm mb-1">Account</label>
+            <input 
+              type="text" 
+              value={job.account || ''}
+              onChange={e => setJob({...job, account: e.target.value})}
+              className="w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-white"
+              placeholder="Default"
+            />
+          </div>
           <div>
             <label className="block text-gray-400 text-sm mb-1">Nodes</label>
             <input 
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import * as actions from '../app/actions';
+import type { JobDetails } from '../lib/jobs';
+import { formatDuration, formatExitCode, formatMemory, formatTimeLimit } from '../lib/slurm';
+import { watchSession } from '../lib/session-expiry';
+
+const { getJobDetails } = watchSession(actions);
+
+interface JobInspectorProps {
+  jobId: string;
+  onOpenLog: (path: string) => void;
+  onClose: () => void;
+}
+
+const Field = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <dt className="text-xs text-gray-500">{label}</dt>
+    <dd className="font-mono text-xs text-gray-200 break-all">{value || '—'}</dd>
+  </div>
+);
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section className="space-y-2">
+    <h4 className="text-xs font-bold uppercase tracking-wide text-gray-400">{title}</h4>
+    {children}
+  </section>
+);
+
+/**
+ * Side drawer with the full record of one job, from `scontrol` while the job is queued or
+ * running and from `sacct` after it has finished.
+ */
+export default function JobInspector({ jobId, onOpenLog, onClose }: JobInspectorProps) {
+  const [job, setJob] = useState<JobDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showFields, setShowFields] = useState(false);
+
+  const loadJob = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await getJobDetails(jobId);
+      if (result.success && result.job) {
+        setJob(result.job);
+      } else {
+        setError(result.error || 'Failed to load the job');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    loadJob();
+  }, [loadJob]);
+
+  // Requested and allocated side by side, e.g. cpu, mem, node, gres/gpu
+  const tresNames = job ? [...new Set([...Object.keys(job.requestedTres), ...Object.keys(job.allocatedTres)])] : [];
+
+  const pathLink = (label: string, path: string) => (
+    <div>
+      <dt className="text-xs text-gray-500">{label}</dt>
+      <dd>
+        <button onClick={() => onOpenLog(path)} className="font-mono text-xs text-blue-400 hover:text-blue-300 break-all text-left">
+          {path}
+        </button>
+      </dd>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-40 flex justify-end" onClick={onClose}>
+      <div
+        className="bg-gray-800 w-full max-w-2xl h-full shadow-2xl border-l border-gray-700 flex flex-col text-gray-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900/50">
+          <div className="px-2">
+            <h3 className="text-lg font-bold text-white">Job {jobId}</h3>
+            {job && <div className="text-xs text-gray-400">{job.name} · {job.state}</div>}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button onClick={loadJob} disabled={loading} className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded transition disabled:opacity-50">
+              Refresh
+            </button>
+            <button onClick={onClose} className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded transition">
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-6">
+          {error && <div className="bg-red-900/50 border border-red-500 text-red-200 p-3 rounded text-sm whitespace-pre-wrap">{error}</div>}
+          {loading && !job && <div className="text-center py-8 text-gray-500 animate-pulse">Loading job details...</div>}
+
+          {job && (
+            <>
+              {(job.reason || job.dependency) && (
+                <div className="bg-yellow-900/30 border border-yellow-700 text-yellow-200 p-3 rounded text-sm space-y-1">
+                  {job.reason && <div><span className="text-yellow-400">Reason:</span> {job.reason}</div>}
+                  {job.dependency && <div><span className="text-yellow-400">Dependency:</span> <span className="font-mono">{job.dependency}</span></div>}
+                </div>
+              )}
+
+              <Section title="Job">
+                <dl className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  <Field label="User" value={job.user} />
+                  <Field label="Partition" value={job.partition} />
+                  <Field label="Account" value={job.account} />
+                  <Field label="QOS" value={job.qos} />
+                  <Field label="Nodes" value={job.nodeList} />
+                  <Field label="Exit code" value={formatExitCode(job.exitCode)} />
+                </dl>
+              </Section>
+
+              <Section title="Times">
+                <dl className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  <Field label="Submitted" value={job.submitTime} />
+                  <Field label="Eligible" value={job.eligibleTime} />
+                  <Field label="Started" value={job.startTime} />
+                  <Field label="Ended" value={job.endTime} />
+                  <Field label="Elapsed" value={formatDuration(job.elapsed)} />
+                  <Field label="Time limit" value={formatTimeLimit(job.timeLimit)} />
+                </dl>
+              </Section>
+
+              <Section title="Files">
+                <dl className="space-y-2">
+                  <Field label="Working directory" value={job.workDir} />
+                  {pathLink(job.output.stderr ? 'Output' : 'Output and errors', job.output.stdout)}
+                  {job.output.stderr && pathLink('Errors', job.output.stderr)}
+                </dl>
+              </Section>
+
+              <Section title="Resources">
+                {tresNames.length > 0 ? (
+                  <table className="w-full text-left text-xs">
+                    <thead className="text-gray-500">
+                      <tr>
+                        <th className="py-1 font-normal">Resource</th>
+                        <th className="py-1 font-normal">Requested</th>
+                        <th className="py-1 font-normal">Allocated</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700 font-mono">
+                      {tresNames.map(name => (
+                        <tr key={name}>
+                          <td className="py-1">{name}</td>
+                          <td className="py-1">{job.requestedTres[name] ?? '—'}</td>
+                          <td className="py-1">{job.allocatedTres[name] ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="text-xs text-gray-500">Slurm did not report the resources for this job.</div>
+                )}
+              </Section>
+
+              <Section title="Steps">
+                {job.steps.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-xs">
+                      <thead className="text-gray-500">
+                        <tr>
+                          <th className="py-1 pr-3 font-normal">Step</th>
+                          <th className="py-1 pr-3 font-normal">Name</th>
+                          <th className="py-1 pr-3 font-normal">State</th>
+                          <th className="py-1 pr-3 font-normal">Elapsed</th>
+                          <th className="py-1 pr-3 font-normal">CPU time</th>
+                          <th className="py-1 pr-3 font-normal">Max RSS</th>
+                          <th className="py-1 pr-3 font-normal">Nodes</th>
+                          <th className="py-1 font-normal">Exit</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-700 font-mono">
+                        {job.steps.map(step => (
+                          <tr key={step.stepId}>
+                            <td className="py-1 pr-3">{step.stepId}</td>
+                            <td className="py-1 pr-3">{step.name}</td>
+                            <td className="py-1 pr-3">{step.state}</td>
+                            <td className="py-1 pr-3">{formatDuration(step.elapsed)}</td>
+                            <td className="py-1 pr-3">{step.totalCpu === null ? '—' : formatDuration(step.totalCpu)}</td>
+                            <td className="py-1 pr-3">{step.maxRss === null ? '—' : formatMemory(step.maxRss)}</td>
+                            <td className="py-1 pr-3">{step.nodes}</td>
+                            <td className="py-1">{formatExitCode(step.exitCode)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="text-xs text-gray-500">No steps have been recorded yet.</div>
+                )}
+              </Section>
+
+              <Section title="Batch script">
+                {job.batchScript !== null ? (
+                  <pre className="bg-gray-900 border border-gray-700 rounded p-3 text-xs font-mono text-gray-200 overflow-auto max-h-96">{job.batchScript}</pre>
+                ) : (
+                  <div className="text-xs text-gray-500">
+                    The script is no longer available. Slurm only keeps it after the job ends if accounting stores job scripts.
+                  </div>
+                )}
+              </Section>
+
+              <Section title={`All fields (${job.source})`}>
+                <button onClick={() => setShowFields(!showFields)} className="text-xs text-blue-400 hover:text-blue-300">
+                  {showFields ? 'Hide' : 'Show'} the full record
+                </button>
+                {showFields && (
+                  <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs font-mono">
+                    {Object.entries(job.fields).map(([key, value]) => (
+                      <div key={key} className="contents">
+                        <dt className="text-gray-500">{key}</dt>
+                        <dd className="text-gray-200 break-all">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </Section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,41 +1,92 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { getJobQueue, getJobHistory, cancelJob, JobQueueEntry, JobHistoryEntry } from '../app/actions';
+import * as actions from '../app/actions';
+import { JobQueueEntry, JobHistoryEntry, JobState, FINISHED_STATES, formatDuration, formatExitCode, formatTimeLimit } from '../lib/slurm';
+import type { JobHistoryFilter, JobTemplate } from '../lib/jobs';
+import FilePreview from './FilePreview';
+import JobInspector from './JobInspector';
+import EfficiencyReport from './EfficiencyReport';
+import { watchSession } from '../lib/session-expiry';
+
+const { getJobQueue, getJobHistory, cancelJob, getJobOutputPaths, getJobTemplate } = watchSession(actions);
+
+const PAGE_SIZE = 50;
+
+// YYYY-MM-DD in local time, as date inputs and sacct expect
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const defaultHistoryFilter = (): JobHistoryFilter => ({
+  start: localDate(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)),
+  end: localDate(new Date()),
+  states: [],
+  partition: '',
+  name: '',
+  search: '',
+  groupReruns: false,
+});
+
+// Query string for the export route
+const exportUrl = (filter: JobHistoryFilter, format: 'csv' | 'json') => {
+  const params = new URLSearchParams({
+    start: filter.start,
+    end: filter.end,
+    state: (filter.states ?? []).join(','),
+    partition: filter.partition ?? '',
+    name: filter.name ?? '',
+    search: filter.search ?? '',
+    group: filter.groupReruns ? '1' : '',
+    format,
+  });
+  return `/api/jobs/history?${params}`;
+};
+
+const inputClass = 'px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500';
 
 interface JobMonitorProps {
-  credentials: {
-      host: string;
-      username: string;
-      password?: string;
-  };
+  // Opens the job composer filled in with `job`
+  onCompose: (job: JobTemplate) => void;
 }
 
-export default function JobMonitor({ credentials }: JobMonitorProps) {
-  const [activeTab, setActiveTab] = useState<'queue' | 'history'>('queue');
+export default function JobMonitor({ onCompose }: JobMonitorProps) {
+  const [activeTab, setActiveTab] = useState<'queue' | 'history' | 'efficiency'>('queue');
   const [queue, setQueue] = useState<JobQueueEntry[]>([]);
   const [history, setHistory] = useState<JobHistoryEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [cancelling, setCancelling] = useState<string | null>(null);
+  const [viewingLog, setViewingLog] = useState<string | null>(null);
+  const [inspecting, setInspecting] = useState<string | null>(null);
+  const [composing, setComposing] = useState<string | null>(null);
+  // The filter being edited, and the one the shown history was loaded with
+  const [filter, setFilter] = useState<JobHistoryFilter>(defaultHistoryFilter);
+  const [appliedFilter, setAppliedFilter] = useState<JobHistoryFilter>(filter);
+  const [page, setPage] = useState(1);
+  const [historyTotal, setHistoryTotal] = useState(0);
 
-  const loadData = async () => {
+  // Turning the page reuses the history already loaded; everything else reloads it
+  // `poll` marks the background refresh of the queue, which does not keep the session alive
+  const loadData = async (historyFilter = appliedFilter, historyPage = page, refresh = true, poll = false) => {
+    // The efficiency report loads its own data
+    if (activeTab === 'efficiency') return;
     setLoading(true);
     setError('');
     try {
       if (activeTab === 'queue') {
-        const result = await getJobQueue(credentials);
+        const result = await getJobQueue(poll);
         if (result.success) {
           setQueue(result.jobs);
         } else {
           setError(result.error || 'Failed to load queue');
         }
       } else {
-        const result = await getJobHistory(credentials);
+        const result = await getJobHistory(historyFilter, historyPage, PAGE_SIZE, refresh);
         if (result.success) {
           setHistory(result.jobs);
+          setHistoryTotal(result.total);
         } else {
-          console.error(result.error);
+          setError(result.error || 'Failed to load job history');
         }
       }
     } catch (e) {
@@ -50,7 +101,7 @@ export default function JobMonitor({ credentials }: JobMonitorProps) {
 
       setCancelling(jobId);
       try {
-          const result = await cancelJob(credentials, jobId);
+          const result = await cancelJob(jobId);
           if (result.success) {
               // Optimistic update: Remove job from queue immediately
               setQueue(prev => prev.filter(job => job.jobId !== jobId));
@@ -67,11 +118,95 @@ export default function JobMonitor({ credentials }: JobMonitorProps) {
       }
   };
 
+  const handleViewOutput = async (jobId: string, stream: 'stdout' | 'stderr') => {
+    setError('');
+    const result = await getJobOutputPaths(jobId);
+    if (result.success && result.paths) {
+      setViewingLog(stream === 'stderr' && result.paths.stderr ? result.paths.stderr : result.paths.stdout);
+    } else {
+      setError(result.error || 'Could not find the job output');
+    }
+  };
+
+  // Opens the job's script and options in the job composer; a resubmission is recorded as a rerun of it
+  const handleCompose = async (jobId: string, resubmit: boolean) => {
+    setComposing(jobId);
+    setError('');
+    try {
+      const result = await getJobTemplate(jobId);
+      if (result.success && result.job) {
+        onCompose(resubmit ? { ...result.job, parentJobId: jobId } : result.job);
+      } else {
+        setError(result.error || 'Could not load the job to resubmit');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setComposing(null);
+    }
+  };
+
+  const applyFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilter(filter);
+    setPage(1);
+    loadData(filter, 1);
+  };
+
+  const resetFilter = () => {
+    const initial = defaultHistoryFilter();
+    setFilter(initial);
+    setAppliedFilter(initial);
+    setPage(1);
+    loadData(initial, 1);
+  };
+
+  const goToPage = (next: number) => {
+    setPage(next);
+    loadData(appliedFilter, next, false);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(historyTotal / PAGE_SIZE));
+
+  const outputButtons = (jobId: string) => (
+    <span className="space-x-2 whitespace-nowrap">
+      <button onClick={() => handleViewOutput(jobId, 'stdout')} className="text-blue-400 hover:text-blue-300 text-xs">Output</button>
+      <button onClick={() => handleViewOutput(jobId, 'stderr')} className="text-blue-400 hover:text-blue-300 text-xs">Errors</button>
+    </span>
+  );
+
+  const composeButtons = (jobId: string) => (
+    <span className="space-x-2 whitespace-nowrap">
+      <button
+        onClick={() => handleCompose(jobId, true)}
+        disabled={composing !== null}
+        className="text-blue-400 hover:text-blue-300 text-xs disabled:opacity-50"
+        title="Submit this job again, grouped with it in the history"
+      >
+        {composing === jobId ? 'Loading...' : 'Resubmit'}
+      </button>
+      <button
+        onClick={() => handleCompose(jobId, false)}
+        disabled={composing !== null}
+        className="text-blue-400 hover:text-blue-300 text-xs disabled:opacity-50"
+        title="Start a new job from this one"
+      >
+        Clone
+      </button>
+    </span>
+  );
+
+  const jobLink = (jobId: string) => (
+    <button onClick={() => setInspecting(jobId)} className="text-blue-400 hover:text-blue-300" title="Show job details">
+      {jobId}
+    </button>
+  );
+
   useEffect(() => {
     loadData();
     let interval: NodeJS.Timeout;
     if (activeTab === 'queue') {
-       interval = setInterval(loadData, 30000);
+       interval = setInterval(() => loadData(appliedFilter, page, true, true), 30000);
     }
     return () => clearInterval(interval);
   }, [activeTab]);
@@ -94,11 +229,19 @@ export default function JobMonitor({ credentials }: JobMonitorProps) {
                 Job History
             </button>
             <button 
-                onClick={loadData}
-                className="px-3 py-1 bg-gray-700 rounded text-sm text-gray-300 hover:bg-gray-600 transition-colors ml-4"
+                onClick={() => setActiveTab('efficiency')} 
+                className={`px-3 py-1 rounded text-sm transition-colors ${activeTab === 'efficiency' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
             >
-                Refresh
+                Efficiency
             </button>
+            {activeTab !== 'efficiency' && (
+              <button 
+                  onClick={() => loadData()}
+                  className="px-3 py-1 bg-gray-700 rounded text-sm text-gray-300 hover:bg-gray-600 transition-colors ml-4"
+              >
+                  Refresh
+              </button>
+            )}
         </div>
       </div>
 
@@ -108,78 +251,169 @@ export default function JobMonitor({ credentials }: JobMonitorProps) {
         </div>
       )}
 
-      {loading && <div className="text-center py-4 text-gray-500 animate-pulse">Updating...</div>}
-
-      <div className="overflow-x-auto">
-        <table className="w-full text-left text-sm text-gray-300">
-          <thead className="bg-gray-700/50 uppercase text-xs">
-            {activeTab === 'queue' ? (
-                <tr>
-                    <th className="px-4 py-3 rounded-tl-lg">Job ID</th>
-                    <th className="px-4 py-3">Name</th>
-                    <th className="px-4 py-3">Partition</th>
-                    <th className="px-4 py-3">State</th>
-                    <th className="px-4 py-3">Time</th>
-                    <th className="px-4 py-3">Nodes</th>
-                    <th className="px-4 py-3 rounded-tr-lg">Action</th>
-                </tr>
-            ) : (
-                <tr>
-                    <th className="px-4 py-3 rounded-tl-lg">Job ID</th>
-                    <th className="px-4 py-3">Name</th>
-                    <th className="px-4 py-3">Partition</th>
-                    <th className="px-4 py-3">State</th>
-                    <th className="px-4 py-3 rounded-tr-lg">Exit Code</th>
-                </tr>
-            )}
-          </thead>
-          <tbody className="divide-y divide-gray-700">
-            {activeTab === 'queue' ? (
-                queue.length > 0 ? queue.map((job) => (
-                    <tr key={job.jobId} className="hover:bg-gray-800/50">
-                        <td className="px-4 py-3 font-mono">{job.jobId}</td>
-                        <td className="px-4 py-3">{job.name}</td>
-                        <td className="px-4 py-3">{job.partition}</td>
-                        <td className="px-4 py-3">
-                            <span className={`px-2 py-1 rounded text-xs ${job.state === 'RUNNING' ? 'bg-green-900 text-green-300' : 'bg-yellow-900 text-yellow-300'}`}>
-                                {job.state}
-                            </span>
-                        </td>
-                        <td className="px-4 py-3 font-mono text-xs">{job.time} / {job.timeLimit}</td>
-                        <td className="px-4 py-3">{job.nodes} ({job.nodelist})</td>
-                        <td className="px-4 py-3">
-                            <button 
-                                onClick={() => handleCancel(job.jobId)}
-                                disabled={cancelling === job.jobId}
-                                className="px-2 py-1 bg-red-900/50 text-red-200 text-xs rounded hover:bg-red-800 border border-red-700 disabled:opacity-50"
-                            >
-                                {cancelling === job.jobId ? 'Killing...' : 'Cancel'}
-                            </button>
-                        </td>
+      {activeTab === 'history' && (
+        <form onSubmit={applyFilter} className="flex flex-wrap items-end gap-2 mb-4 text-sm">
+          <label className="flex flex-col text-xs text-gray-400">
+            From
+            <input type="date" value={filter.start} onChange={(e) => setFilter({ ...filter, start: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-400">
+            To
+            <input type="date" value={filter.end} onChange={(e) => setFilter({ ...filter, end: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-400">
+            State
+            <select
+              value={filter.states?.[0] ?? ''}
+              onChange={(e) => setFilter({ ...filter, states: e.target.value ? [e.target.value as JobState] : [] })}
+              className={inputClass}
+            >
+              <option value="">Any state</option>
+              {['RUNNING', 'PENDING', ...FINISHED_STATES].map(state => <option key={state} value={state}>{state}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col text-xs text-gray-400">
+            Partition
+            <input value={filter.partition} onChange={(e) => setFilter({ ...filter, partition: e.target.value.trim() })} placeholder="Any" className={`${inputClass} w-28`} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-400">
+            Name
+            <input value={filter.name} onChange={(e) => setFilter({ ...filter, name: e.target.value })} placeholder="Contains..." className={`${inputClass} w-32`} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-400 flex-1 min-w-40">
+            Search
+            <input value={filter.search} onChange={(e) => setFilter({ ...filter, search: e.target.value })} placeholder="Job ID, name, account, state..." className={inputClass} />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-gray-400 py-1.5">
+            <input type="checkbox" checked={filter.groupReruns ?? false} onChange={(e) => setFilter({ ...filter, groupReruns: e.target.checked })} />
+            Group reruns
+          </label>
+          <button type="submit" className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-white transition-colors">Apply</button>
+          <button type="button" onClick={resetFilter} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 transition-colors">Reset</button>
+        </form>
+      )}
+
+      {activeTab === 'efficiency' ? (
+        <EfficiencyReport onInspect={setInspecting} onCompose={onCompose} />
+      ) : (
+        <>
+          {loading && <div className="text-center py-4 text-gray-500 animate-pulse">Updating...</div>}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-gray-300">
+              <thead className="bg-gray-700/50 uppercase text-xs">
+                {activeTab === 'queue' ? (
+                    <tr>
+                        <th className="px-4 py-3 rounded-tl-lg">Job ID</th>
+                        <th className="px-4 py-3">Name</th>
+                        <th className="px-4 py-3">Partition</th>
+                        <th className="px-4 py-3">State</th>
+                        <th className="px-4 py-3">Time</th>
+                        <th className="px-4 py-3">Nodes</th>
+                        <th className="px-4 py-3">Logs</th>
+                        <th className="px-4 py-3 rounded-tr-lg">Actions</th>
                     </tr>
-                )) : (
-                    <tr><td colSpan={7} className="px-4 py-8 text-center text-gray-500">No active jobs found</td></tr>
-                )
-            ) : (
-                history.length > 0 ? history.map((job) => (
-                    <tr key={job.jobId} className="hover:bg-gray-800/50">
-                        <td className="px-4 py-3 font-mono">{job.jobId}</td>
-                        <td className="px-4 py-3">{job.name}</td>
-                        <td className="px-4 py-3">{job.partition}</td>
-                        <td className="px-4 py-3">
-                             <span className={`px-2 py-1 rounded text-xs ${job.state === 'COMPLETED' ? 'bg-green-900 text-green-300' : job.state === 'FAILED' ? 'bg-red-900 text-red-300' : 'bg-gray-700 text-gray-300'}`}>
-                                {job.state}
-                            </span>
-                        </td>
-                        <td className="px-4 py-3 font-mono text-xs">{job.exitCode}</td>
+                ) : (
+                    <tr>
+                        <th className="px-4 py-3 rounded-tl-lg">Job ID</th>
+                        <th className="px-4 py-3">Name</th>
+                        <th className="px-4 py-3">Partition</th>
+                        <th className="px-4 py-3">State</th>
+                        <th className="px-4 py-3">Submitted</th>
+                        <th className="px-4 py-3">Elapsed</th>
+                        <th className="px-4 py-3">Exit Code</th>
+                        <th className="px-4 py-3">Logs</th>
+                        <th className="px-4 py-3 rounded-tr-lg">Actions</th>
                     </tr>
-                )) : (
-                    <tr><td colSpan={5} className="px-4 py-8 text-center text-gray-500">No job history found</td></tr>
-                )
-            )}
-          </tbody>
-        </table>
-      </div>
+                )}
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {activeTab === 'queue' ? (
+                    queue.length > 0 ? queue.map((job) => (
+                        <tr key={job.jobId} className="hover:bg-gray-800/50">
+                            <td className="px-4 py-3 font-mono">{jobLink(job.jobId)}</td>
+                            <td className="px-4 py-3">{job.name}</td>
+                            <td className="px-4 py-3">{job.partition}</td>
+                            <td className="px-4 py-3">
+                                <span className={`px-2 py-1 rounded text-xs ${job.state === 'RUNNING' ? 'bg-green-900 text-green-300' : 'bg-yellow-900 text-yellow-300'}`}>
+                                    {job.state}
+                                </span>
+                            </td>
+                            <td className="px-4 py-3 font-mono text-xs">{formatDuration(job.elapsed)} / {formatTimeLimit(job.timeLimit)}</td>
+                            <td className="px-4 py-3">{job.nodeList ? `${job.nodes} (${job.nodeList})` : <span className="text-gray-500">{job.reason || job.nodes}</span>}</td>
+                            <td className="px-4 py-3">{outputButtons(job.jobId)}</td>
+                            <td className="px-4 py-3 space-x-3 whitespace-nowrap">
+                                <button 
+                                    onClick={() => handleCancel(job.jobId)}
+                                    disabled={cancelling === job.jobId}
+                                    className="px-2 py-1 bg-red-900/50 text-red-200 text-xs rounded hover:bg-red-800 border border-red-700 disabled:opacity-50"
+                                >
+                                    {cancelling === job.jobId ? 'Killing...' : 'Cancel'}
+                                </button>
+                                {composeButtons(job.jobId)}
+                            </td>
+                        </tr>
+                    )) : (
+                        <tr><td colSpan={8} className="px-4 py-8 text-center text-gray-500">No active jobs found</td></tr>
+                    )
+                ) : (
+                    history.length > 0 ? history.map((job) => (
+                        <tr key={job.jobId} className="hover:bg-gray-800/50">
+                            <td className={`py-3 font-mono ${appliedFilter.groupReruns && job.parentJobId ? 'pl-10 pr-4' : 'px-4'}`}>
+                                {jobLink(job.jobId)}
+                                {job.parentJobId && <div className="text-xs text-gray-500">rerun of {job.parentJobId}</div>}
+                            </td>
+                            <td className="px-4 py-3">{job.name}</td>
+                            <td className="px-4 py-3">{job.partition}</td>
+                            <td className="px-4 py-3">
+                                 <span className={`px-2 py-1 rounded text-xs ${job.state === 'COMPLETED' ? 'bg-green-900 text-green-300' : job.state === 'FAILED' ? 'bg-red-900 text-red-300' : 'bg-gray-700 text-gray-300'}`}>
+                                    {job.state}
+                                </span>
+                            </td>
+                            <td className="px-4 py-3 font-mono text-xs">{job.submitTime.replace('T', ' ')}</td>
+                            <td className="px-4 py-3 font-mono text-xs">{formatDuration(job.elapsed)}</td>
+                            <td className="px-4 py-3 font-mono text-xs">{formatExitCode(job.exitCode)}</td>
+                            <td className="px-4 py-3">{outputButtons(job.jobId)}</td>
+                            <td className="px-4 py-3">{composeButtons(job.jobId)}</td>
+                        </tr>
+                    )) : (
+                        <tr><td colSpan={9} className="px-4 py-8 text-center text-gray-500">No jobs match these filters</td></tr>
+                    )
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {activeTab === 'history' && (
+        <div className="flex flex-wrap justify-between items-center gap-2 mt-4 text-sm text-gray-400">
+          <span>
+            {historyTotal > 0
+              ? `${(page - 1) * PAGE_SIZE + 1}–${Math.min(page * PAGE_SIZE, historyTotal)} of ${historyTotal} jobs`
+              : 'No jobs'}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => goToPage(page - 1)} disabled={page <= 1 || loading} className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50">
+              ← Previous
+            </button>
+            <span>Page {page} of {pageCount}</span>
+            <button onClick={() => goToPage(page + 1)} disabled={page >= pageCount || loading} className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50">
+              Next →
+            </button>
+            <a href={exportUrl(appliedFilter, 'csv')} className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 text-gray-300 ml-4">Export CSV</a>
+            <a href={exportUrl(appliedFilter, 'json')} className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 text-gray-300">Export JSON</a>
+          </div>
+        </div>
+      )}
+
+      {inspecting && (
+        <JobInspector jobId={inspecting} onOpenLog={setViewingLog} onClose={() => setInspecting(null)} />
+      )}
+
+      {viewingLog && (
+        <FilePreview path={viewingLog} kind="log" onClose={() => setViewingLog(null)} />
+      )}
     </div>
   );
 }
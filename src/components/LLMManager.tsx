@@ -1,13 +1,15 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Gem } from '../app/llm-actions';
+import type { Gem } from '../app/llm-actions';
 import GemManager from './GemManager';
-import { submitLLMJob, checkLLMJobStatus, startTunnelAction, stopLLMJob, queryLLM, resetLLMContext, listCachedModels, deleteCachedModel } from '../app/llm-actions';
+import * as llmActions from '../app/llm-actions';
 import ChatInterface from './ChatInterface';
+import { watchSession } from '../lib/session-expiry';
+
+const { submitLLMJob, checkLLMJobStatus, startTunnelAction, stopLLMJob, queryLLM, resetLLMContext, listCachedModels, deleteCachedModel } = watchSession(llmActions);
 
 interface LLMManagerProps {
-    credentials: { host: string; username: string; password?: string };
     currentView: 'server' | 'manage' | 'gems';
     onViewChange: (view: 'server' | 'manage' | 'gems') => void;
     initialGems: Gem[];
@@ -15,7 +17,7 @@ interface LLMManagerProps {
     onRefresh: () => Promise<void>;
 }
 
-export default function LLMManager({ credentials, currentView, onViewChange, initialGems, initialModels, onRefresh }: LLMManagerProps) {
+export default function LLMManager({ currentView, onViewChange, initialGems, initialModels, onRefresh }: LLMManagerProps) {
     // Controlled view state provided by parent
     const [status, setStatus] = useState<'idle' | 'submitting' | 'queued' | 'starting_tunnel' | 'ready' | 'error'>('idle');
     const [selectedModel, setSelectedModel] = useState('meta-llama/Meta-Llama-3-8B-Instruct');
@@ -52,7 +54,7 @@ export default function LLMManager({ credentials, currentView, onViewChange, ini
     const loadModels = async () => {
         setLoadingModels(true);
         setManageError('');
-        const res = await listCachedModels(credentials);
+        const res = await listCachedModels();
         if (res.success && res.models) {
             setCachedModels(res.models);
         } else {
@@ -62,10 +64,14 @@ export default function LLMManager({ credentials, currentView, onViewChange, ini
     };
 
     const handleDeleteModel = async (path: string) => {
-        if (!confirm('Are you sure you want to delete this cached model? This action cannot be undone.')) return;
+        if (!confirm('Move this cached model to the trash?')) return;
 
         setLoadingModels(true);
-        const res = await deleteCachedModel(credentials, path);
+        let res = await deleteCachedModel(path);
+        // A cache on another file system (e.g. scratch) would have to be copied into the trash
+        if (res.crossDevice && confirm(`${res.error}. Delete it permanently? This cannot be undone.`)) {
+            res = await deleteCachedModel(path, true);
+        }
         if (res.success) {
             await loadModels(); // Refresh list
         } else {
@@ -80,7 +86,7 @@ export default function LLMManager({ credentials, currentView, onViewChange, ini
         setLogs([]);
         addLog(`Submitting SBATCH job for ${selectedModel}...`);
 
-        const result = await submitLLMJob(credentials, selectedModel);
+        const result = await submitLLMJob(selectedModel);
         if (result.success && result.jobId) {
             setJobId(result.jobId);
             addLog(`Job submitted: ${result.jobId}`);
@@ -97,7 +103,7 @@ export default function LLMManager({ credentials, currentView, onViewChange, ini
 
         if (status === 'queued' && jobId) {
             interval = setInterval(async () => {
-                const check = await checkLLMJobStatus(credentials, jobId);
+                const check = await checkLLMJobStatus(jobId);
                 if (check.success) {
                     addLog(`Job State: ${check.state}` + (check.node ? ` Node: ${check.node}` : ''));
 
@@ -115,14 +121,14 @@ export default function LLMManager({ credentials, currentView, onViewChange, ini
         }
 
         return () => clearInterval(interval);
-    }, [status, jobId, credentials]);
+    }, [status, jobId]);
 
     // Start Tunnel
     useEffect(() => {
         const initTunnel = async () => {
             if (status === 'starting_tunnel' && node) {
                 addLog(`Starting tunnel to ${node}...`);
-                const tunnel = await startTunnelAction(credentials, node);
+                const tunnel = await startTunnelAction(node);
                 if (tunnel.success) {
                     addLog('Tunnel established successfully.');
                     setStatus('ready');
@@ -133,19 +139,19 @@ export default function LLMManager({ credentials, currentView, onViewChange, ini
             }
         };
         initTunnel();
-    }, [status, node, credentials]);
+    }, [status, node]);
 
     // Cleanup on unmount
     useEffect(() => {
         return () => {
             if (status === 'ready') {
-                stopLLMJob(credentials);
+                stopLLMJob();
             }
         };
     }, []);
 
     const handleStop = async () => {
-        await stopLLMJob(credentials);
+        await stopLLMJob();
         setStatus('idle');
         setJobId(null);
         setNode(null);
@@ -312,7 +318,7 @@ export default function LLMManager({ credentials, currentView, onViewChange, ini
                 )}
 
                 {currentView === 'gems' && (
-                    <GemManager credentials={credentials} onSelectGem={handleSelectGem} initialGems={initialGems} onRefresh={onRefresh} />
+                    <GemManager onSelectGem={handleSelectGem} initialGems={initialGems} onRefresh={onRefresh} />
                 )}
             </div>
         </div>
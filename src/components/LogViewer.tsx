@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { fetchRange } from '../lib/transfers';
+import { AnsiSegment, AnsiStyle, parseAnsiLine, stripAnsi } from '../lib/ansi';
+
+interface LogViewerProps {
+  path: string;
+}
+
+const PAGE_BYTES = 128 * 1024;
+// Following keeps at most this many lines; older ones scroll away
+const MAX_FOLLOW_LINES = 10000;
+
+const inputClass = 'px-2 py-1 bg-gray-900 border border-gray-700 rounded text-xs text-gray-300 focus:outline-none focus:border-blue-500';
+const buttonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs text-gray-300 disabled:opacity-40';
+
+const segmentStyle = (style: AnsiStyle): React.CSSProperties => ({
+  color: style.color,
+  backgroundColor: style.background,
+  fontWeight: style.bold ? 'bold' : undefined,
+  opacity: style.dim ? 0.7 : undefined,
+  fontStyle: style.italic ? 'italic' : undefined,
+  textDecoration: style.underline ? 'underline' : undefined,
+});
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+/**
+ * Pages through a large text file by byte ranges, or follows it as it grows.
+ */
+export default function LogViewer({ path }: LogViewerProps) {
+  const [lines, setLines] = useState<string[]>([]);
+  const [range, setRange] = useState({ start: 0, end: 0 }); // Bytes shown, end exclusive
+  const [size, setSize] = useState(0);
+  const [following, setFollowing] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [jumpTo, setJumpTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const scroller = useRef<HTMLDivElement>(null);
+  const scrollToEnd = useRef(false);
+  // Text after the last newline received while following
+  const partialLine = useRef('');
+
+  /**
+   * Shows the whole lines within bytes `start` to `end` (exclusive). Partial lines at
+   * either edge are dropped, except at the start and end of the file.
+   */
+  const loadRange = useCallback(async (start: number, end: number = start + PAGE_BYTES) => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, size: total } = await fetchRange(path, start, Math.max(start, end - 1));
+      let first = 0;
+      if (start > 0) {
+        const newline = data.indexOf(0x0a);
+        first = newline >= 0 ? newline + 1 : 0;
+      }
+      let last = data.length;
+      if (start + data.length < total) {
+        const newline = data.lastIndexOf(0x0a);
+        if (newline >= first) last = newline + 1;
+      }
+      const text = new TextDecoder().decode(data.subarray(first, last));
+      const loaded = text.split('\n');
+      if (loaded[loaded.length - 1] === '') loaded.pop();
+      setLines(loaded);
+      setRange({ start: start + first, end: start + last });
+      setSize(total);
+      partialLine.current = '';
+    } catch (e) {
+      setError((e as Error).message || 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  }, [path]);
+
+  const loadTail = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { size: total } = await fetchRange(path, 0, 0);
+      scrollToEnd.current = true;
+      await loadRange(Math.max(0, total - PAGE_BYTES), total);
+    } catch (e) {
+      setError((e as Error).message || 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  }, [path, loadRange]);
+
+  // Logs are usually read from the end
+  useEffect(() => {
+    loadTail();
+  }, [loadTail]);
+
+  useEffect(() => {
+    if (scrollToEnd.current && scroller.current) {
+      scroller.current.scrollTop = scroller.current.scrollHeight;
+      scrollToEnd.current = false;
+    }
+  });
+
+  // Where the text shown ends, for the follow stream to start from
+  const rangeEnd = useRef(range.end);
+  useEffect(() => {
+    rangeEnd.current = range.end;
+  });
+
+  // Appends what the server streams while following
+  useEffect(() => {
+    if (!following) return;
+    const source = new EventSource(`/api/files/tail?${new URLSearchParams({ path, offset: String(rangeEnd.current) })}`);
+    source.onmessage = (event) => {
+      const text = partialLine.current + JSON.parse(event.data);
+      const added = text.split('\n');
+      partialLine.current = added.pop() ?? '';
+      const element = scroller.current;
+      // Keep scrolling along only if the user has not scrolled up to read
+      scrollToEnd.current = !!element && element.scrollHeight - element.scrollTop - element.clientHeight < 40;
+      if (added.length > 0) {
+        setLines(previous => [...previous, ...added].slice(-MAX_FOLLOW_LINES));
+      }
+      setRange(previous => ({ ...previous, end: Number(event.lastEventId) || previous.end }));
+      setSize(previous => Math.max(previous, Number(event.lastEventId) || 0));
+    };
+    source.addEventListener('truncated', () => {
+      partialLine.current = '';
+      setLines([]);
+      setRange({ start: 0, end: 0 });
+    });
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setError('Lost the connection while following the file');
+        setFollowing(false);
+      }
+    };
+    return () => source.close();
+    // Restarted only when following is switched on; the offset is where the page ended then
+  }, [following, path]);
+
+  const handleFollow = async () => {
+    if (following) {
+      setFollowing(false);
+      return;
+    }
+    await loadTail();
+    setFollowing(true);
+  };
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = jumpTo.trim();
+    const offset = value.endsWith('%') ? Math.floor((size * Number(value.slice(0, -1))) / 100) : Number(value);
+    if (!Number.isFinite(offset) || offset < 0) {
+      setError('Enter a byte offset or a percentage such as 50%');
+      return;
+    }
+    setFollowing(false);
+    loadRange(Math.min(offset, Math.max(0, size - 1)));
+  };
+
+  // Styles carry over from line to line, so every line is parsed even when filtered out
+  const rendered = useMemo(() => {
+    let style: AnsiStyle = {};
+    return lines.map(line => {
+      const result = parseAnsiLine(line, style);
+      style = result.style;
+      return { text: stripAnsi(line), segments: result.segments };
+    });
+  }, [lines]);
+
+  let pattern: RegExp | null = null;
+  let filterError = '';
+  try {
+    pattern = filter ? new RegExp(filter, 'i') : null;
+  } catch (e) {
+    filterError = (e as Error).message;
+  }
+  const matcher = pattern;
+  const visible: { text: string; segments: AnsiSegment[] }[] = matcher ? rendered.filter(line => matcher.test(line.text)) : rendered;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <button onClick={() => { setFollowing(false); loadRange(0); }} disabled={loading} className={buttonClass}>Head</button>
+        <button
+          onClick={() => { setFollowing(false); loadRange(Math.max(0, range.start - PAGE_BYTES), range.start); }}
+          disabled={loading || following || range.start === 0}
+          className={buttonClass}
+        >
+          Previous
+        </button>
+        <button onClick={() => { setFollowing(false); loadRange(range.end); }} disabled={loading || following || range.end >= size} className={buttonClass}>
+          Next
+        </button>
+        <button onClick={() => { setFollowing(false); loadTail(); }} disabled={loading} className={buttonClass}>Tail</button>
+        <form onSubmit={handleJump} className="flex items-center gap-1">
+          <input value={jumpTo} onChange={(e) => setJumpTo(e.target.value)} placeholder="Offset or %" className={`${inputClass} w-28`} />
+          <button type="submit" className={buttonClass}>Go</button>
+        </form>
+        <button
+          onClick={handleFollow}
+          className={`px-2 py-1 rounded text-xs ${following ? 'bg-green-700 hover:bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+        >
+          {following ? 'Following…' : 'Follow'}
+        </button>
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter (regular expression)"
+          className={`${inputClass} flex-1 min-w-[10rem] font-mono ${filterError ? 'border-red-500' : ''}`}
+          title={filterError}
+        />
+      </div>
+      <div className="text-xs text-gray-500 mb-2">
+        {size > 0 && `Bytes ${range.start.toLocaleString()}–${range.end.toLocaleString()} of ${formatBytes(size)}`}
+        {pattern && ` · ${visible.length} of ${lines.length} lines match`}
+        {error && <span className="text-red-400"> · {error}</span>}
+      </div>
+      <div ref={scroller} className={`flex-1 overflow-auto bg-gray-950 border border-gray-700 rounded p-3 ${loading ? 'opacity-50' : ''}`}>
+        <pre className="text-xs font-mono text-gray-300 leading-5">
+          {visible.map((line, i) => (
+            <div key={i} className="whitespace-pre-wrap break-all min-h-5">
+              {line.segments.map((segment, j) => (
+                <span key={j} style={segmentStyle(segment.style)}>{segment.text}</span>
+              ))}
+            </div>
+          ))}
+        </pre>
+        {!loading && lines.length === 0 && <div className="text-center text-gray-600 py-6">{following ? 'Waiting for output...' : 'Empty file'}</div>}
+      </div>
+    </div>
+  );
+}
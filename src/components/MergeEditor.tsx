@@ -0,0 +1,53 @@
+'use client';
+
+import { useRef, useEffect } from 'react';
+import { basicSetup } from 'codemirror';
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { MergeView } from '@codemirror/merge';
+import type { EditorLanguage } from '../lib/file-types';
+import { editorTheme, languageExtension } from '../lib/editor';
+
+interface MergeEditorProps {
+  // What is on the cluster now (read-only) and the user's version (editable)
+  theirs: string;
+  mine: string;
+  language: EditorLanguage | null;
+  onChange: (merged: string) => void;
+}
+
+/**
+ * Side-by-side diff of the cluster's version and the user's. The arrows between changes
+ * copy a change from the cluster's side into the user's.
+ */
+export default function MergeEditor({ theirs, mine, language, onChange }: MergeEditorProps) {
+  const container = useRef<HTMLDivElement>(null);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    if (!container.current) return;
+    const extensions = [basicSetup, languageExtension(language), editorTheme];
+    const merge = new MergeView({
+      parent: container.current,
+      a: { doc: theirs, extensions: [...extensions, EditorState.readOnly.of(true), EditorView.editable.of(false)] },
+      b: {
+        doc: mine,
+        extensions: [
+          ...extensions,
+          EditorView.updateListener.of(update => {
+            if (update.docChanged) onChangeRef.current(update.state.doc.toString());
+          }),
+        ],
+      },
+      revertControls: 'a-to-b',
+      collapseUnchanged: { margin: 3 },
+    });
+    return () => merge.destroy();
+  }, [theirs, mine, language]);
+
+  return <div ref={container} className="h-full overflow-auto" />;
+}
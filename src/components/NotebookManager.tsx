@@ -2,8 +2,10 @@
 
 import { useState, useEffect, useRef } from 'react';
 import ChatInterface from './ChatInterface';
-import { SSHCredentials } from '../lib/ssh';
-import {
+import * as notebookActions from '../app/notebook-actions';
+import { watchSession } from '../lib/session-expiry';
+
+const {
     submitNotebookJob,
     checkNotebookHealth,
     uploadNotebookFile,
@@ -13,14 +15,13 @@ import {
     startTunnelAction,
     checkNotebookJobStatus,
     stopNotebookJob
-} from '../app/notebook-actions';
+} = watchSession(notebookActions);
 
 interface NotebookManagerProps {
-    credentials: SSHCredentials;
     onRefresh?: () => void;
 }
 
-export default function NotebookManager({ credentials, onRefresh }: NotebookManagerProps) {
+export default function NotebookManager({ onRefresh }: NotebookManagerProps) {
     const [status, setStatus] = useState<'checking' | 'active' | 'inactive'>('checking');
     const [files, setFiles] = useState<{ name: string; length: number }[]>([]);
     const [uploading, setUploading] = useState(false);
@@ -33,14 +34,14 @@ export default function NotebookManager({ credentials, onRefresh }: NotebookMana
         const health = await checkNotebookHealth();
         if (health.status === 'ok') {
             setStatus('active');
-            refreshFiles();
+            refreshFiles(true);
         } else {
             setStatus('inactive');
         }
     };
 
-    const refreshFiles = async () => {
-        const res = await listNotebookFiles();
+    const refreshFiles = async (poll = false) => {
+        const res = await listNotebookFiles(poll);
         if (res.files) {
             setFiles(res.files);
         }
@@ -56,16 +57,16 @@ export default function NotebookManager({ credentials, onRefresh }: NotebookMana
 
     const handleStartServer = async () => {
         setStarting(true);
-        const result = await submitNotebookJob(credentials, modelId);
+        const result = await submitNotebookJob(modelId);
 
         if (result.success && result.jobId) {
             // Poll for job status
             const pollInterval = setInterval(async () => {
-                const statusRes = await checkNotebookJobStatus(credentials, result.jobId!);
+                const statusRes = await checkNotebookJobStatus(result.jobId!);
                 if (statusRes.success && statusRes.state === 'RUNNING' && statusRes.node) {
                     clearInterval(pollInterval);
                     // Job is running, start tunnel
-                    const tunnelRes = await startTunnelAction(credentials, statusRes.node);
+                    const tunnelRes = await startTunnelAction(statusRes.node);
                     if (tunnelRes.success) {
                         setStatus('active');
                         setStarting(false);
@@ -89,7 +90,7 @@ export default function NotebookManager({ credentials, onRefresh }: NotebookMana
     const handleStopServer = async () => {
         if (!confirm("Are you sure you want to stop the Notebook Server? This will terminate the Slurm job.")) return;
         setStopping(true);
-        const res = await stopNotebookJob(credentials);
+        const res = await stopNotebookJob();
         if (res.success) {
             setStatus('inactive');
             setFiles([]);
@@ -0,0 +1,72 @@
+'use client';
+
+import type { OperationInfo } from '../lib/operations';
+
+interface OperationPanelProps {
+  operations: OperationInfo[];
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const statusLabel: Record<OperationInfo['status'], string> = {
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+export default function OperationPanel({ operations, onCancel, onClearFinished }: OperationPanelProps) {
+  if (operations.length === 0) return null;
+
+  const running = operations.filter(op => op.status === 'running').length;
+
+  return (
+    <div className="mb-4 bg-gray-900 border border-gray-700 rounded">
+      <div className="flex justify-between items-center px-4 py-2 border-b border-gray-700">
+        <span className="text-sm font-medium text-gray-300">
+          Operations {running > 0 && <span className="text-gray-500">({running} running)</span>}
+        </span>
+        {running < operations.length && (
+          <button onClick={onClearFinished} className="text-xs text-gray-400 hover:text-white">
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-800">
+        {operations.map(op => {
+          // Progress is only known once the size of the sources has been measured
+          const percent = op.totalBytes ? Math.min(100, Math.floor((op.doneBytes / op.totalBytes) * 100)) : null;
+          return (
+            <li key={op.id} className="px-4 py-2 text-xs">
+              <div className="flex justify-between items-center gap-4">
+                <span className="font-mono text-gray-300 truncate" title={op.label}>{op.label}</span>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className={op.status === 'failed' ? 'text-red-400' : 'text-gray-500'}>
+                    {statusLabel[op.status]}
+                    {op.status === 'running' && op.totalBytes !== null && ` · ${formatBytes(op.doneBytes)} / ${formatBytes(op.totalBytes)}`}
+                  </span>
+                  {op.status === 'running' && (
+                    <button onClick={() => onCancel(op.id)} className="text-red-400 hover:text-red-300">Cancel</button>
+                  )}
+                </div>
+              </div>
+              <div className="mt-1 h-1 bg-gray-800 rounded overflow-hidden">
+                <div
+                  className={`h-full ${op.status === 'failed' ? 'bg-red-500' : op.status === 'done' ? 'bg-green-500' : 'bg-blue-500'} ${op.status === 'running' && percent === null ? 'animate-pulse' : ''}`}
+                  style={{ width: `${op.status === 'done' ? 100 : percent ?? 100}%` }}
+                />
+              </div>
+              {op.error && <div className="mt-1 text-red-400 whitespace-pre-wrap">{op.error}</div>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import * as actions from '../app/actions';
+import type { AclEntry, FileProperties, PermissionChanges } from '../lib/permissions';
+import { watchSession } from '../lib/session-expiry';
+
+const { getFileProperties, updateFileProperties } = watchSession(actions);
+
+interface PropertiesPanelProps {
+  path: string;
+  onClose: (changed: boolean) => void;
+}
+
+const PERMISSION_CLASSES: [string, number][] = [['Owner', 6], ['Group', 3], ['Other', 0]];
+const PERMISSION_BITS: [string, number][] = [['Read', 4], ['Write', 2], ['Execute', 1]];
+
+const aclKey = (entry: AclEntry) => `${entry.isDefault ? 'default:' : ''}${entry.type}:${entry.qualifier}`;
+
+const describeAcl = (entry: AclEntry) => {
+  const who = entry.qualifier ? `${entry.type} ${entry.qualifier}` : entry.type === 'user' ? 'owner' : entry.type === 'group' ? 'owning group' : entry.type;
+  return entry.isDefault ? `default ${who}` : who;
+};
+
+export default function PropertiesPanel({ path, onClose }: PropertiesPanelProps) {
+  const [properties, setProperties] = useState<FileProperties | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [changed, setChanged] = useState(false);
+
+  // Edits, applied together on save
+  const [mode, setMode] = useState(0);
+  const [group, setGroup] = useState('');
+  const [recursive, setRecursive] = useState(false);
+  const [aclRemove, setAclRemove] = useState<AclEntry[]>([]);
+  const [aclAdd, setAclAdd] = useState<AclEntry[]>([]);
+  const [newEntry, setNewEntry] = useState<AclEntry>({ isDefault: false, type: 'user', qualifier: '', permissions: 'r--' });
+
+  const loadProperties = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getFileProperties(path);
+      if (result.success && result.properties) {
+        setProperties(result.properties);
+        setMode(result.properties.mode);
+        setGroup(result.properties.group);
+        setAclRemove([]);
+        setAclAdd([]);
+      } else {
+        setError(result.error || 'Failed to load properties');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [path]);
+
+  useEffect(() => {
+    loadProperties();
+  }, [loadProperties]);
+
+  const toggleBit = (bit: number) => setMode(mode ^ bit);
+
+  const handleAddEntry = () => {
+    if (!newEntry.qualifier.trim()) return;
+    const entry = { ...newEntry, qualifier: newEntry.qualifier.trim() };
+    setAclAdd([...aclAdd.filter(e => aclKey(e) !== aclKey(entry)), entry]);
+    setNewEntry({ ...newEntry, qualifier: '' });
+  };
+
+  const toggleNewPermission = (index: number, letter: string) => {
+    const letters = newEntry.permissions.split('');
+    letters[index] = letters[index] === '-' ? letter : '-';
+    setNewEntry({ ...newEntry, permissions: letters.join('') });
+  };
+
+  const handleSave = async () => {
+    if (!properties) return;
+    const changes: PermissionChanges = { recursive };
+    if (mode !== properties.mode) changes.mode = mode;
+    if (group !== properties.group) changes.group = group;
+    if (aclRemove.length > 0) changes.aclRemove = aclRemove;
+    if (aclAdd.length > 0) changes.aclAdd = aclAdd;
+    // A recursive save re-applies the current mode, so files inside end up matching
+    if (recursive && changes.mode === undefined) changes.mode = mode;
+    if (recursive && !window.confirm(`Apply these permissions to everything inside ${properties.path}?`)) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const result = await updateFileProperties(properties.path, changes);
+      if (result.success) {
+        setChanged(true);
+        setRecursive(false);
+        await loadProperties();
+      } else {
+        setError(result.error || 'Failed to change permissions');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const aclEntries = (properties?.acl ?? [])
+    .filter(entry => !aclRemove.some(removed => aclKey(removed) === aclKey(entry)) && !aclAdd.some(added => aclKey(added) === aclKey(entry)))
+    .concat(aclAdd);
+  const dirty = properties !== null && (mode !== properties.mode || group !== properties.group || aclRemove.length > 0 || aclAdd.length > 0 || recursive);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-6">
+      <div className="bg-gray-800 w-full max-w-2xl max-h-[85vh] overflow-y-auto rounded-lg shadow-2xl border border-gray-700 p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div className="min-w-0">
+            <h4 className="text-lg font-semibold text-white">Properties</h4>
+            <p className="text-xs font-mono text-gray-500 truncate" title={properties?.path ?? path}>{properties?.path ?? path}</p>
+          </div>
+          <div className="flex space-x-2 shrink-0">
+            <button
+              onClick={handleSave}
+              disabled={!dirty || saving}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-sm text-white transition-colors disabled:opacity-40"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => onClose(changed)}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-300 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded mb-4 whitespace-pre-wrap">
+            {error}
+          </div>
+        )}
+
+        {loading && !properties ? (
+          <div className="text-center py-12 text-gray-500 animate-pulse">Loading properties...</div>
+        ) : properties && (
+          <div className="space-y-6 text-sm text-gray-300">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-xs uppercase text-gray-500">Owner</span>
+                <div className="mt-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded">{properties.owner}</div>
+              </label>
+              <label className="block">
+                <span className="text-xs uppercase text-gray-500">Group</span>
+                <select
+                  value={group}
+                  onChange={(e) => setGroup(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded text-gray-300 focus:outline-none focus:border-blue-500"
+                >
+                  {[...new Set([properties.group, ...properties.groups])].map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-xs uppercase text-gray-500">Permissions</span>
+                <span className="font-mono text-xs text-gray-400">{mode.toString(8).padStart(4, '0')}</span>
+              </div>
+              <table className="w-full text-left">
+                <thead className="bg-gray-700/50 uppercase text-xs">
+                  <tr>
+                    <th className="px-4 py-2 rounded-tl-lg"></th>
+                    {PERMISSION_BITS.map(([label], i) => (
+                      <th key={label} className={`px-4 py-2 text-center ${i === PERMISSION_BITS.length - 1 ? 'rounded-tr-lg' : ''}`}>{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {PERMISSION_CLASSES.map(([label, shift]) => (
+                    <tr key={label}>
+                      <td className="px-4 py-2">{label}</td>
+                      {PERMISSION_BITS.map(([bitLabel, bit]) => (
+                        <td key={bitLabel} className="px-4 py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={(mode & (bit << shift)) !== 0}
+                            onChange={() => toggleBit(bit << shift)}
+                            className="accent-blue-500"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {properties.isDirectory && (
+                <div className="mt-3 space-y-1 text-xs text-gray-400">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={(mode & 0o2000) !== 0} onChange={() => toggleBit(0o2000)} className="accent-blue-500" />
+                    Set group ID (new files inherit the folder&apos;s group)
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={(mode & 0o1000) !== 0} onChange={() => toggleBit(0o1000)} className="accent-blue-500" />
+                    Sticky (only owners can delete or rename their files)
+                  </label>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <span className="text-xs uppercase text-gray-500">Access Control List</span>
+              {properties.acl === null ? (
+                <p className="mt-2 text-xs text-gray-500">ACLs are not available for this file (getfacl is missing or the file system does not support them).</p>
+              ) : (
+                <>
+                  <table className="mt-2 w-full text-left">
+                    <tbody className="divide-y divide-gray-700">
+                      {aclEntries.map(entry => (
+                        <tr key={aclKey(entry)}>
+                          <td className="px-4 py-2">{describeAcl(entry)}</td>
+                          <td className="px-4 py-2 font-mono text-xs">{entry.permissions}</td>
+                          <td className="px-4 py-2 text-right">
+                            {entry.qualifier && (
+                              <button
+                                onClick={() => {
+                                  setAclAdd(aclAdd.filter(e => aclKey(e) !== aclKey(entry)));
+                                  if (properties.acl?.some(e => aclKey(e) === aclKey(entry))) setAclRemove([...aclRemove, entry]);
+                                }}
+                                className="text-red-400 hover:text-red-300 text-xs"
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                    <select
+                      value={newEntry.type}
+                      onChange={(e) => setNewEntry({ ...newEntry, type: e.target.value as 'user' | 'group' })}
+                      className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-gray-300"
+                    >
+                      <option value="user">User</option>
+                      <option value="group">Group</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={newEntry.qualifier}
+                      onChange={(e) => setNewEntry({ ...newEntry, qualifier: e.target.value })}
+                      placeholder="Name"
+                      className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-gray-300 focus:outline-none focus:border-blue-500"
+                    />
+                    {['r', 'w', 'x'].map((letter, i) => (
+                      <label key={letter} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={newEntry.permissions[i] !== '-'}
+                          onChange={() => toggleNewPermission(i, letter)}
+                          className="accent-blue-500"
+                        />
+                        {letter}
+                      </label>
+                    ))}
+                    {properties.isDirectory && (
+                      <label className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={newEntry.isDefault}
+                          onChange={(e) => setNewEntry({ ...newEntry, isDefault: e.target.checked })}
+                          className="accent-blue-500"
+                        />
+                        Default for new files
+                      </label>
+                    )}
+                    <button onClick={handleAddEntry} disabled={!newEntry.qualifier.trim()} className="text-blue-400 hover:text-blue-300 disabled:opacity-40">
+                      Add
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {properties.isDirectory && (
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input type="checkbox" checked={recursive} onChange={(e) => setRecursive(e.target.checked)} className="accent-blue-500" />
+                Apply to everything inside this folder (execute is only kept on folders and files that are already executable)
+              </label>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
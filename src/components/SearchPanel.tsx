@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import type { SearchEvent, SearchMode, SearchResult, SearchType } from '../lib/search';
+import { checkResponse } from '../lib/session-expiry';
+
+interface SearchPanelProps {
+  rootPath: string;
+  onOpenFile: (path: string, line?: number) => void;
+  onOpenFolder: (path: string) => void;
+  onClose: () => void;
+}
+
+type SearchSummary = Extract<SearchEvent, { type: 'done' }>;
+
+const inputClass = 'px-2 py-1 bg-gray-900 border border-gray-700 rounded text-sm text-gray-300 focus:outline-none focus:border-blue-500';
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const formatDate = (ms: number) => new Date(ms).toLocaleString(undefined, {
+  year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+});
+
+// Sizes are entered in MB
+const toBytes = (mb: string) => mb.trim() ? String(Math.round(Number(mb) * 1024 * 1024)) : '';
+
+export default function SearchPanel({ rootPath, onOpenFile, onOpenFolder, onClose }: SearchPanelProps) {
+  const [mode, setMode] = useState<SearchMode>('name');
+  const [pattern, setPattern] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [type, setType] = useState<SearchType>('any');
+  const [minSize, setMinSize] = useState('');
+  const [maxSize, setMaxSize] = useState('');
+  const [within, setWithin] = useState('');
+  const [notWithin, setNotWithin] = useState('');
+  const [fixedString, setFixedString] = useState(false);
+  const [include, setInclude] = useState('');
+
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<SearchSummary | null>(null);
+  const [error, setError] = useState('');
+  const controller = useRef<AbortController | null>(null);
+
+  // Stop the search when the panel closes
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const relative = (path: string) => path.startsWith(`${rootPath}/`) ? path.slice(rootPath.length + 1) : path;
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    controller.current?.abort();
+    const abort = new AbortController();
+    controller.current = abort;
+
+    const params = new URLSearchParams({ path: rootPath, mode, pattern, case: caseSensitive ? '1' : '0' });
+    if (mode === 'name') {
+      params.set('type', type);
+      params.set('minSize', toBytes(minSize));
+      params.set('maxSize', toBytes(maxSize));
+      params.set('within', within);
+      params.set('notWithin', notWithin);
+    } else {
+      params.set('fixed', fixedString ? '1' : '0');
+      params.set('include', include);
+    }
+
+    setResults([]);
+    setSummary(null);
+    setError('');
+    setRunning(true);
+    try {
+      const response = checkResponse(await fetch(`/api/files/search?${params}`, { signal: abort.signal }));
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `${response.status} ${response.statusText}`);
+      }
+      // Newline-delimited JSON: render each batch of results as it arrives
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let pending = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const lines = (pending + value).split('\n');
+        pending = lines.pop() ?? '';
+        const batch: SearchResult[] = [];
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as SearchEvent;
+          if (event.type === 'result') {
+            batch.push(event.result);
+          } else {
+            setSummary(event);
+          }
+        }
+        if (batch.length > 0) setResults(previous => [...previous, ...batch]);
+      }
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        setError((e as Error).message || 'Search failed');
+      }
+    } finally {
+      if (controller.current === abort) {
+        controller.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    controller.current?.abort();
+  };
+
+  const handleOpen = (result: SearchResult) => {
+    if (result.type === 'directory') {
+      onOpenFolder(result.path);
+    } else {
+      onOpenFile(result.path, result.line);
+    }
+  };
+
+  return (
+    <div className="mb-4 bg-gray-900 border border-gray-700 rounded">
+      <form onSubmit={handleSearch} className="p-4 space-y-3 border-b border-gray-700">
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={mode} onChange={(e) => setMode(e.target.value as SearchMode)} className={inputClass}>
+            <option value="name">File names</option>
+            <option value="content">File contents</option>
+          </select>
+          <input
+            type="text"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder={mode === 'name' ? 'Name pattern, e.g. *.csv' : fixedString ? 'Text' : 'Regular expression'}
+            className={`${inputClass} flex-1 min-w-[12rem] font-mono`}
+            autoFocus
+          />
+          {running ? (
+            <button type="button" onClick={handleStop} className="px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-sm text-white transition-colors">
+              Stop
+            </button>
+          ) : (
+            <button type="submit" className="px-3 py-1 bg-blue-600 hover:bg-blue-500 rounded text-sm text-white transition-colors">
+              Search
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-300 transition-colors">
+            Close
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-400">
+          <span className="font-mono truncate max-w-xs" title={rootPath}>in {rootPath}</span>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} className="accent-blue-500" />
+            Match case
+          </label>
+          {mode === 'name' ? (
+            <>
+              <label className="flex items-center gap-1">
+                Type
+                <select value={type} onChange={(e) => setType(e.target.value as SearchType)} className={inputClass}>
+                  <option value="any">Any</option>
+                  <option value="file">Files</option>
+                  <option value="directory">Folders</option>
+                  <option value="symlink">Links</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                Size (MB)
+                <input type="number" min="0" step="any" value={minSize} onChange={(e) => setMinSize(e.target.value)} placeholder="min" className={`${inputClass} w-20`} />
+                –
+                <input type="number" min="0" step="any" value={maxSize} onChange={(e) => setMaxSize(e.target.value)} placeholder="max" className={`${inputClass} w-20`} />
+              </label>
+              <label className="flex items-center gap-1">
+                Modified in the last
+                <input type="number" min="0" step="any" value={within} onChange={(e) => setWithin(e.target.value)} className={`${inputClass} w-16`} />
+                days
+              </label>
+              <label className="flex items-center gap-1">
+                Not in the last
+                <input type="number" min="0" step="any" value={notWithin} onChange={(e) => setNotWithin(e.target.value)} className={`${inputClass} w-16`} />
+                days
+              </label>
+            </>
+          ) : (
+            <>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={fixedString} onChange={(e) => setFixedString(e.target.checked)} className="accent-blue-500" />
+                Plain text (not a regular expression)
+              </label>
+              <label className="flex items-center gap-1">
+                Only files named
+                <input type="text" value={include} onChange={(e) => setInclude(e.target.value)} placeholder="*.py" className={`${inputClass} w-24 font-mono`} />
+              </label>
+            </>
+          )}
+        </div>
+      </form>
+
+      {error && <div className="px-4 py-2 text-sm text-red-300 bg-red-900/30">{error}</div>}
+
+      {(running || summary || results.length > 0) && (
+        <>
+          <div className="px-4 py-2 text-xs text-gray-500 border-b border-gray-800">
+            {running ? `Searching... ${results.length} found` : `${results.length} found`}
+            {summary?.truncated && ` · only the first ${summary.count} results are shown, narrow the search to see more`}
+            {summary?.timedOut && ' · the search took too long and was stopped, results may be incomplete'}
+            {summary?.error && <span className="text-red-400"> · {summary.error}</span>}
+          </div>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-800 text-sm">
+            {results.map((result, i) => (
+              <li
+                key={`${result.path}:${result.line ?? ''}:${i}`}
+                onClick={() => handleOpen(result)}
+                className="px-4 py-2 hover:bg-gray-800 cursor-pointer"
+              >
+                <div className="flex justify-between gap-4">
+                  <span className="font-mono text-gray-300 truncate" title={result.path}>
+                    {relative(result.path)}{result.type === 'directory' && '/'}
+                    {result.line !== undefined && <span className="text-gray-500">:{result.line}</span>}
+                  </span>
+                  {result.mtime !== undefined && (
+                    <span className="text-xs text-gray-500 shrink-0">
+                      {result.type === 'file' && `${formatSize(result.size ?? 0)} · `}{formatDate(result.mtime)}
+                    </span>
+                  )}
+                </div>
+                {result.text !== undefined && (
+                  <div className="font-mono text-xs text-gray-400 truncate whitespace-pre">{result.text}</div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { fetchRange } from '../lib/transfers';
+import { tableDelimiter } from '../lib/file-types';
+
+interface TablePreviewProps {
+  path: string;
+}
+
+// Each page is one byte range of the file, cut back to the last complete line
+const PAGE_BYTES = 256 * 1024;
+
+interface Page {
+  offset: number;
+  firstRow: number; // Number of data rows before this page
+}
+
+/**
+ * Splits delimited text into rows, honouring double-quoted fields (which may contain the
+ * delimiter, newlines and "" escapes).
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const compareCells = (a = '', b = '') => {
+  const x = Number(a);
+  const y = Number(b);
+  if (a.trim() && b.trim() && !Number.isNaN(x) && !Number.isNaN(y)) return x - y;
+  return a.localeCompare(b, undefined, { numeric: true });
+};
+
+export default function TablePreview({ path }: TablePreviewProps) {
+  const [header, setHeader] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [pages, setPages] = useState<Page[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [size, setSize] = useState(0);
+  const [sort, setSort] = useState<{ column: number; descending: boolean } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadPage = useCallback(async (page: Page, history: Page[]) => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, size: total } = await fetchRange(path, page.offset, page.offset + PAGE_BYTES - 1);
+      const atEnd = page.offset + data.length >= total;
+      // Stop after the last newline so no row (or UTF-8 character) is cut in half
+      let cut = atEnd ? data.length : data.lastIndexOf(0x0a) + 1;
+      if (cut === 0) cut = data.length;
+      let parsed = parseDelimited(new TextDecoder().decode(data.subarray(0, cut)), tableDelimiter(path));
+      if (page.offset === 0) {
+        setHeader(parsed[0] ?? []);
+        parsed = parsed.slice(1);
+      }
+      setRows(parsed);
+      setSize(total);
+      setNextOffset(atEnd && cut === data.length ? null : page.offset + cut);
+      setPages([...history, page]);
+      setSort(null);
+    } catch (e) {
+      setError((e as Error).message || 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  }, [path]);
+
+  useEffect(() => {
+    loadPage({ offset: 0, firstRow: 0 }, []);
+  }, [loadPage]);
+
+  const current = pages[pages.length - 1];
+  const columns = Math.max(header.length, ...rows.slice(0, 100).map(row => row.length));
+  const sorted = sort
+    ? [...rows].sort((a, b) => (sort.descending ? -1 : 1) * compareCells(a[sort.column], b[sort.column]))
+    : rows;
+
+  const handleSort = (column: number) => {
+    setSort(sort?.column === column ? (sort.descending ? null : { column, descending: true }) : { column, descending: false });
+  };
+
+  if (error) {
+    return <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded">{error}</div>;
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex justify-between items-center mb-2 text-xs text-gray-400">
+        <span>
+          {current && rows.length > 0 && `Rows ${current.firstRow + 1}–${current.firstRow + rows.length}`}
+          {size > 0 && current && ` · ${Math.round(((nextOffset ?? size) / size) * 100)}% of the file`}
+          {sort && ' · sorted within this page'}
+        </span>
+        <div className="space-x-2">
+          <button
+            onClick={() => loadPage(pages[pages.length - 2], pages.slice(0, -2))}
+            disabled={loading || pages.length < 2}
+            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 disabled:opacity-40"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => nextOffset !== null && loadPage({ offset: nextOffset, firstRow: current.firstRow + rows.length }, pages)}
+            disabled={loading || nextOffset === null}
+            className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-gray-300 disabled:opacity-40"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+      <div className={`flex-1 overflow-auto border border-gray-700 rounded ${loading ? 'opacity-50' : ''}`}>
+        <table className="text-left text-xs text-gray-300 font-mono">
+          <thead className="bg-gray-700 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-gray-500">#</th>
+              {Array.from({ length: columns }, (_, i) => (
+                <th key={i} onClick={() => handleSort(i)} className="px-3 py-2 whitespace-nowrap cursor-pointer hover:text-white">
+                  {header[i] ?? `Column ${i + 1}`}
+                  {sort?.column === i && (sort.descending ? ' ▼' : ' ▲')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {sorted.map((row, i) => (
+              <tr key={i} className="hover:bg-gray-800/50">
+                <td className="px-3 py-1 text-gray-600">{sort ? '' : (current?.firstRow ?? 0) + i + 1}</td>
+                {Array.from({ length: columns }, (_, j) => (
+                  <td key={j} className="px-3 py-1 whitespace-nowrap max-w-xs truncate" title={row[j]}>{row[j]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!loading && rows.length === 0 && <div className="p-6 text-center text-gray-500">No rows</div>}
+      </div>
+    </div>
+  );
+}
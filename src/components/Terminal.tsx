@@ -1,17 +1,17 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { runTerminalCommand } from '../app/actions';
+import * as actions from '../app/actions';
+import type { SessionUser } from '../lib/session';
+import { watchSession } from '../lib/session-expiry';
+
+const { runTerminalCommand } = watchSession(actions);
 
 interface TerminalProps {
-  credentials: {
-      host: string;
-      username: string;
-      password?: string;
-  };
+  user: SessionUser;
 }
 
-export default function Terminal({ credentials }: TerminalProps) {
+export default function Terminal({ user }: TerminalProps) {
   const [history, setHistory] = useState<{command: string, output: string}[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
@@ -33,7 +33,7 @@ export default function Terminal({ credentials }: TerminalProps) {
     // Optimistic update
     setHistory(prev => [...prev, { command, output: '' }]);
 
-    const result = await runTerminalCommand(credentials, command, cwd);
+    const result = await runTerminalCommand(command, cwd);
     
     setHistory(prev => {
         const newHistory = [...prev];
@@ -55,7 +55,7 @@ export default function Terminal({ credentials }: TerminalProps) {
          <div className="w-3 h-3 rounded-full bg-red-500"></div>
          <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
          <div className="w-3 h-3 rounded-full bg-green-500"></div>
-         <span className="ml-4 text-gray-400 text-xs">kamiak-console � {credentials.username}@{credentials.host}</span>
+         <span className="ml-4 text-gray-400 text-xs">kamiak-console � {user.username}@{user.host}</span>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-2">
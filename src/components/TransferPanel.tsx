@@ -0,0 +1,81 @@
+'use client';
+
+import { Transfer } from '../lib/transfers';
+
+interface TransferPanelProps {
+  transfers: Transfer[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const statusLabel: Record<Transfer['status'], string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+export default function TransferPanel({ transfers, onPause, onResume, onCancel, onClearFinished }: TransferPanelProps) {
+  if (transfers.length === 0) return null;
+
+  const active = transfers.filter(t => t.status === 'queued' || t.status === 'uploading').length;
+  const hasFinished = transfers.some(t => t.status === 'done' || t.status === 'cancelled');
+
+  return (
+    <div className="mb-4 bg-gray-900 border border-gray-700 rounded">
+      <div className="flex justify-between items-center px-4 py-2 border-b border-gray-700">
+        <span className="text-sm font-medium text-gray-300">
+          Uploads {active > 0 && <span className="text-gray-500">({active} in progress)</span>}
+        </span>
+        {hasFinished && (
+          <button onClick={onClearFinished} className="text-xs text-gray-400 hover:text-white">
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-800">
+        {transfers.map(transfer => {
+          const percent = transfer.size > 0 ? Math.floor((transfer.loaded / transfer.size) * 100) : (transfer.status === 'done' ? 100 : 0);
+          return (
+            <li key={transfer.id} className="px-4 py-2 text-xs">
+              <div className="flex justify-between items-center gap-4">
+                <span className="font-mono text-gray-300 truncate" title={transfer.target}>{transfer.name}</span>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className={transfer.status === 'error' ? 'text-red-400' : 'text-gray-500'}>
+                    {statusLabel[transfer.status]} &middot; {formatBytes(transfer.loaded)} / {formatBytes(transfer.size)}
+                  </span>
+                  {transfer.status === 'uploading' && (
+                    <button onClick={() => onPause(transfer.id)} className="text-gray-400 hover:text-white">Pause</button>
+                  )}
+                  {(transfer.status === 'paused' || transfer.status === 'error') && (
+                    <button onClick={() => onResume(transfer.id)} className="text-blue-400 hover:text-blue-300">Resume</button>
+                  )}
+                  {transfer.status !== 'done' && transfer.status !== 'cancelled' && (
+                    <button onClick={() => onCancel(transfer.id)} className="text-red-400 hover:text-red-300">Cancel</button>
+                  )}
+                </div>
+              </div>
+              <div className="mt-1 h-1 bg-gray-800 rounded overflow-hidden">
+                <div
+                  className={`h-full ${transfer.status === 'error' ? 'bg-red-500' : transfer.status === 'done' ? 'bg-green-500' : 'bg-blue-500'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              {transfer.error && <div className="mt-1 text-red-400">{transfer.error}</div>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
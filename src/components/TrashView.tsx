@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import * as actions from '../app/actions';
+import type { TrashItem } from '../lib/trash';
+import { watchSession } from '../lib/session-expiry';
+
+const { getTrash, restoreTrashItem, purgeTrashItems } = watchSession(actions);
+
+interface TrashViewProps {
+  onClose: () => void;
+}
+
+const formatDate = (ms: number) => new Date(ms).toLocaleString(undefined, {
+  year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+});
+
+export default function TrashView({ onClose }: TrashViewProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadTrash = async () => {
+    setLoading(true);
+    try {
+      const result = await getTrash();
+      if (result.success) {
+        setItems(result.items);
+        setRetentionDays(result.retentionDays);
+      } else {
+        setError(result.error || 'Failed to load the trash');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    setError('');
+    setMessage('');
+    let result = await restoreTrashItem(item.id);
+    if (result.conflict) {
+      const target = window.prompt(`${item.originalPath} already exists. Restore to a different path:`, `${item.originalPath}.restored`);
+      if (!target) return;
+      result = await restoreTrashItem(item.id, target);
+    }
+    if (result.success) {
+      setMessage(`Restored ${result.path}`);
+      loadTrash();
+    } else {
+      setError(result.error || 'Failed to restore');
+    }
+  };
+
+  const handlePurge = async (item?: TrashItem) => {
+    const question = item
+      ? `Permanently delete ${item.name}? This cannot be undone.`
+      : `Permanently delete all ${items.length} items in the trash? This cannot be undone.`;
+    if (!window.confirm(question)) return;
+    setError('');
+    setMessage('');
+    const result = await purgeTrashItems(item ? [item.id] : undefined);
+    if (!result.success) setError(result.error || 'Failed to delete');
+    loadTrash();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-6">
+      <div className="bg-gray-800 w-full max-w-4xl max-h-[80vh] overflow-y-auto rounded-lg shadow-2xl border border-gray-700 p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h4 className="text-lg font-semibold text-white">Trash</h4>
+            <p className="text-xs text-gray-500">
+              Deleted items are kept in ~/.kamiak-gui/trash on the cluster
+              {retentionDays > 0 && ` and removed for good after ${retentionDays} days`}.
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handlePurge()}
+              disabled={items.length === 0}
+              className="px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-sm text-white transition-colors disabled:opacity-40"
+            >
+              Empty Trash
+            </button>
+            <button
+              onClick={onClose}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm text-gray-300 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded mb-4">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-900/30 border border-green-700 text-green-200 p-3 rounded mb-4 text-sm">
+            {message}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12 text-gray-500 animate-pulse">Loading trash...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-gray-300">
+              <thead className="bg-gray-700/50 uppercase text-xs">
+                <tr>
+                  <th className="px-4 py-3 rounded-tl-lg">Name</th>
+                  <th className="px-4 py-3">Original Location</th>
+                  <th className="px-4 py-3">Deleted</th>
+                  <th className="px-4 py-3 rounded-tr-lg"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {items.map(item => (
+                  <tr key={item.id} className="hover:bg-gray-800/50">
+                    <td className="px-4 py-3 font-medium text-white">
+                      {item.name}{item.isDirectory && '/'}
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs text-gray-400">{item.originalPath}</td>
+                    <td className="px-4 py-3 text-xs text-gray-400">{formatDate(item.deletedAt)}</td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap space-x-3">
+                      <button onClick={() => handleRestore(item)} className="text-blue-400 hover:text-blue-300 text-xs">Restore</button>
+                      <button onClick={() => handlePurge(item)} className="text-red-400 hover:text-red-300 text-xs">Delete Forever</button>
+                    </td>
+                  </tr>
+                ))}
+                {items.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-8 text-center text-gray-500">
+                      The trash is empty
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+// Turns terminal output with ANSI colour codes (as written by many tools into Slurm logs)
+// into styled segments for display.
+
+export interface AnsiStyle {
+  color?: string;
+  background?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+// xterm's default palette: the 8 normal colours, then the 8 bright ones
+const PALETTE = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff',
+];
+
+// CSI sequences (colours, cursor movement, erase) and OSC sequences (window titles, links)
+const ESCAPE = /\x1b\[([0-9;?]*)([A-Za-z])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)?/g;
+
+function color256(index: number): string {
+  if (index < 16) return PALETTE[index];
+  if (index >= 232) {
+    const level = 8 + (index - 232) * 10;
+    return `rgb(${level},${level},${level})`;
+  }
+  const cube = index - 16;
+  const level = (n: number) => (n === 0 ? 0 : 55 + n * 40);
+  return `rgb(${level(Math.floor(cube / 36))},${level(Math.floor(cube / 6) % 6)},${level(cube % 6)})`;
+}
+
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+  const next = { ...style };
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i];
+    if (code === 0) {
+      for (const key of Object.keys(next) as (keyof AnsiStyle)[]) delete next[key];
+    } else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code >= 30 && code <= 37) next.color = PALETTE[code - 30];
+    else if (code >= 90 && code <= 97) next.color = PALETTE[code - 90 + 8];
+    else if (code >= 40 && code <= 47) next.background = PALETTE[code - 40];
+    else if (code >= 100 && code <= 107) next.background = PALETTE[code - 100 + 8];
+    else if (code === 39) delete next.color;
+    else if (code === 49) delete next.background;
+    else if (code === 38 || code === 48) {
+      // 38;5;n (256 colours) or 38;2;r;g;b (true colour)
+      const key = code === 38 ? 'color' : 'background';
+      if (params[i + 1] === 5) {
+        next[key] = color256(params[i + 2] ?? 0);
+        i += 2;
+      } else if (params[i + 1] === 2) {
+        next[key] = `rgb(${params[i + 2] ?? 0},${params[i + 3] ?? 0},${params[i + 4] ?? 0})`;
+        i += 4;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Splits one line into styled segments. `style` is the style in effect at the start of the
+ * line (colours can carry over from earlier lines); the style at its end is returned.
+ * A carriage return starts the line over, so progress bars show their final state.
+ */
+export function parseAnsiLine(line: string, style: AnsiStyle = {}): { segments: AnsiSegment[]; style: AnsiStyle } {
+  const visible = line.slice(line.lastIndexOf('\r', line.length - 2) + 1).replace(/\r$/, '');
+  const segments: AnsiSegment[] = [];
+  let current = style;
+  let last = 0;
+  for (const match of visible.matchAll(ESCAPE)) {
+    if (match.index > last) segments.push({ text: visible.slice(last, match.index), style: current });
+    if (match[2] === 'm') {
+      current = applySgr(current, (match[1] || '0').split(';').map(Number));
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < visible.length) segments.push({ text: visible.slice(last), style: current });
+  return { segments, style: current };
+}
+
+// The text of a line without escape sequences, e.g. for filtering
+export function stripAnsi(line: string): string {
+  return line.replace(ESCAPE, '');
+}
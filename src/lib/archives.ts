@@ -0,0 +1,186 @@
+import posixPath from 'path/posix';
+import { StringDecoder } from 'string_decoder';
+import { SSHCredentials, streamCommand } from './ssh';
+import { ShellArgumentError, path as shellPath, raw, sh } from './shell';
+import { ArchiveFormat, CREATABLE_ARCHIVE_FORMATS, archiveFormat } from './file-types';
+import { monitoredScript, sizeOf } from './operations';
+
+/**
+ * tar and zip archives on the cluster. Creating and extracting run as background operations
+ * (see operations.ts); listing streams the archive's table of contents to the browser.
+ */
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  isDirectory: boolean;
+  // As the archive records it, in the cluster's local time
+  modified: string;
+  // Target of a symbolic or hard link
+  link?: string;
+}
+
+export type ArchiveEvent =
+  | { type: 'entry'; entry: ArchiveEntry }
+  | { type: 'done'; count: number; truncated: boolean; error?: string };
+
+const MAX_ENTRIES = 5000;
+
+// tar's flags for each compression; zstd is run as an external program because older tars
+// have no --zstd
+const TAR_COMPRESSION: Record<Exclude<ArchiveFormat, 'zip'>, string[]> = {
+  tar: [],
+  'tar.gz': ['-z'],
+  'tar.bz2': ['-j'],
+  'tar.xz': ['-J'],
+  'tar.zst': ['--use-compress-program=zstd -T0'],
+};
+
+// Bytes the worker has read so far, which for archiving is the size of its input
+const BYTES_READ = `awk '/^rchar/ { print $2 }' /proc/$pid/io 2>/dev/null`;
+// How far the worker is through the file on its standard input, even when a decompressor
+// child does the reading
+const INPUT_POSITION = `awk '/^pos/ { print $2 }' /proc/$pid/fdinfo/0 2>/dev/null`;
+
+function requireFormat(name: string): ArchiveFormat {
+  const format = archiveFormat(name);
+  if (!format) {
+    throw new ShellArgumentError(`${posixPath.basename(name)} is not a tar or zip archive`);
+  }
+  return format;
+}
+
+/**
+ * Script that packs `names` (entries of `dir`) into `dir/archiveName`. The archive is
+ * written under a hidden name and only renamed once it is complete.
+ */
+export function createArchiveScript(dir: string, names: string[], archiveName: string): string {
+  const format = requireFormat(archiveName);
+  if (!CREATABLE_ARCHIVE_FORMATS.includes(format)) {
+    throw new ShellArgumentError(`Archives can be created as ${CREATABLE_ARCHIVE_FORMATS.map(f => `.${f}`).join(', ')}`);
+  }
+  if (archiveName.includes('/')) {
+    throw new ShellArgumentError('The archive name cannot contain "/"');
+  }
+  if (names.length === 0 || names.some(name => !name || name.includes('/') || name === '.' || name === '..')) {
+    throw new ShellArgumentError('Select files in the current folder to archive');
+  }
+
+  const partial = shellPath(`.${archiveName}.partial`);
+  const sources = names.map(name => shellPath(name));
+  const work = format === 'zip'
+    ? sh`zip -r -q -y ${partial} ${sources}`
+    : sh`tar -c ${TAR_COMPRESSION[format]} -f ${partial} -- ${sources}`;
+  const finish = sh`if [ $exit_code -eq 0 ]; then mv -f -- ${partial} ${shellPath(archiveName)} || exit_code=$?; else rm -f -- ${partial}; fi`;
+  return [
+    sh`cd ${shellPath(dir)} || exit 1`,
+    sh`rm -f -- ${partial}`,
+    monitoredScript(work, sizeOf(sources), BYTES_READ, finish),
+  ].join('\n');
+}
+
+/**
+ * Script that unpacks the archive at `archivePath` into the folder it is in, replacing
+ * files with the same names.
+ */
+export function extractArchiveScript(archivePath: string): string {
+  const format = requireFormat(archivePath);
+  // Named from inside its folder, since the script cd's there first; a relative archivePath
+  // would no longer resolve
+  const archive = shellPath(posixPath.basename(archivePath));
+  // The archive goes in on stdin so progress can be read from its file position
+  const work = format === 'zip'
+    ? sh`unzip -o -q ${archive}`
+    : sh`tar -x ${TAR_COMPRESSION[format]} -f - < ${archive}`;
+  return [
+    sh`cd ${shellPath(posixPath.dirname(archivePath))} || exit 1`,
+    monitoredScript(work, sizeOf([archive]), format === 'zip' ? BYTES_READ : INPUT_POSITION),
+  ].join('\n');
+}
+
+// "-rw-r--r-- user/group 1234 2024-01-31 12:00:00 name", from tar -tv --full-time
+function parseTarLine(line: string): ArchiveEntry | null {
+  const match = /^(\S)\S*\s+\S+\s+([\d,]+)\s+(\d{4}-\d\d-\d\d \d\d:\d\d(?::\d\d)?)\s(.*)$/.exec(line);
+  if (!match) return null;
+  const [, type, size, modified, rest] = match;
+  const link = type === 'l' ? rest.split(' -> ') : type === 'h' ? rest.split(' link to ') : [rest];
+  return {
+    path: link[0],
+    size: Number(size) || 0,
+    isDirectory: type === 'd',
+    modified,
+    link: link.length > 1 ? link.slice(1).join(' -> ') : undefined,
+  };
+}
+
+// "-rw-r--r--  3.0 unx     1234 tx defN 20240131.120000 name", from unzip -Z -T
+function parseZipLine(line: string): ArchiveEntry | null {
+  const match = /^(\S)\S*\s+\S+\s+\S+\s+(\d+)\s+\S+\s+\S+\s+(\d{4})(\d\d)(\d\d)\.(\d\d)(\d\d)(\d\d)\s(.*)$/.exec(line);
+  if (!match) return null;
+  const [, type, size, year, month, day, hour, minute, second, name] = match;
+  return {
+    path: name,
+    size: Number(size),
+    isDirectory: type === 'd' || name.endsWith('/'),
+    modified: `${year}-${month}-${day} ${hour}:${minute}:${second}`,
+  };
+}
+
+/**
+ * Streams the entries of an archive as newline-delimited JSON (ArchiveEvent) without
+ * extracting it. Compressed tars have to be decompressed to be listed, so this can take as
+ * long as extracting; cancelling the stream stops it.
+ */
+export async function listArchive(credentials: SSHCredentials, archivePath: string): Promise<ReadableStream<Uint8Array>> {
+  const format = requireFormat(archivePath);
+  const archive = shellPath(archivePath);
+  const command = format === 'zip'
+    ? sh`unzip -Z -T ${archive}`
+    : sh`tar -tv --full-time ${TAR_COMPRESSION[format]} -f ${archive}`;
+  // One more than the cap, to tell "exactly the cap" from "more"; head exiting stops the listing
+  const channel = await streamCommand(credentials, sh`${raw(command)} | head -n ${MAX_ENTRIES + 1}`);
+  const parse = format === 'zip' ? parseZipLine : parseTarLine;
+  const encoder = new TextEncoder();
+  const decoder = new StringDecoder('utf8');
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let pending = '';
+      let stderr = '';
+      let count = 0;
+      let truncated = false;
+      const send = (event: ArchiveEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+
+      channel.on('data', (data: Buffer) => {
+        const lines = (pending + decoder.write(data)).split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+          const entry = parse(line);
+          if (!entry) continue;
+          if (count === MAX_ENTRIES) {
+            truncated = true;
+            continue;
+          }
+          count++;
+          send({ type: 'entry', entry });
+        }
+      });
+      channel.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+      channel.on('close', () => {
+        // tar complains about the pipe head closed early; that is not an error
+        const error = truncated ? '' : stderr.trim();
+        try {
+          send({ type: 'done', count, truncated, error: error || undefined });
+          controller.close();
+        } catch {
+          // The browser went away first
+        }
+      });
+    },
+    cancel() {
+      channel.destroy();
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { SSHCredentials, executeCommand } from './ssh';
+import { heredoc, path as shellPath, sh } from './shell';
+import type { ClusterProfile } from './profiles';
+
+/**
+ * File manager bookmarks, kept in the user's home on the cluster so they follow them to
+ * any browser.
+ */
+
+export interface Bookmark {
+  name: string;
+  path: string;
+}
+
+const BOOKMARKS_DIR = '~/.kamiak-gui';
+const BOOKMARKS_FILE = `${BOOKMARKS_DIR}/bookmarks.json`;
+const MAX_BOOKMARKS = 100;
+
+// The file manager resolves ~ but not $HOME
+const toTilde = (path: string) => path.replace(/^\$HOME(?=\/|$)/, '~');
+
+// Until the user saves their own: home, the profile's storage areas and the LLM workspace
+export function defaultBookmarks(profile: ClusterProfile): Bookmark[] {
+  const bookmarks: Bookmark[] = [{ name: 'Home', path: '~' }];
+  for (const area of profile.storage ?? []) {
+    const path = toTilde(area.path);
+    if (!bookmarks.some(b => b.path === path)) bookmarks.push({ name: area.label, path });
+  }
+  bookmarks.push({ name: 'LLM', path: '~/llm' });
+  return bookmarks;
+}
+
+export function validateBookmarks(bookmarks: Bookmark[]): Bookmark[] {
+  if (!Array.isArray(bookmarks) || bookmarks.length > MAX_BOOKMARKS) {
+    throw new Error(`Up to ${MAX_BOOKMARKS} bookmarks can be saved`);
+  }
+  return bookmarks.map(bookmark => {
+    const name = String(bookmark?.name ?? '').trim();
+    const path = String(bookmark?.path ?? '').trim();
+    if (!name || !path || name.length > 100) {
+      throw new Error('Bookmarks need a name (up to 100 characters) and a path');
+    }
+    return { name, path };
+  });
+}
+
+export async function readBookmarks(credentials: SSHCredentials, profile: ClusterProfile): Promise<Bookmark[]> {
+  const result = await executeCommand(credentials, sh`cat ${shellPath(BOOKMARKS_FILE)} 2>/dev/null`);
+  if (result.code !== 0) {
+    return defaultBookmarks(profile);
+  }
+  try {
+    return validateBookmarks(JSON.parse(result.stdout));
+  } catch (error) {
+    console.warn(`Ignoring unreadable bookmarks for ${credentials.username}: ${(error as Error).message}`);
+    return defaultBookmarks(profile);
+  }
+}
+
+export async function writeBookmarks(credentials: SSHCredentials, bookmarks: Bookmark[]): Promise<void> {
+  const json = JSON.stringify(validateBookmarks(bookmarks), null, 2);
+  const partial = shellPath(`${BOOKMARKS_FILE}.partial`);
+  // Written beside the file and renamed, so a failed write never leaves it half-written
+  const script = [
+    'set -e',
+    sh`mkdir -p ${shellPath(BOOKMARKS_DIR)} && chmod 700 ${shellPath(BOOKMARKS_DIR)}`,
+    sh`cat > ${partial} ${heredoc(json)}`,
+    sh`mv -f -- ${partial} ${shellPath(BOOKMARKS_FILE)}`,
+  ].join('\n');
+  const result = await executeCommand(credentials, script);
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'Failed to save bookmarks');
+  }
+}
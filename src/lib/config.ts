@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import type { ClusterProfile } from './profiles';
+
+/**
+ * Site settings supplied by whoever deploys the console, read from
+ * `kamiak-gui.config.json` in the working directory (or `KAMIAK_GUI_CONFIG`).
+ */
+export interface KamiakConfig {
+  // Expected host key fingerprints ("SHA256:...") by host, or by "[host]:port" for non-standard ports
+  knownHosts?: Record<string, string | string[]>;
+  // Connection profiles offered to every user; unset fields fall back to the Kamiak defaults
+  profiles?: Partial<ClusterProfile>[];
+  files?: {
+    // Folders the file manager may delete from; paths may start with ~. Defaults to ~, /data and /scratch
+    allowedRoots?: string[];
+    // Trashed items older than this many days are purged; 0 keeps them until the trash is emptied
+    trashRetentionDays?: number;
+  };
+}
+
+export const CONFIG_PATH = process.env.KAMIAK_GUI_CONFIG || path.join(process.cwd(), 'kamiak-gui.config.json');
+
+// Directory for state the server keeps between restarts (known hosts, ...)
+export const DATA_DIR = process.env.KAMIAK_GUI_DATA_DIR || path.join(process.cwd(), '.kamiak-gui');
+
+let cached: { mtimeMs: number; config: KamiakConfig } | null = null;
+
+/**
+ * Returns the current config, re-reading the file when it changes. A missing file means defaults.
+ */
+export function getConfig(): KamiakConfig {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(CONFIG_PATH).mtimeMs;
+  } catch {
+    return {};
+  }
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.config;
+  }
+
+  try {
+    const config = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8')) as KamiakConfig;
+    cached = { mtimeMs, config };
+    return config;
+  } catch (error) {
+    // Keep serving the last good config rather than dropping admin settings on a typo
+    console.error(`Invalid config file ${CONFIG_PATH}:`, error);
+    return cached?.config ?? {};
+  }
+}
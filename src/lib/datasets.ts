@@ -0,0 +1,143 @@
+import { SSHCredentials, executeCommand } from './ssh';
+import { ClusterProfile } from './profiles';
+import { DatasetFormat } from './file-types';
+import { heredoc, path as shellPath, sh } from './shell';
+
+export interface DatasetVariable {
+  name: string;
+  type: string; // dtype, Arrow type, or "group"
+  shape?: string;
+  attributes?: Record<string, string>;
+}
+
+export interface DatasetInfo {
+  format: DatasetFormat;
+  attributes: Record<string, string>;
+  variables: DatasetVariable[];
+  // More variables than were listed
+  truncated: boolean;
+  // Header dump from h5dump or ncdump, when the Python libraries are not installed
+  raw?: string;
+}
+
+const MAX_RAW_OUTPUT = 200 * 1024;
+
+// Exits with 3 when the library for the format is missing, so the shell can fall back
+const HELPER = `
+import json
+import sys
+
+fmt, path = sys.argv[1], sys.argv[2]
+LIMIT = 500
+
+
+def text(value, limit=200):
+    if isinstance(value, bytes):
+        value = value.decode('utf-8', 'replace')
+    value = str(value)
+    return value if len(value) <= limit else value[:limit] + '...'
+
+
+def attrs(items):
+    return {str(key): text(value) for key, value in list(items)[:100]}
+
+
+def parquet():
+    import pyarrow.parquet as pq
+    meta = pq.ParquetFile(path).metadata
+    info = {'rows': meta.num_rows, 'row groups': meta.num_row_groups, 'columns': meta.num_columns, 'created by': meta.created_by}
+    schema = meta.schema.to_arrow_schema()
+    return {'attributes': attrs(info.items()), 'variables': [{'name': field.name, 'type': str(field.type)} for field in schema][:LIMIT + 1]}
+
+
+def hdf5():
+    import h5py
+    variables = []
+
+    def visit(name, obj):
+        if len(variables) > LIMIT:
+            return True
+        if isinstance(obj, h5py.Dataset):
+            shape = ' x '.join(str(n) for n in obj.shape) or 'scalar'
+            variables.append({'name': '/' + name, 'type': str(obj.dtype), 'shape': shape, 'attributes': attrs(obj.attrs.items())})
+        else:
+            variables.append({'name': '/' + name + '/', 'type': 'group', 'attributes': attrs(obj.attrs.items())})
+
+    with h5py.File(path, 'r') as f:
+        f.visititems(visit)
+        return {'attributes': attrs(f.attrs.items()), 'variables': variables}
+
+
+def netcdf():
+    try:
+        import netCDF4
+    except ImportError:
+        # NetCDF-4 files are HDF5 underneath
+        return hdf5()
+    ds = netCDF4.Dataset(path)
+    try:
+        info = {'dimension ' + name: ('unlimited, ' if dim.isunlimited() else '') + str(len(dim)) for name, dim in ds.dimensions.items()}
+        info.update(attrs((name, ds.getncattr(name)) for name in ds.ncattrs()))
+        variables = []
+        for name, var in list(ds.variables.items())[:LIMIT + 1]:
+            shape = ', '.join('%s=%d' % (dim, n) for dim, n in zip(var.dimensions, var.shape)) or 'scalar'
+            variables.append({'name': name, 'type': str(var.dtype), 'shape': shape, 'attributes': attrs((key, var.getncattr(key)) for key in var.ncattrs())})
+        return {'attributes': info, 'variables': variables}
+    finally:
+        ds.close()
+
+
+try:
+    result = {'parquet': parquet, 'hdf5': hdf5, 'netcdf': netcdf}[fmt]()
+except ImportError as error:
+    print(error, file=sys.stderr)
+    sys.exit(3)
+result['truncated'] = len(result['variables']) > LIMIT
+result['variables'] = result['variables'][:LIMIT]
+print(json.dumps(result))
+`;
+
+// Command line tools that print the header of a file, tried when the helper cannot run
+const FALLBACK_TOOLS: Record<DatasetFormat, string | null> = {
+  parquet: null,
+  hdf5: 'h5dump -H',
+  netcdf: 'ncdump -h',
+};
+
+/**
+ * Reads the schema and metadata of a Parquet, HDF5 or NetCDF file on the cluster without
+ * transferring the data, using the profile's Python module.
+ */
+export async function inspectDataset(credentials: SSHCredentials, profile: ClusterProfile, remotePath: string, format: DatasetFormat): Promise<DatasetInfo> {
+  const target = shellPath(remotePath);
+  const lines = [
+    sh`module load ${profile.modules.python} >/dev/null 2>&1`,
+    sh`python3 - ${format} ${target} ${heredoc(HELPER)}`,
+    'status=$?',
+  ];
+  const tool = FALLBACK_TOOLS[format];
+  if (tool) {
+    // 127: no python3 at all
+    lines.push(
+      'if [ $status -eq 3 ] || [ $status -eq 127 ]; then',
+      sh`  out=$(${tool.split(' ')} ${target} 2>/dev/null | head -c ${MAX_RAW_OUTPUT})`,
+      '  [ -n "$out" ] && { echo __RAW__; printf "%s\\n" "$out"; exit 0; }',
+      'fi',
+    );
+  }
+  lines.push('exit $status');
+
+  const result = await executeCommand(credentials, lines.join('\n'));
+  if (result.stdout.startsWith('__RAW__\n')) {
+    return { format, attributes: {}, variables: [], truncated: false, raw: result.stdout.slice('__RAW__\n'.length) };
+  }
+  if (result.code === 3 || result.code === 127) {
+    const missing = result.stderr.trim().split('\n').pop();
+    throw new Error(`Cannot read ${format} files on the cluster: ${missing || 'python3 is not available'}`);
+  }
+  if (result.code !== 0) {
+    // The last line of a Python traceback names the problem
+    throw new Error(result.stderr.trim().split('\n').pop() || `Failed to read ${remotePath}`);
+  }
+  return { format, ...JSON.parse(result.stdout) };
+}
@@ -0,0 +1,38 @@
+// CodeMirror setup shared by the file editor and its merge view (browser only)
+
+import { Extension } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { StreamLanguage } from '@codemirror/language';
+import { python } from '@codemirror/lang-python';
+import { json } from '@codemirror/lang-json';
+import { yaml } from '@codemirror/lang-yaml';
+import { shell } from '@codemirror/legacy-modes/mode/shell';
+import { r } from '@codemirror/legacy-modes/mode/r';
+import { oneDark } from '@codemirror/theme-one-dark';
+import type { EditorLanguage } from './file-types';
+
+export function languageExtension(language: EditorLanguage | null): Extension {
+  switch (language) {
+    case 'shell':
+      return StreamLanguage.define(shell);
+    case 'python':
+      return python();
+    case 'r':
+      return StreamLanguage.define(r);
+    case 'yaml':
+      return yaml();
+    case 'json':
+      return json();
+    default:
+      return [];
+  }
+}
+
+// Dark theme sized to fill its container, matching the rest of the console
+export const editorTheme: Extension = [
+  oneDark,
+  EditorView.theme({
+    '&': { height: '100%', fontSize: '13px' },
+    '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+  }),
+];
@@ -0,0 +1,278 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CommandResult, SSHCredentials } from './ssh';
+import { FIELD_SEPARATOR } from './slurm';
+import { JobUsage, jobEfficiency, memoryRequest, summarizeEfficiency, timeRequest } from './efficiency';
+import { USAGE_FIELDS, getJobUsage } from './jobs';
+
+const executeCommand = vi.hoisted(() => vi.fn<(credentials: SSHCredentials, command: string) => Promise<CommandResult>>());
+vi.mock('./ssh', () => ({ executeCommand }));
+
+const GIB = 1024 ** 3;
+const HOUR = 3600;
+
+const credentials: SSHCredentials = { host: 'cluster', username: 'alice' };
+
+// A finished single-node job that kept its cores busy and used a quarter of its memory
+function usage(overrides: Partial<JobUsage> = {}): JobUsage {
+  return {
+    jobId: '5001',
+    name: 'align',
+    partition: 'kamiak',
+    account: 'lab',
+    state: 'COMPLETED',
+    endTime: '2026-10-01T12:00:00',
+    nodes: 1,
+    cpus: 4,
+    elapsed: 3 * HOUR,
+    timeLimit: 4 * HOUR,
+    cpuTime: 3 * HOUR * 4,
+    memoryAllocated: 16 * GIB,
+    memoryPeak: 14 * GIB,
+    gpus: 0,
+    gpuUtilization: null,
+    ...overrides,
+  };
+}
+
+const suggestions = (...jobs: JobUsage[]) => summarizeEfficiency(jobs.map(jobEfficiency)).suggestions;
+
+beforeEach(() => {
+  executeCommand.mockReset();
+});
+
+describe('jobEfficiency', () => {
+  it('compares what was used with what was allocated', () => {
+    const job = jobEfficiency(usage({ cpuTime: 3 * HOUR * 2, memoryPeak: 4 * GIB, timeLimit: 12 * HOUR, gpus: 2 }));
+    expect(job).toMatchObject({
+      cpuEfficiency: 0.5,
+      memoryEfficiency: 0.25,
+      timeEfficiency: 0.25,
+      coreHours: 12,
+      gpuHours: 6,
+    });
+  });
+
+  it('leaves out what there is nothing to compare with', () => {
+    expect(jobEfficiency(usage({ memoryPeak: null, timeLimit: null }))).toMatchObject({
+      memoryEfficiency: null,
+      timeEfficiency: null,
+    });
+    expect(jobEfficiency(usage({ memoryAllocated: null })).memoryEfficiency).toBeNull();
+    expect(jobEfficiency(usage({ elapsed: 0 })).cpuEfficiency).toBeNull();
+  });
+
+  it('never reports more than all of an allocation', () => {
+    // Accounting can count a little over, e.g. page cache in RSS
+    expect(jobEfficiency(usage({ memoryPeak: 17 * GIB })).memoryEfficiency).toBe(1);
+  });
+});
+
+describe('memoryRequest', () => {
+  it('rounds up to 256M steps up to 1G and whole gigabytes above', () => {
+    expect(memoryRequest(1)).toBe('256M');
+    expect(memoryRequest(300 * 1024 ** 2)).toBe('512M');
+    expect(memoryRequest(GIB - 1)).toBe('1024M');
+    expect(memoryRequest(GIB)).toBe('1024M');
+    expect(memoryRequest(GIB + 1)).toBe('2G');
+    expect(memoryRequest(3.2 * GIB)).toBe('4G');
+  });
+});
+
+describe('timeRequest', () => {
+  it('rounds up to a quarter hour', () => {
+    expect(timeRequest(0)).toBe('00:15:00');
+    expect(timeRequest(HOUR)).toBe('01:00:00');
+    expect(timeRequest(HOUR + 1)).toBe('01:15:00');
+    expect(timeRequest(25 * HOUR)).toBe('1-01:00:00');
+  });
+});
+
+describe('suggestions', () => {
+  it('doubles the memory of jobs that ran out of it', () => {
+    const [suggestion] = suggestions(
+      usage({ jobId: '5003', state: 'OUT_OF_MEMORY', memoryAllocated: 8 * GIB }),
+      usage({ jobId: '5002', memoryAllocated: 8 * GIB, memoryPeak: 7 * GIB }),
+    );
+    expect(suggestion).toMatchObject({
+      jobId: '5003',
+      jobs: 2,
+      current: { memory: '8G' },
+      suggested: { memory: '16G' },
+      reasons: ['1 of 2 runs ran out of memory'],
+    });
+  });
+
+  it('gives jobs that hit the time limit half as long again', () => {
+    const [suggestion] = suggestions(usage({ state: 'TIMEOUT', elapsed: 2 * HOUR, timeLimit: 2 * HOUR }));
+    expect(suggestion).toMatchObject({
+      current: { time: '02:00:00' },
+      suggested: { time: '03:00:00' },
+      reasons: ['1 of 1 runs hit the time limit'],
+    });
+  });
+
+  it('trims memory, time and cores to the most used plus headroom', () => {
+    const [suggestion] = suggestions(
+      usage({ jobId: '5002', cpus: 8, cpuTime: HOUR * 2, memoryAllocated: 32 * GIB, memoryPeak: 6 * GIB, timeLimit: 12 * HOUR }),
+      usage({ jobId: '5001', cpus: 8, cpuTime: 3 * HOUR * 2, memoryAllocated: 32 * GIB, memoryPeak: 8 * GIB, timeLimit: 12 * HOUR }),
+    );
+    expect(suggestion).toEqual({
+      name: 'align',
+      jobId: '5002',
+      jobs: 2,
+      current: { cpus: 8, memory: '32G', time: '12:00:00' },
+      suggested: { cpus: 3, memory: '10G', time: '04:30:00' },
+      reasons: [
+        'used at most 8.0G of 32G memory',
+        'the longest run took 03:00:00 of 12:00:00',
+        'kept at most 2.0 of 8 cores per node busy',
+      ],
+    });
+  });
+
+  it('works per node for jobs across several nodes', () => {
+    // 64G and 16 cores over two nodes, the busiest step using 16G over both
+    const [suggestion] = suggestions(usage({
+      nodes: 2,
+      cpus: 16,
+      cpuTime: 3 * HOUR * 16,
+      memoryAllocated: 64 * GIB,
+      memoryPeak: 16 * GIB,
+      timeLimit: 3.5 * HOUR,
+    }));
+    expect(suggestion).toMatchObject({
+      current: { cpus: 8, memory: '32G' },
+      suggested: { cpus: 8, memory: '10G' },
+      reasons: ['used at most 8.0G of 32G memory'],
+    });
+  });
+
+  it('suggests nothing when the saving is under 1G of memory or 30 minutes', () => {
+    // 4G - 2.5G * 1.25 leaves 0.875G; 2h - 1h2m * 1.5 leaves 27 minutes
+    expect(suggestions(usage({
+      cpus: 1,
+      cpuTime: 62 * 60,
+      elapsed: 62 * 60,
+      timeLimit: 2 * HOUR,
+      memoryAllocated: 4 * GIB,
+      memoryPeak: 2.5 * GIB,
+    }))).toEqual([]);
+  });
+
+  it('suggests a saving of exactly 30 minutes', () => {
+    const [suggestion] = suggestions(usage({ cpus: 1, cpuTime: HOUR, elapsed: HOUR, timeLimit: 2 * HOUR }));
+    expect(suggestion.suggested.time).toBe('01:30:00');
+  });
+
+  it('keeps each kind of job apart', () => {
+    const result = suggestions(
+      usage({ name: 'align', state: 'TIMEOUT', elapsed: 4 * HOUR }),
+      usage({ name: 'assemble' }),
+    );
+    expect(result.map(suggestion => suggestion.name)).toEqual(['align']);
+  });
+});
+
+describe('summarizeEfficiency', () => {
+  it('weights efficiencies by core hours', () => {
+    const summary = summarizeEfficiency([
+      jobEfficiency(usage({ cpus: 1, elapsed: HOUR, cpuTime: HOUR })),
+      jobEfficiency(usage({ cpus: 3, elapsed: HOUR, cpuTime: 0.6 * HOUR })),
+    ]);
+    expect(summary.jobs).toBe(2);
+    expect(summary.coreHours).toBe(4);
+    expect(summary.idleCoreHours).toBeCloseTo(2.4);
+    expect(summary.cpuEfficiency).toBeCloseTo(0.4);
+  });
+
+  it('has no efficiencies without jobs', () => {
+    expect(summarizeEfficiency([])).toEqual({
+      jobs: 0,
+      coreHours: 0,
+      idleCoreHours: 0,
+      gpuHours: 0,
+      cpuEfficiency: null,
+      memoryEfficiency: null,
+      timeEfficiency: null,
+      suggestions: [],
+    });
+  });
+});
+
+describe('getJobUsage', () => {
+  const ok = (stdout: string): CommandResult => ({ stdout, stderr: '', code: 0 });
+
+  // sacct -P output for `fields`, one line per row
+  const sacct = (fields: string[], rows: Record<string, string>[]) =>
+    ok(rows.map(row => fields.map(field => row[field] ?? '').join(FIELD_SEPARATOR)).join('\n') + '\n');
+
+  const job = (jobId: string, overrides: Record<string, string> = {}) => ({
+    JobID: jobId, JobName: 'align', Partition: 'kamiak', Account: 'lab', State: 'COMPLETED',
+    End: '2026-10-01T12:00:00', NNodes: '2', AllocCPUS: '16', Elapsed: '01:00:00', Timelimit: '04:00:00',
+    TotalCPU: '10:00:00', AllocTRES: 'billing=16,cpu=16,mem=64G,node=2', MaxRSS: '', ...overrides,
+  });
+
+  it('takes the step that used the most memory over all its tasks', async () => {
+    const fields = [...USAGE_FIELDS, 'TRESUsageInTot', 'TRESUsageInAve'];
+    executeCommand.mockResolvedValue(sacct(fields, [
+      job('6001'),
+      job('6001.batch', { MaxRSS: '1G', TRESUsageInTot: 'cpu=00:01:00,mem=1G' }),
+      job('6001.0', { MaxRSS: '3G', TRESUsageInTot: 'cpu=09:59:00,mem=6G', TRESUsageInAve: 'gres/gpuutil=80' }),
+    ]));
+
+    const [usage] = await getJobUsage(credentials, 'alice', 10, 30);
+    expect(usage).toMatchObject({
+      jobId: '6001',
+      nodes: 2,
+      cpus: 16,
+      elapsed: HOUR,
+      timeLimit: 4 * HOUR,
+      cpuTime: 10 * HOUR,
+      memoryAllocated: 64 * GIB,
+      memoryPeak: 6 * GIB,
+      gpuUtilization: 80,
+    });
+    expect(executeCommand.mock.calls[0][1].split('--format=')[1]).toBe(fields.join(','));
+  });
+
+  it('falls back to MaxRSS where sacct does not know TRESUsageInTot', async () => {
+    executeCommand
+      .mockResolvedValueOnce({ stdout: '', stderr: 'sacct: error: Invalid field requested: "TRESUsageInTot"', code: 1 })
+      .mockResolvedValueOnce(sacct(USAGE_FIELDS, [
+        job('6001'),
+        job('6001.batch', { MaxRSS: '1200K' }),
+        job('6001.0', { MaxRSS: '3G' }),
+      ]));
+
+    const [usage] = await getJobUsage(credentials, 'alice', 10, 30);
+    expect(usage.memoryPeak).toBe(3 * GIB);
+    expect(usage.gpuUtilization).toBeNull();
+    expect(executeCommand.mock.calls[1][1].split('--format=')[1]).toBe(USAGE_FIELDS.join(','));
+  });
+
+  it('falls back to MaxRSS for steps without a memory total', async () => {
+    executeCommand.mockResolvedValue(sacct([...USAGE_FIELDS, 'TRESUsageInTot', 'TRESUsageInAve'], [
+      job('6001'),
+      job('6001.0', { MaxRSS: '2G', TRESUsageInTot: '' }),
+    ]));
+
+    const [usage] = await getJobUsage(credentials, 'alice', 10, 30);
+    expect(usage.memoryPeak).toBe(2 * GIB);
+  });
+
+  it('keeps only finished jobs, newest first, up to the limit', async () => {
+    executeCommand.mockResolvedValue(sacct([...USAGE_FIELDS, 'TRESUsageInTot', 'TRESUsageInAve'], [
+      job('6001', { End: '2026-10-01T12:00:00' }),
+      job('6002', { End: '2026-10-03T12:00:00', State: 'OUT_OF_MEMORY' }),
+      job('6003', { End: '2026-10-02T12:00:00', State: 'TIMEOUT' }),
+      job('6004', { End: 'Unknown', State: 'RUNNING' }),
+      job('6005', { End: '2026-10-04T12:00:00', State: 'CANCELLED by 1001', Elapsed: '00:00:00' }),
+    ]));
+
+    const jobs = await getJobUsage(credentials, 'alice', 2, 30);
+    expect(jobs.map(usage => [usage.jobId, usage.state, usage.memoryPeak])).toEqual([
+      ['6002', 'OUT_OF_MEMORY', null],
+      ['6003', 'TIMEOUT', null],
+    ]);
+  });
+});
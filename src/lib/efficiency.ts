@@ -0,0 +1,186 @@
+import { JobState, formatDuration, formatMemory } from './slurm';
+
+/**
+ * How much of what a job asked for it actually used, computed the way `seff` does from
+ * accounting data, plus right-sizing suggestions across a user's recent jobs.
+ */
+
+// What accounting recorded for one finished job
+export interface JobUsage {
+  jobId: string;
+  name: string;
+  partition: string;
+  account: string;
+  state: JobState;
+  endTime: string;
+  nodes: number;
+  cpus: number;
+  elapsed: number; // Seconds
+  timeLimit: number | null; // Seconds; null when unlimited
+  cpuTime: number; // CPU seconds over all steps
+  memoryAllocated: number | null; // Bytes over all nodes
+  // Bytes used by the step that used the most: all of its tasks together (TRESUsageInTot),
+  // or only its largest task (MaxRSS) where sacct is too old to sum them
+  memoryPeak: number | null;
+  gpus: number;
+  // Average GPU utilization in percent, where the site records it
+  gpuUtilization: number | null;
+}
+
+export interface JobEfficiency extends JobUsage {
+  // Fractions of the allocation used, null when there is nothing to compare
+  cpuEfficiency: number | null;
+  memoryEfficiency: number | null;
+  timeEfficiency: number | null;
+  coreHours: number;
+  gpuHours: number;
+}
+
+export interface ResourceSuggestion {
+  name: string;
+  // The most recent job of this name, which the suggestion is a resubmission of
+  jobId: string;
+  jobs: number;
+  current: { cpus: number; memory: string; time: string };
+  suggested: { cpus: number; memory: string; time: string };
+  reasons: string[];
+}
+
+export interface EfficiencySummary {
+  jobs: number;
+  coreHours: number;
+  // Core hours allocated but not used
+  idleCoreHours: number;
+  gpuHours: number;
+  // Weighted by core hours, so short jobs do not dominate
+  cpuEfficiency: number | null;
+  memoryEfficiency: number | null;
+  timeEfficiency: number | null;
+  suggestions: ResourceSuggestion[];
+}
+
+// Headroom added on top of the most a job has used
+const MARGIN = 1.25;
+// Below these, asking for less is not worth suggesting
+const MIN_MEMORY_SAVING = 1024 ** 3;
+const MIN_TIME_SAVING = 30 * 60;
+
+const GIB = 1024 ** 3;
+const MIB = 1024 ** 2;
+
+const ratio = (used: number, allocated: number | null) => (allocated ? Math.min(used / allocated, 1) : null);
+
+export function jobEfficiency(job: JobUsage): JobEfficiency {
+  const coreHours = (job.elapsed * job.cpus) / 3600;
+  return {
+    ...job,
+    cpuEfficiency: job.elapsed > 0 ? ratio(job.cpuTime, job.elapsed * job.cpus) : null,
+    memoryEfficiency: job.memoryPeak === null ? null : ratio(job.memoryPeak, job.memoryAllocated),
+    timeEfficiency: ratio(job.elapsed, job.timeLimit),
+    coreHours,
+    gpuHours: (job.elapsed * job.gpus) / 3600,
+  };
+}
+
+// A --mem value: whole gigabytes, or 256M steps below 1G
+export function memoryRequest(bytes: number): string {
+  if (bytes <= GIB) return `${Math.max(256, Math.ceil(bytes / MIB / 256) * 256)}M`;
+  return `${Math.ceil(bytes / GIB)}G`;
+}
+
+// A --time value rounded up to a quarter hour
+export function timeRequest(seconds: number): string {
+  return formatDuration(Math.max(1, Math.ceil(seconds / 900)) * 900);
+}
+
+function weighted(jobs: JobEfficiency[], value: (job: JobEfficiency) => number | null): number | null {
+  let total = 0;
+  let weight = 0;
+  for (const job of jobs) {
+    const v = value(job);
+    if (v === null || job.coreHours === 0) continue;
+    total += v * job.coreHours;
+    weight += job.coreHours;
+  }
+  return weight > 0 ? total / weight : null;
+}
+
+/**
+ * Suggested resources for the next run of one kind of job (same name), from its recent
+ * runs: the most any of them used plus some headroom, or more than was asked for when runs
+ * ran out of memory or time.
+ */
+function suggest(runs: JobEfficiency[]): ResourceSuggestion | null {
+  // Newest first, so runs[0] is the request to improve on
+  const latest = runs[0];
+  const finished = runs.filter(job => job.state === 'COMPLETED' && job.elapsed > 0);
+  // Per node, as the job composer asks for them
+  const nodes = Math.max(1, latest.nodes);
+  const current = {
+    cpus: Math.max(1, Math.round(latest.cpus / nodes)),
+    memory: latest.memoryAllocated ? memoryRequest(latest.memoryAllocated / nodes) : '',
+    time: latest.timeLimit === null ? '' : formatDuration(latest.timeLimit),
+  };
+  const suggested = { ...current };
+  const reasons: string[] = [];
+
+  const outOfMemory = runs.filter(job => job.state === 'OUT_OF_MEMORY');
+  const timedOut = runs.filter(job => job.state === 'TIMEOUT');
+
+  if (outOfMemory.length > 0 && latest.memoryAllocated) {
+    suggested.memory = memoryRequest((latest.memoryAllocated / nodes) * 2);
+    reasons.push(`${outOfMemory.length} of ${runs.length} runs ran out of memory`);
+  } else if (finished.length > 0 && latest.memoryAllocated) {
+    const peak = Math.max(...finished.map(job => (job.memoryPeak ?? 0) / Math.max(1, job.nodes)));
+    const perNode = latest.memoryAllocated / nodes;
+    if (peak > 0 && perNode - peak * MARGIN >= MIN_MEMORY_SAVING) {
+      suggested.memory = memoryRequest(peak * MARGIN);
+      reasons.push(`used at most ${formatMemory(peak)} of ${current.memory} memory`);
+    }
+  }
+
+  if (timedOut.length > 0 && latest.timeLimit !== null) {
+    suggested.time = timeRequest(latest.timeLimit * 1.5);
+    reasons.push(`${timedOut.length} of ${runs.length} runs hit the time limit`);
+  } else if (finished.length > 0 && latest.timeLimit !== null) {
+    const longest = Math.max(...finished.map(job => job.elapsed));
+    if (latest.timeLimit - longest * 1.5 >= MIN_TIME_SAVING) {
+      suggested.time = timeRequest(longest * 1.5);
+      reasons.push(`the longest run took ${formatDuration(longest)} of ${current.time}`);
+    }
+  }
+
+  if (finished.length > 0 && current.cpus > 1) {
+    const busiest = Math.max(...finished.map(job => job.cpuTime / job.elapsed / Math.max(1, job.nodes)));
+    const cpus = Math.max(1, Math.ceil(busiest * MARGIN));
+    if (cpus < current.cpus) {
+      suggested.cpus = cpus;
+      reasons.push(`kept at most ${busiest.toFixed(1)} of ${current.cpus} cores per node busy`);
+    }
+  }
+
+  if (reasons.length === 0) return null;
+  return { name: latest.name, jobId: latest.jobId, jobs: runs.length, current, suggested, reasons };
+}
+
+// `jobs` newest first
+export function summarizeEfficiency(jobs: JobEfficiency[]): EfficiencySummary {
+  const byName = new Map<string, JobEfficiency[]>();
+  for (const job of jobs) {
+    byName.set(job.name, [...(byName.get(job.name) ?? []), job]);
+  }
+  const coreHours = jobs.reduce((sum, job) => sum + job.coreHours, 0);
+  const usedCoreHours = jobs.reduce((sum, job) => sum + job.cpuTime / 3600, 0);
+  return {
+    jobs: jobs.length,
+    coreHours,
+    idleCoreHours: Math.max(0, coreHours - usedCoreHours),
+    gpuHours: jobs.reduce((sum, job) => sum + job.gpuHours, 0),
+    cpuEfficiency: weighted(jobs, job => job.cpuEfficiency),
+    memoryEfficiency: weighted(jobs, job => job.memoryEfficiency),
+    timeEfficiency: weighted(jobs, job => job.timeEfficiency),
+    suggestions: [...byName.values()]
+      .map(suggest)
+      .filter((suggestion): suggestion is ResourceSuggestion => suggestion !== null),
+  };
+}
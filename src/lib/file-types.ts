@@ -0,0 +1,95 @@
+// Which viewer or editor mode opens a file, mostly decided by its extension. Shared by the
+// browser and the server.
+
+export type PreviewKind = 'image' | 'pdf' | 'table' | 'dataset' | 'log' | 'archive' | 'binary';
+export type DatasetFormat = 'parquet' | 'hdf5' | 'netcdf';
+export type ArchiveFormat = 'tar' | 'tar.gz' | 'tar.bz2' | 'tar.xz' | 'tar.zst' | 'zip';
+
+// Formats new archives can be created in; the others can only be listed and extracted
+export const CREATABLE_ARCHIVE_FORMATS: ArchiveFormat[] = ['tar', 'tar.gz', 'tar.zst', 'zip'];
+
+// Longest suffixes first, so .tar.gz is not taken for a plain .tar
+const ARCHIVE_SUFFIXES: [string, ArchiveFormat][] = [
+  ['.tar.gz', 'tar.gz'], ['.tar.bz2', 'tar.bz2'], ['.tar.xz', 'tar.xz'], ['.tar.zst', 'tar.zst'],
+  ['.tgz', 'tar.gz'], ['.tbz2', 'tar.bz2'], ['.txz', 'tar.xz'], ['.tzst', 'tar.zst'],
+  ['.tar', 'tar'], ['.zip', 'zip'],
+];
+
+const PREVIEW_KINDS: Record<string, PreviewKind> = {
+  png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', webp: 'image', bmp: 'image', svg: 'image',
+  pdf: 'pdf',
+  csv: 'table', tsv: 'table',
+  log: 'log', out: 'log', err: 'log',
+  parquet: 'dataset', pq: 'dataset', h5: 'dataset', hdf5: 'dataset', he5: 'dataset', nc: 'dataset', nc4: 'dataset',
+};
+
+const DATASET_FORMATS: Record<string, DatasetFormat> = {
+  parquet: 'parquet', pq: 'parquet', h5: 'hdf5', hdf5: 'hdf5', he5: 'hdf5', nc: 'netcdf', nc4: 'netcdf',
+};
+
+// Types the download route may serve inline for the browser to render
+const INLINE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', bmp: 'image/bmp',
+  svg: 'image/svg+xml', pdf: 'application/pdf',
+};
+
+function extension(name: string): string {
+  const base = name.slice(name.lastIndexOf('/') + 1);
+  const dot = base.lastIndexOf('.');
+  return dot > 0 ? base.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * The previewer for a file, or null for files that open in the text editor (binary and
+ * very large files only show up as such once they have been read, and then go to the hex
+ * view and the log viewer).
+ */
+export function previewKind(name: string): PreviewKind | null {
+  if (archiveFormat(name)) return 'archive';
+  return PREVIEW_KINDS[extension(name)] ?? null;
+}
+
+export function archiveFormat(name: string): ArchiveFormat | null {
+  const lower = name.toLowerCase();
+  return ARCHIVE_SUFFIXES.find(([suffix]) => lower.endsWith(suffix) && lower.length > suffix.length)?.[1] ?? null;
+}
+
+export function datasetFormat(name: string): DatasetFormat | null {
+  return DATASET_FORMATS[extension(name)] ?? null;
+}
+
+export function inlineContentType(name: string): string | null {
+  return INLINE_TYPES[extension(name)] ?? null;
+}
+
+export function tableDelimiter(name: string): string {
+  return extension(name) === 'tsv' ? '\t' : ',';
+}
+
+export type EditorLanguage = 'shell' | 'python' | 'r' | 'yaml' | 'json';
+
+const EDITOR_LANGUAGES: Record<string, EditorLanguage> = {
+  sh: 'shell', bash: 'shell', zsh: 'shell', sbatch: 'shell', slurm: 'shell', job: 'shell',
+  py: 'python', pyw: 'python',
+  r: 'r',
+  yml: 'yaml', yaml: 'yaml',
+  json: 'json', ipynb: 'json', geojson: 'json',
+};
+
+/**
+ * Syntax highlighting for the editor, from the extension or, for scripts without one,
+ * from the shebang line or #SBATCH directives.
+ */
+export function editorLanguage(name: string, content: string): EditorLanguage | null {
+  const base = name.slice(name.lastIndexOf('/') + 1);
+  if (['.bashrc', '.bash_profile', '.profile', '.bash_aliases'].includes(base)) return 'shell';
+  const byExtension = EDITOR_LANGUAGES[extension(name)];
+  if (byExtension) return byExtension;
+
+  const firstLine = content.split('\n', 1)[0].trim();
+  if (/^#!.*\b(ba|z|k)?sh\b/.test(firstLine)) return 'shell';
+  if (/^#!.*\bpython/.test(firstLine)) return 'python';
+  if (/^#!.*\bRscript\b/.test(firstLine)) return 'r';
+  if (/^#SBATCH\b/m.test(content.slice(0, 4096))) return 'shell';
+  return null;
+}
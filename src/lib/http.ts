@@ -0,0 +1,43 @@
+import { SessionError } from './session';
+import { ShellArgumentError } from './shell';
+
+// SFTP status codes (draft-ietf-secsh-filexfer) that map onto HTTP statuses
+const SFTP_NO_SUCH_FILE = 2;
+const SFTP_PERMISSION_DENIED = 3;
+
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BadRequestError';
+  }
+}
+
+/**
+ * Turns an error thrown inside a route handler into a JSON response with a fitting status.
+ */
+export function errorResponse(error: unknown): Response {
+  const err = error as Error & { code?: unknown };
+  let status = 500;
+  if (err instanceof SessionError) {
+    status = 401;
+  } else if (err instanceof BadRequestError || err instanceof ShellArgumentError) {
+    status = 400;
+  } else if (err.code === SFTP_NO_SUCH_FILE || err.code === 'ENOENT') {
+    status = 404;
+  } else if (err.code === SFTP_PERMISSION_DENIED) {
+    status = 403;
+  }
+  if (status === 500) {
+    console.error('Request failed:', error);
+  }
+  return Response.json({ error: err.message || 'Request failed' }, { status });
+}
+
+/**
+ * Content-Disposition for a download, with an ASCII fallback for older clients. `inline`
+ * lets the browser display the file instead of saving it.
+ */
+export function attachment(filename: string, disposition: 'attachment' | 'inline' = 'attachment'): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
@@ -0,0 +1,542 @@
+import posixPath from 'path/posix';
+import { SSHCredentials, executeCommand } from './ssh';
+import { ShellArgumentError, raw, sh, validateJobId, validatePartition } from './shell';
+import {
+  ExitStatus, FIELD_SEPARATOR, FINISHED_STATES, JOB_STATES, JobHistoryEntry, JobQueueEntry, JobState, formatDuration,
+  parseDuration, parseExitCode, parseJobState, parseKeyValues, parseMemory, parseRecords, parseTres, present,
+} from './slurm';
+import { JobUsage, memoryRequest } from './efficiency';
+import { lineageRoot, readLineage } from './lineage';
+
+export interface JobOutputPaths {
+  stdout: string;
+  // Null when stderr goes to the same file as stdout
+  stderr: string | null;
+}
+
+export interface JobStep {
+  stepId: string;
+  name: string;
+  state: JobState;
+  start: string;
+  elapsed: number; // Seconds
+  exitCode: ExitStatus;
+  maxRss: number | null; // Bytes
+  totalCpu: number | null; // CPU seconds
+  nodes: number;
+}
+
+/**
+ * Everything known about one job: from `scontrol` while Slurm still holds it, otherwise
+ * from accounting. Times are as Slurm prints them, in the cluster's local time.
+ */
+export interface JobDetails {
+  jobId: string;
+  name: string;
+  user: string;
+  state: JobState;
+  // Why a pending job is waiting, or why a job ended the way it did
+  reason: string;
+  dependency: string;
+  partition: string;
+  account: string;
+  qos: string;
+  submitTime: string;
+  eligibleTime: string;
+  startTime: string;
+  endTime: string;
+  timeLimit: number | null; // Seconds; null when unlimited
+  elapsed: number; // Seconds
+  workDir: string;
+  output: JobOutputPaths;
+  nodeList: string;
+  exitCode: ExitStatus;
+  requestedTres: Record<string, string>;
+  allocatedTres: Record<string, string>;
+  // Null when Slurm no longer has it (accounting only keeps scripts if configured to)
+  batchScript: string | null;
+  steps: JobStep[];
+  // The whole scontrol record, or the accounting fields for finished jobs
+  fields: Record<string, string>;
+  source: 'scontrol' | 'sacct';
+}
+
+interface PatternValues {
+  jobId: string;
+  arrayJobId?: string;
+  arrayTaskId?: string;
+  name?: string;
+  user?: string;
+  node?: string;
+}
+
+// Fills in sbatch's --output filename patterns (%j, %A_%a, %x, ...)
+function expandPattern(pattern: string, values: PatternValues): string {
+  return pattern.replace(/%(\d*)([%AajJNnstux])/g, (match, width: string, key: string) => {
+    const value: Record<string, string | undefined> = {
+      '%': '%',
+      A: values.arrayJobId ?? values.jobId,
+      a: values.arrayTaskId ?? '4294967294',
+      j: values.jobId,
+      J: values.jobId,
+      N: values.node,
+      n: '0',
+      s: 'batch',
+      t: '0',
+      u: values.user,
+      x: values.name,
+    };
+    const text = value[key];
+    if (text === undefined) return match;
+    return key === '%' ? text : text.padStart(Number(width) || 0, '0');
+  });
+}
+
+function outputPaths(jobId: string, workDir: string, stdoutPattern: string, stderrPattern: string, values: PatternValues): JobOutputPaths {
+  const resolve = (file: string) => posixPath.resolve(workDir || '/', expandPattern(file, values));
+  // sbatch's default when --output is not given
+  const stdout = resolve(stdoutPattern || `slurm-${jobId}.out`);
+  const stderr = stderrPattern ? resolve(stderrPattern) : null;
+  return { stdout, stderr: stderr === stdout ? null : stderr };
+}
+
+// The job's scontrol record, or null once Slurm has forgotten it
+async function liveRecord(credentials: SSHCredentials, jobId: string): Promise<Record<string, string> | null> {
+  const result = await executeCommand(credentials, sh`scontrol show job -o ${jobId}`);
+  if (result.code !== 0 || !result.stdout.includes('JobId=')) return null;
+  return parseKeyValues(result.stdout.trim().split('\n')[0]);
+}
+
+/**
+ * Runs sacct with `args` (already quoted, e.g. "-X -j 123") for the given fields. `optional`
+ * fields are dropped if this sacct is too old to know them. Times come back as
+ * YYYY-MM-DDTHH:MM:SS whatever SLURM_TIME_FORMAT the user has set.
+ */
+async function querySacct(
+  credentials: SSHCredentials,
+  args: string,
+  fields: string[],
+  optional: string[] = []
+): Promise<Record<string, string>[]> {
+  const run = (format: string[]) => executeCommand(credentials,
+    sh`SLURM_TIME_FORMAT=standard sacct ${raw(args)} -n -P --delimiter=${FIELD_SEPARATOR} --format=${format.join(',')}`);
+  let format = [...fields, ...optional];
+  let result = await run(format);
+  if (result.code !== 0 && optional.length > 0) {
+    format = fields;
+    result = await run(format);
+  }
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'sacct failed');
+  }
+  return parseRecords(result.stdout, format);
+}
+
+function liveOutputPaths(fields: Record<string, string>): JobOutputPaths {
+  return outputPaths(fields.JobId, fields.WorkDir, fields.StdOut, fields.StdErr, {
+    jobId: fields.JobId,
+    arrayJobId: fields.ArrayJobId,
+    arrayTaskId: fields.ArrayTaskId,
+    name: fields.JobName,
+    user: fields.UserId?.replace(/\(.*\)$/, ''),
+    node: fields.BatchHost,
+  });
+}
+
+function accountingOutputPaths(jobId: string, row: Record<string, string>): JobOutputPaths {
+  const [arrayJobId, arrayTaskId] = jobId.split('_');
+  return outputPaths(jobId, row.WorkDir, row.StdOut, row.StdErr, {
+    jobId, arrayJobId, arrayTaskId, name: row.JobName, user: row.User,
+  });
+}
+
+/**
+ * Where a job's output went. Uses `scontrol` while Slurm still knows the job, then `sacct`,
+ * falling back to sbatch's default slurm-<jobid>.out in the working directory.
+ */
+export async function jobOutputPaths(credentials: SSHCredentials, jobId: string): Promise<JobOutputPaths> {
+  validateJobId(jobId);
+  const live = await liveRecord(credentials, jobId);
+  if (live) {
+    return liveOutputPaths(live);
+  }
+  // StdOut and StdErr are only known to newer sacct versions
+  const [row] = await querySacct(credentials, sh`-X -j ${jobId}`, ['WorkDir', 'JobName', 'User'], ['StdOut', 'StdErr']);
+  if (!row) {
+    throw new Error(`Job ${jobId} was not found`);
+  }
+  return accountingOutputPaths(jobId, row);
+}
+
+// The submitted script: scontrol has it while the job is known, accounting only if the
+// site stores scripts (AccountingStoreFlags=job_script, Slurm 21.08 and later)
+async function batchScript(credentials: SSHCredentials, jobId: string): Promise<string | null> {
+  const live = await executeCommand(credentials, sh`scontrol write batch_script ${jobId} -`);
+  if (live.code === 0 && live.stdout.trim()) return live.stdout;
+  const stored = await executeCommand(credentials, sh`sacct -j ${jobId} --batch-script -n`);
+  const script = stored.stdout.replace(/^Batch Script for \S+\n-+\n/, '');
+  return stored.code === 0 && script.trim() && !/^\s*NONE\s*$/.test(script) ? script : null;
+}
+
+export const STEP_FIELDS = ['JobID', 'JobName', 'State', 'Start', 'Elapsed', 'ExitCode', 'MaxRSS', 'TotalCPU', 'NNodes'];
+const JOB_FIELDS = [
+  'JobID', 'JobName', 'User', 'State', 'Partition', 'Account', 'QOS', 'Submit', 'Eligible', 'Start', 'End',
+  'Timelimit', 'Elapsed', 'WorkDir', 'NodeList', 'ExitCode', 'ReqTRES', 'AllocTRES',
+];
+
+async function jobSteps(credentials: SSHCredentials, jobId: string): Promise<JobStep[]> {
+  // Steps only reach accounting, so a job without it simply shows none
+  const rows = await querySacct(credentials, sh`-j ${jobId}`, STEP_FIELDS).catch(() => []);
+  return rows.filter(row => row.JobID.includes('.')).map(row => ({
+    stepId: row.JobID,
+    name: row.JobName,
+    state: parseJobState(row.State),
+    start: present(row.Start),
+    elapsed: parseDuration(row.Elapsed) ?? 0,
+    exitCode: parseExitCode(row.ExitCode),
+    maxRss: parseMemory(row.MaxRSS),
+    totalCpu: parseDuration(row.TotalCPU),
+    nodes: Number(row.NNodes) || 0,
+  }));
+}
+
+export async function inspectJob(credentials: SSHCredentials, jobId: string): Promise<JobDetails> {
+  validateJobId(jobId);
+  const [live, script, steps] = await Promise.all([
+    liveRecord(credentials, jobId),
+    batchScript(credentials, jobId),
+    jobSteps(credentials, jobId),
+  ]);
+
+  if (live) {
+    return {
+      jobId: live.JobId,
+      name: live.JobName ?? '',
+      user: live.UserId?.replace(/\(.*\)$/, '') ?? '',
+      state: parseJobState(live.JobState ?? ''),
+      reason: present(live.Reason),
+      dependency: present(live.Dependency),
+      partition: live.Partition ?? '',
+      account: present(live.Account),
+      qos: present(live.QOS),
+      submitTime: present(live.SubmitTime),
+      eligibleTime: present(live.EligibleTime),
+      startTime: present(live.StartTime),
+      endTime: present(live.EndTime),
+      timeLimit: parseDuration(live.TimeLimit ?? ''),
+      elapsed: parseDuration(live.RunTime ?? '') ?? 0,
+      workDir: live.WorkDir ?? '',
+      output: liveOutputPaths(live),
+      nodeList: present(live.NodeList),
+      exitCode: parseExitCode(live.ExitCode ?? ''),
+      requestedTres: parseTres(live.ReqTRES),
+      // Older Slurm calls the allocation just TRES
+      allocatedTres: parseTres(live.AllocTRES ?? live.TRES),
+      batchScript: script,
+      steps,
+      fields: live,
+      source: 'scontrol',
+    };
+  }
+
+  const [row] = await querySacct(credentials, sh`-X -j ${jobId}`, JOB_FIELDS, ['Reason', 'StdOut', 'StdErr', 'Constraints']);
+  if (!row) {
+    throw new Error(`Job ${jobId} was not found`);
+  }
+  return {
+    jobId: row.JobID,
+    name: row.JobName,
+    user: row.User,
+    state: parseJobState(row.State),
+    reason: present(row.Reason),
+    dependency: '',
+    partition: row.Partition,
+    account: present(row.Account),
+    qos: present(row.QOS),
+    submitTime: present(row.Submit),
+    eligibleTime: present(row.Eligible),
+    startTime: present(row.Start),
+    endTime: present(row.End),
+    timeLimit: parseDuration(row.Timelimit),
+    elapsed: parseDuration(row.Elapsed) ?? 0,
+    workDir: row.WorkDir,
+    output: accountingOutputPaths(jobId, row),
+    nodeList: present(row.NodeList),
+    exitCode: parseExitCode(row.ExitCode),
+    requestedTres: parseTres(row.ReqTRES),
+    allocatedTres: parseTres(row.AllocTRES),
+    batchScript: script,
+    steps,
+    fields: row,
+    source: 'sacct',
+  };
+}
+
+const QUEUE_FIELDS: [string, string][] = [
+  ['%i', 'jobId'], ['%P', 'partition'], ['%j', 'name'], ['%u', 'user'], ['%T', 'state'],
+  ['%M', 'elapsed'], ['%l', 'timeLimit'], ['%D', 'nodes'], ['%N', 'nodeList'], ['%r', 'reason'],
+];
+
+export async function getQueue(credentials: SSHCredentials, user: string): Promise<JobQueueEntry[]> {
+  const format = QUEUE_FIELDS.map(([code]) => code).join(FIELD_SEPARATOR);
+  // -u rather than --me, which older Slurm lacks
+  const result = await executeCommand(credentials, sh`squeue -u ${user} --noheader -o ${format}`);
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'squeue failed');
+  }
+  return parseRecords(result.stdout, QUEUE_FIELDS.map(([, field]) => field)).map(row => {
+    const state = parseJobState(row.state);
+    return {
+      jobId: row.jobId,
+      partition: row.partition,
+      name: row.name,
+      user: row.user,
+      state,
+      elapsed: parseDuration(row.elapsed) ?? 0,
+      timeLimit: parseDuration(row.timeLimit),
+      nodes: Number(row.nodes) || 0,
+      nodeList: present(row.nodeList),
+      reason: state === 'PENDING' ? present(row.reason) : '',
+    };
+  });
+}
+
+export interface JobHistoryFilter {
+  // YYYY-MM-DD, both inclusive
+  start: string;
+  end: string;
+  // Any state when empty
+  states?: JobState[];
+  partition?: string;
+  // Part of the job name, case-insensitive
+  name?: string;
+  // Matched against the job ID, name, partition, account and state
+  search?: string;
+  // Put reruns right after the job they rerun instead of in date order
+  groupReruns?: boolean;
+}
+
+const HISTORY_FIELDS = [
+  'JobID', 'JobName', 'Partition', 'Account', 'State', 'ExitCode', 'Submit', 'Start', 'End', 'Elapsed', 'AllocCPUS',
+];
+
+export function validateHistoryFilter(filter: JobHistoryFilter): JobHistoryFilter {
+  for (const date of [filter.start, filter.end]) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') || Number.isNaN(Date.parse(date))) {
+      throw new ShellArgumentError(`Invalid date "${date}". Use YYYY-MM-DD.`);
+    }
+  }
+  if (filter.start > filter.end) {
+    throw new ShellArgumentError('The start date is after the end date');
+  }
+  for (const state of filter.states ?? []) {
+    if (!JOB_STATES.includes(state)) {
+      throw new ShellArgumentError(`Unknown job state "${state}"`);
+    }
+  }
+  if (filter.partition) validatePartition(filter.partition);
+  return filter;
+}
+
+/**
+ * The user's jobs (allocations only, without steps) that were eligible to run between the
+ * filter's dates, newest first. sacct narrows by date and partition; the rest is matched
+ * here, since sacct's --name only takes exact names and --state also picks up jobs that
+ * merely passed through a state during the window.
+ */
+export async function getHistory(credentials: SSHCredentials, user: string, filter: JobHistoryFilter): Promise<JobHistoryEntry[]> {
+  const { start, end, states = [], partition, name, search, groupReruns } = validateHistoryFilter(filter);
+  const args = sh`-X -u ${user} -S ${start} -E ${end + 'T23:59:59'} ${partition ? ['-r', partition] : []}`;
+  const [rows, parents] = await Promise.all([querySacct(credentials, args, HISTORY_FIELDS), readLineage(credentials)]);
+  const needle = search?.trim().toLowerCase();
+  const jobs = rows
+    .map((row): JobHistoryEntry => ({
+      jobId: row.JobID,
+      name: row.JobName,
+      partition: row.Partition,
+      account: row.Account,
+      state: parseJobState(row.State),
+      exitCode: parseExitCode(row.ExitCode),
+      submitTime: present(row.Submit),
+      startTime: present(row.Start),
+      endTime: present(row.End),
+      elapsed: parseDuration(row.Elapsed) ?? 0,
+      cpus: Number(row.AllocCPUS) || 0,
+      parentJobId: parents.get(row.JobID),
+    }))
+    .filter(job => states.length === 0 || states.includes(job.state))
+    .filter(job => !name || job.name.toLowerCase().includes(name.trim().toLowerCase()))
+    .filter(job => !needle || [job.jobId, job.name, job.partition, job.account, job.state]
+      .some(value => value.toLowerCase().includes(needle)))
+    .sort((a, b) => b.submitTime.localeCompare(a.submitTime) || b.jobId.localeCompare(a.jobId, undefined, { numeric: true }));
+  if (!groupReruns) {
+    return jobs;
+  }
+
+  // Each chain of reruns goes where its newest run would be, oldest run first
+  const roots = new Map(jobs.map(job => [job.jobId, lineageRoot(job.jobId, parents)]));
+  const position = new Map<string, number>();
+  jobs.forEach((job, i) => {
+    const root = roots.get(job.jobId) ?? job.jobId;
+    if (!position.has(root)) position.set(root, i);
+  });
+  const group = (job: JobHistoryEntry) => position.get(roots.get(job.jobId) ?? job.jobId) ?? 0;
+  return [...jobs].sort((a, b) => group(a) - group(b) || a.submitTime.localeCompare(b.submitTime));
+}
+
+// The last history query of each login, so paging through it does not run sacct again
+interface CachedHistory {
+  key: string;
+  jobs: JobHistoryEntry[];
+  loadedAt: number;
+}
+
+const HISTORY_CACHE_TTL = 60 * 1000;
+
+const globalForHistory = globalThis as unknown as { jobHistoryCache?: Map<string, CachedHistory> };
+const historyCache: Map<string, CachedHistory> = globalForHistory.jobHistoryCache ?? (globalForHistory.jobHistoryCache = new Map());
+
+/**
+ * getHistory, reusing the same query's result from the last minute unless `refresh` is set.
+ */
+export async function getCachedHistory(
+  credentials: SSHCredentials,
+  user: string,
+  filter: JobHistoryFilter,
+  refresh = false
+): Promise<JobHistoryEntry[]> {
+  const owner = credentials.poolId ?? `${credentials.username}@${credentials.host}`;
+  const { start, end, states = [], partition = '', name = '', search = '', groupReruns = false } = filter;
+  const key = JSON.stringify([user, start, end, [...states].sort(), partition, name, search, groupReruns]);
+  const now = Date.now();
+  const cached = historyCache.get(owner);
+  if (!refresh && cached && cached.key === key && now - cached.loadedAt < HISTORY_CACHE_TTL) {
+    return cached.jobs;
+  }
+
+  const jobs = await getHistory(credentials, user, filter);
+  for (const [other, entry] of historyCache) {
+    if (now - entry.loadedAt >= HISTORY_CACHE_TTL) historyCache.delete(other);
+  }
+  historyCache.set(owner, { key, jobs, loadedAt: now });
+  return jobs;
+}
+
+export const USAGE_FIELDS = [
+  'JobID', 'JobName', 'Partition', 'Account', 'State', 'End', 'NNodes', 'AllocCPUS', 'Elapsed', 'Timelimit',
+  'TotalCPU', 'AllocTRES', 'MaxRSS',
+];
+
+/**
+ * Accounting for the user's `limit` most recently finished jobs of the last `days` days,
+ * newest first. Memory use is that of the step that used the most: the total over its tasks
+ * where sacct reports it (TRESUsageInTot, Slurm 18.08 and later), otherwise its largest task
+ * (MaxRSS).
+ */
+export async function getJobUsage(credentials: SSHCredentials, user: string, limit: number, days: number): Promise<JobUsage[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const rows = await querySacct(credentials, sh`-u ${user} -S ${since} -E now`, USAGE_FIELDS, ['TRESUsageInTot', 'TRESUsageInAve']);
+
+  const steps = new Map<string, Record<string, string>[]>();
+  for (const row of rows) {
+    const dot = row.JobID.indexOf('.');
+    if (dot < 0) continue;
+    const jobId = row.JobID.slice(0, dot);
+    steps.set(jobId, [...(steps.get(jobId) ?? []), row]);
+  }
+
+  return rows
+    .filter(row => !row.JobID.includes('.'))
+    .map((row): JobUsage => {
+      const jobSteps = steps.get(row.JobID) ?? [];
+      const peaks = jobSteps
+        .map(step => parseMemory(parseTres(step.TRESUsageInTot).mem ?? '') ?? parseMemory(step.MaxRSS))
+        .filter((bytes): bytes is number => bytes !== null);
+      const gpuUtilization = jobSteps
+        .map(step => parseFloat(parseTres(step.TRESUsageInAve)['gres/gpuutil'] ?? ''))
+        .filter(value => !Number.isNaN(value));
+      const allocated = parseTres(row.AllocTRES);
+      return {
+        jobId: row.JobID,
+        name: row.JobName,
+        partition: row.Partition,
+        account: row.Account,
+        state: parseJobState(row.State),
+        endTime: present(row.End),
+        nodes: Number(row.NNodes) || 1,
+        cpus: Number(row.AllocCPUS) || 0,
+        elapsed: parseDuration(row.Elapsed) ?? 0,
+        timeLimit: parseDuration(row.Timelimit),
+        cpuTime: parseDuration(row.TotalCPU) ?? 0,
+        memoryAllocated: parseMemory(allocated.mem ?? ''),
+        memoryPeak: peaks.length > 0 ? Math.max(...peaks) : null,
+        gpus: Number(allocated['gres/gpu']) || 0,
+        gpuUtilization: gpuUtilization.length > 0 ? gpuUtilization.reduce((a, b) => a + b, 0) / gpuUtilization.length : null,
+      };
+    })
+    .filter(job => FINISHED_STATES.includes(job.state) && job.elapsed > 0)
+    .sort((a, b) => b.endTime.localeCompare(a.endTime))
+    .slice(0, limit);
+}
+
+// The fields of the job composer's form
+export interface JobTemplate {
+  name: string;
+  partition: string;
+  account: string;
+  nodes: number;
+  cpus: number;
+  memory: string;
+  time: string;
+  script: string;
+  // Set when submitting the template reruns this job
+  parentJobId?: string;
+}
+
+// Options the job composer writes itself (or that conflict with its --mem), so the script
+// keeps only the others: output files, GPUs, ...
+const COMPOSER_OPTIONS =
+  /^#SBATCH\s+(--(job-name|partition|account|nodes|cpus-per-task|mem|mem-per-cpu|mem-per-gpu|time)(?=[=\s]|$)|-[JpANct])/;
+
+/**
+ * Options that may have been given on the sbatch command line rather than in the script,
+ * as directives for the ones the script does not set itself. Output paths are left out:
+ * Slurm only keeps them with the job ID already filled in.
+ */
+function submitDirectives(job: JobDetails, script: string): string[] {
+  const sets = (option: RegExp) => script.split('\n').some(line => option.test(line.trim()));
+  const quoted = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+  const directives: string[] = [];
+  if (job.workDir && !sets(/^#SBATCH\s+(--chdir|-D)\b/)) directives.push(`--chdir=${quoted(job.workDir)}`);
+  if (job.qos && !sets(/^#SBATCH\s+(--qos|-q)\b/)) directives.push(`--qos=${job.qos}`);
+  const constraint = present(job.fields.Features ?? job.fields.Constraints);
+  if (constraint && !sets(/^#SBATCH\s+(--constraint|-C)\b/)) directives.push(`--constraint=${quoted(constraint)}`);
+  const gpus = job.requestedTres['gres/gpu'];
+  if (gpus && !sets(/^#SBATCH\s+--(gres|gpus)/)) directives.push(`--gres=gpu:${gpus}`);
+  return directives.map(directive => `#SBATCH ${directive}`);
+}
+
+/**
+ * A job's request, submit options and batch script in the form the job composer takes, to
+ * submit again. Fails when Slurm no longer has the script.
+ */
+export async function jobTemplate(credentials: SSHCredentials, jobId: string): Promise<JobTemplate> {
+  const job = await inspectJob(credentials, jobId);
+  if (job.batchScript === null) {
+    throw new Error(`The batch script of job ${jobId} is no longer available`);
+  }
+  const lines = job.batchScript.split('\n');
+  if (lines[0]?.startsWith('#!')) lines.shift();
+  const nodes = Number(job.requestedTres.node) || 1;
+  const memory = parseMemory(job.requestedTres.mem ?? '');
+  return {
+    name: job.name,
+    partition: job.partition,
+    account: job.account,
+    nodes,
+    cpus: Math.max(1, Math.round((Number(job.requestedTres.cpu) || 1) / nodes)),
+    memory: memory ? memoryRequest(memory / nodes) : '1G',
+    time: job.timeLimit === null ? 'UNLIMITED' : formatDuration(job.timeLimit),
+    script: [...submitDirectives(job, job.batchScript), ...lines.filter(line => !COMPOSER_OPTIONS.test(line.trim()))].join('\n').trim(),
+  };
+}
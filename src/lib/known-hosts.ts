@@ -0,0 +1,110 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { DATA_DIR, getConfig } from './config';
+
+export interface HostKeyInfo {
+  host: string;
+  port: number;
+  algorithm: string;
+  fingerprint: string;
+}
+
+export type HostKeyCheck =
+  | { status: 'trusted'; hostKey: HostKeyInfo }
+  | { status: 'unknown'; hostKey: HostKeyInfo }
+  | { status: 'mismatch'; hostKey: HostKeyInfo; expected: string[]; pinnedBy: 'config' | 'store' };
+
+// OpenSSH known_hosts format, so entries can be copied to or from ~/.ssh/known_hosts
+export const KNOWN_HOSTS_PATH = process.env.KAMIAK_GUI_KNOWN_HOSTS || path.join(DATA_DIR, 'known_hosts');
+
+interface KnownHostEntry {
+  hosts: string[];
+  algorithm: string;
+  key: Buffer;
+}
+
+// Same naming as OpenSSH: bare host on port 22, "[host]:port" otherwise
+function hostPattern(host: string, port: number) {
+  return port === 22 ? host.toLowerCase() : `[${host.toLowerCase()}]:${port}`;
+}
+
+export function fingerprint(key: Buffer) {
+  return `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
+
+// The key blob starts with its algorithm name as an SSH string
+function keyAlgorithm(key: Buffer) {
+  if (key.length < 4) return 'unknown';
+  const length = key.readUInt32BE(0);
+  return key.toString('ascii', 4, Math.min(key.length, 4 + length));
+}
+
+function readEntries(): KnownHostEntry[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(KNOWN_HOSTS_PATH, 'utf8');
+  } catch {
+    return [];
+  }
+
+  const entries: KnownHostEntry[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    // Hashed hosts and @cert-authority/@revoked markers are not supported
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('|') || trimmed.startsWith('@')) continue;
+    const [hosts, algorithm, key] = trimmed.split(/\s+/);
+    if (!hosts || !algorithm || !key) continue;
+    entries.push({
+      hosts: hosts.toLowerCase().split(','),
+      algorithm,
+      key: Buffer.from(key, 'base64'),
+    });
+  }
+  return entries;
+}
+
+function configuredFingerprints(host: string, port: number): string[] | null {
+  const knownHosts = getConfig().knownHosts;
+  if (!knownHosts) return null;
+  const pattern = hostPattern(host, port);
+  const match = Object.entries(knownHosts).find(([name]) => name.toLowerCase() === pattern);
+  if (!match) return null;
+  return (Array.isArray(match[1]) ? match[1] : [match[1]]).map(fp => fp.trim());
+}
+
+/**
+ * Checks a server's host key against fingerprints pinned in the config (which take
+ * precedence) and keys previously accepted into the known_hosts store.
+ */
+export function checkHostKey(host: string, port: number, key: Buffer): HostKeyCheck {
+  const hostKey: HostKeyInfo = { host, port, algorithm: keyAlgorithm(key), fingerprint: fingerprint(key) };
+
+  const pinned = configuredFingerprints(host, port);
+  if (pinned) {
+    // Older configs may leave off the "SHA256:" prefix
+    const matches = pinned.some(fp => fp === hostKey.fingerprint || `SHA256:${fp}` === hostKey.fingerprint);
+    return matches
+      ? { status: 'trusted', hostKey }
+      : { status: 'mismatch', hostKey, expected: pinned, pinnedBy: 'config' };
+  }
+
+  const pattern = hostPattern(host, port);
+  const known = readEntries().filter(entry => entry.hosts.includes(pattern));
+  if (known.length === 0) {
+    return { status: 'unknown', hostKey };
+  }
+  if (known.some(entry => entry.key.equals(key))) {
+    return { status: 'trusted', hostKey };
+  }
+  return { status: 'mismatch', hostKey, expected: known.map(entry => fingerprint(entry.key)), pinnedBy: 'store' };
+}
+
+/**
+ * Records a host key the user accepted on first connection.
+ */
+export function trustHostKey(host: string, port: number, key: Buffer) {
+  fs.mkdirSync(path.dirname(KNOWN_HOSTS_PATH), { recursive: true, mode: 0o700 });
+  const line = `${hostPattern(host, port)} ${keyAlgorithm(key)} ${key.toString('base64')}\n`;
+  fs.appendFileSync(KNOWN_HOSTS_PATH, line, { mode: 0o600 });
+}
@@ -0,0 +1,52 @@
+import { SSHCredentials, executeCommand } from './ssh';
+import { path as shellPath, sh, validateJobId } from './shell';
+
+/**
+ * Which jobs are reruns of which, kept on the cluster as one JSON line per resubmitted job
+ * ({"job": "124", "parent": "123"}). Appending a line is atomic, so concurrent submissions
+ * cannot lose each other's entries.
+ */
+
+const LINEAGE_DIR = '~/.kamiak-gui';
+const LINEAGE_FILE = `${LINEAGE_DIR}/lineage.jsonl`;
+
+// Each resubmitted job's parent, by job ID
+export async function readLineage(credentials: SSHCredentials): Promise<Map<string, string>> {
+  const parents = new Map<string, string>();
+  const result = await executeCommand(credentials, sh`cat ${shellPath(LINEAGE_FILE)} 2>/dev/null`);
+  if (result.code !== 0) {
+    return parents;
+  }
+  for (const line of result.stdout.split('\n')) {
+    try {
+      const { job, parent } = JSON.parse(line);
+      if (typeof job === 'string' && typeof parent === 'string') parents.set(job, parent);
+    } catch {
+      // A line cut short by a full disk; the others still count
+    }
+  }
+  return parents;
+}
+
+export async function recordLineage(credentials: SSHCredentials, jobId: string, parentJobId: string): Promise<void> {
+  const line = JSON.stringify({ job: validateJobId(jobId), parent: validateJobId(parentJobId) });
+  const result = await executeCommand(credentials,
+    sh`mkdir -p ${shellPath(LINEAGE_DIR)} && chmod 700 ${shellPath(LINEAGE_DIR)} && printf '%s\\n' ${line} >> ${shellPath(LINEAGE_FILE)}`);
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'Failed to record the job lineage');
+  }
+}
+
+// The first job in a chain of reruns
+export function lineageRoot(jobId: string, parents: Map<string, string>): string {
+  const seen = new Set<string>();
+  let root = jobId;
+  // The file is user-writable, so guard against cycles
+  while (!seen.has(root)) {
+    seen.add(root);
+    const parent = parents.get(root);
+    if (parent === undefined) break;
+    root = parent;
+  }
+  return root;
+}
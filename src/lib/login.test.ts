@@ -0,0 +1,176 @@
+import { AddressInfo } from 'net';
+import { Server, utils } from 'ssh2';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { beginLogin, cancelLogin, continueLogin, LoginStep } from './login';
+import { DEFAULT_PROFILE } from './profiles';
+import { SSHCredentials, closeConnections, executeCommand } from './ssh';
+
+// Host keys are covered elsewhere; here every server is already trusted
+vi.mock('./known-hosts', () => ({
+  checkHostKey: (host: string, port: number) => ({
+    status: 'trusted',
+    hostKey: { host, port, algorithm: 'ssh-ed25519', fingerprint: 'SHA256:test' },
+  }),
+  trustHostKey: vi.fn(),
+}));
+
+const PASSWORD = 'hunter2';
+const PASSCODE = '424242';
+
+// What the stand-in sshd saw, reset for each test
+const seen = { connections: 0, rounds: 0, commands: [] as string[], answers: [] as string[][] };
+
+/**
+ * An in-process sshd that only offers keyboard-interactive, asking like a Duo-enabled cluster:
+ * the password, then which factor to use, then the passcode. Any wrong answer fails the login.
+ */
+const server = new Server({ hostKeys: [utils.generateKeyPairSync('ed25519').private] }, (client) => {
+  seen.connections++;
+  client.on('authentication', (ctx) => {
+    if (ctx.method !== 'keyboard-interactive') {
+      return ctx.reject(['keyboard-interactive']);
+    }
+    const rounds: [string, boolean, string][] = [
+      ['Password: ', false, PASSWORD],
+      ['Passcode or option (1-2): ', true, '1'],
+      ['Enter the passcode from Duo Mobile: ', true, PASSCODE],
+    ];
+    const ask = (round: number) => {
+      const [prompt, echo, expected] = rounds[round];
+      seen.rounds++;
+      ctx.prompt([{ prompt, echo }], 'Duo two-factor login', '', (answers) => {
+        seen.answers.push(answers);
+        if (answers.length !== 1 || answers[0] !== expected) return ctx.reject();
+        if (round + 1 < rounds.length) return ask(round + 1);
+        ctx.accept();
+      });
+    };
+    ask(0);
+  });
+  client.on('ready', () => {
+    client.on('session', (accept) => {
+      accept().on('exec', (acceptExec, _reject, info) => {
+        seen.commands.push(info.command);
+        const stream = acceptExec();
+        stream.write(`ran ${info.command}\n`);
+        stream.exit(0);
+        stream.end();
+      });
+    });
+  });
+  client.on('error', () => undefined);
+});
+
+let credentials: SSHCredentials;
+const logins: SSHCredentials[] = [];
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  credentials = { host: '127.0.0.1', port, username: 'alice', password: PASSWORD };
+});
+
+afterEach(() => {
+  logins.splice(0).forEach(closeConnections);
+  Object.assign(seen, { connections: 0, rounds: 0, commands: [], answers: [] });
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+function expectChallenge(step: LoginStep) {
+  expect(step.status).toBe('challenge');
+  return step as Extract<LoginStep, { status: 'challenge' }>;
+}
+
+describe('keyboard-interactive login', () => {
+  it('answers the password itself and relays each further round to the user', async () => {
+    const first = expectChallenge(await beginLogin(credentials, DEFAULT_PROFILE));
+    expect(first.challenge).toMatchObject({
+      host: '127.0.0.1',
+      name: 'Duo two-factor login',
+      prompts: [{ prompt: 'Passcode or option (1-2): ', echo: true }],
+    });
+    // The password round never reached the user
+    expect(seen.answers).toEqual([[PASSWORD]]);
+
+    const second = expectChallenge(await continueLogin(first.loginId, ['1']));
+    expect(second.loginId).toBe(first.loginId);
+    expect(second.challenge.prompts[0].prompt).toBe('Enter the passcode from Duo Mobile: ');
+
+    const done = await continueLogin(second.loginId, [PASSCODE]);
+    expect(done.status).toBe('authenticated');
+    if (done.status !== 'authenticated') return;
+    logins.push(done.credentials);
+    // A login that needed the user cannot be redone behind their back
+    expect(done.credentials.reconnect).toBe(false);
+    expect(done.credentials.poolId).toBeTruthy();
+    expect(seen.rounds).toBe(3);
+  });
+
+  it('reuses the authenticated connection for commands without prompting again', async () => {
+    const first = expectChallenge(await beginLogin(credentials, DEFAULT_PROFILE));
+    await continueLogin(first.loginId, ['1']);
+    const done = await continueLogin(first.loginId, [PASSCODE]);
+    if (done.status !== 'authenticated') throw new Error(`Login ${done.status}`);
+    logins.push(done.credentials);
+
+    const results = await Promise.all([
+      executeCommand(done.credentials, 'hostname'),
+      executeCommand(done.credentials, 'squeue -u alice'),
+    ]);
+    expect(await executeCommand(done.credentials, 'whoami')).toMatchObject({ stdout: 'ran whoami\n', code: 0 });
+    expect(results.map(result => result.stdout)).toEqual(['ran hostname\n', 'ran squeue -u alice\n']);
+    expect(seen.commands).toHaveLength(3);
+    expect(seen.connections).toBe(1);
+    expect(seen.rounds).toBe(3);
+  });
+
+  it('fails the login on a wrong answer', async () => {
+    const first = expectChallenge(await beginLogin(credentials, DEFAULT_PROFILE));
+    const second = expectChallenge(await continueLogin(first.loginId, ['1']));
+
+    const done = await continueLogin(second.loginId, ['000000']);
+    expect(done.status).toBe('failed');
+    expect(seen.answers.at(-1)).toEqual(['000000']);
+    // Nothing is left waiting for another answer
+    expect(await continueLogin(second.loginId, [PASSCODE])).toEqual({
+      status: 'failed',
+      error: 'Login expired. Please start again.',
+    });
+  });
+
+  it('does not send the stored password to prompts that are not for it', async () => {
+    const first = expectChallenge(await beginLogin({ ...credentials, password: undefined }, DEFAULT_PROFILE));
+    expect(first.challenge.prompts).toEqual([{ prompt: 'Password: ', echo: false }]);
+    expect(seen.answers).toEqual([]);
+    cancelLogin(first.loginId);
+  });
+
+  it('gives up on the server when the user cancels', async () => {
+    const first = expectChallenge(await beginLogin(credentials, DEFAULT_PROFILE));
+    cancelLogin(first.loginId);
+
+    expect(await continueLogin(first.loginId, ['1'])).toEqual({
+      status: 'failed',
+      error: 'Login expired. Please start again.',
+    });
+    // The cancelled prompt was answered with nothing, which the server refuses
+    await vi.waitFor(() => expect(seen.answers.at(-1)).toEqual([]));
+    expect(seen.rounds).toBe(2);
+  });
+
+  it('abandons a login left waiting on a prompt for five minutes', async () => {
+    const timers = vi.spyOn(globalThis, 'setTimeout');
+    const first = expectChallenge(await beginLogin(credentials, DEFAULT_PROFILE));
+    // The login's own timer is set before the connection's handshake timeout
+    const [expire] = timers.mock.calls.find(([, delay]) => delay === 5 * 60 * 1000)!;
+    timers.mockRestore();
+
+    (expire as () => void)();
+    expect(await continueLogin(first.loginId, ['1'])).toEqual({
+      status: 'failed',
+      error: 'Login expired. Please start again.',
+    });
+    await vi.waitFor(() => expect(seen.answers.at(-1)).toEqual([]));
+  });
+});
@@ -0,0 +1,128 @@
+import { randomBytes } from 'crypto';
+import { AuthChallenge, HostKeyError, SSHCredentials, authenticate } from './ssh';
+import { HostKeyInfo } from './known-hosts';
+import { ClusterProfile } from './profiles';
+
+export interface HostKeyMismatch extends HostKeyInfo {
+  expected: string[];
+  pinnedBy: 'config' | 'store';
+}
+
+export type LoginStep =
+  | { status: 'challenge'; loginId: string; challenge: AuthChallenge }
+  | { status: 'hostkey'; loginId: string; hostKey: HostKeyInfo }
+  | { status: 'authenticated'; credentials: SSHCredentials; profile: ClusterProfile }
+  | { status: 'failed'; error: string; hostKeyMismatch?: HostKeyMismatch };
+
+interface PendingLogin {
+  id: string;
+  next: Promise<LoginStep>;
+  report: (step: LoginStep) => void;
+  answer: ((answers: string[]) => void) | null;
+  confirm: ((accepted: boolean) => void) | null;
+  timer: NodeJS.Timeout;
+}
+
+const LOGIN_TIMEOUT = 5 * 60 * 1000; // Abandon logins left waiting on a prompt
+
+// Logins waiting on the user to answer a keyboard-interactive prompt
+const globalForLogins = globalThis as unknown as { pendingLogins?: Map<string, PendingLogin> };
+const pendingLogins: Map<string, PendingLogin> = globalForLogins.pendingLogins ?? (globalForLogins.pendingLogins = new Map());
+
+function createStep() {
+  let report: (step: LoginStep) => void = () => undefined;
+  const next = new Promise<LoginStep>(resolve => { report = resolve; });
+  return { next, report };
+}
+
+async function waitForStep(login: PendingLogin): Promise<LoginStep> {
+  const step = await login.next;
+  Object.assign(login, createStep());
+  if (step.status === 'authenticated' || step.status === 'failed') {
+    clearTimeout(login.timer);
+    pendingLogins.delete(login.id);
+  }
+  return step;
+}
+
+/**
+ * Starts authenticating `credentials` on a fresh connection. Resolves with either the
+ * first question for the user (an unknown host key or a server prompt), or the final outcome.
+ */
+export async function beginLogin(credentials: SSHCredentials, profile: ClusterProfile): Promise<LoginStep> {
+  const id = randomBytes(16).toString('hex');
+  const login: PendingLogin = {
+    id,
+    ...createStep(),
+    answer: null,
+    confirm: null,
+    timer: setTimeout(() => cancelLogin(id), LOGIN_TIMEOUT),
+  };
+  login.timer.unref();
+  pendingLogins.set(login.id, login);
+
+  const poolCredentials = { ...credentials, poolId: randomBytes(16).toString('hex') };
+
+  authenticate(
+    poolCredentials,
+    challenge => new Promise<string[]>(resolve => {
+      login.answer = resolve;
+      login.report({ status: 'challenge', loginId: login.id, challenge });
+    }),
+    hostKey => new Promise<boolean>(resolve => {
+      login.confirm = resolve;
+      login.report({ status: 'hostkey', loginId: login.id, hostKey });
+    })
+  )
+    .then(({ interactive }) => {
+      login.report({ status: 'authenticated', credentials: { ...poolCredentials, reconnect: !interactive }, profile });
+    })
+    .catch(error => {
+      const step: LoginStep = { status: 'failed', error: (error as Error).message || 'Authentication failed' };
+      if (error instanceof HostKeyError && error.check.status === 'mismatch') {
+        const { hostKey, expected, pinnedBy } = error.check;
+        step.hostKeyMismatch = { ...hostKey, expected, pinnedBy };
+      }
+      login.report(step);
+    });
+
+  return waitForStep(login);
+}
+
+/**
+ * Relays the user's answers for the current prompt and waits for the next step.
+ */
+export async function continueLogin(loginId: string, answers: string[]): Promise<LoginStep> {
+  const login = pendingLogins.get(loginId);
+  if (!login || !login.answer) {
+    return { status: 'failed', error: 'Login expired. Please start again.' };
+  }
+  const answer = login.answer;
+  login.answer = null;
+  answer(answers);
+  return waitForStep(login);
+}
+
+/**
+ * Accepts or rejects the host key shown to the user and waits for the next step.
+ */
+export async function confirmHostKey(loginId: string, accepted: boolean): Promise<LoginStep> {
+  const login = pendingLogins.get(loginId);
+  if (!login || !login.confirm) {
+    return { status: 'failed', error: 'Login expired. Please start again.' };
+  }
+  const confirm = login.confirm;
+  login.confirm = null;
+  confirm(accepted);
+  return waitForStep(login);
+}
+
+export function cancelLogin(loginId: string) {
+  const login = pendingLogins.get(loginId);
+  if (!login) return;
+  clearTimeout(login.timer);
+  pendingLogins.delete(loginId);
+  // Empty answers make the server reject the attempt, which closes the connection
+  login.answer?.([]);
+  login.confirm?.(false);
+}
@@ -0,0 +1,193 @@
+import { randomBytes } from 'crypto';
+import { SSHCredentials, executeCommand, streamCommand } from './ssh';
+import { ShellFragment, raw, sh } from './shell';
+
+/**
+ * Long-running file operations (copies, moves, ...) that run on the cluster in the
+ * background while the browser polls for progress.
+ *
+ * An operation is a shell script that starts the work in the background and reports on
+ * stdout, one line each:
+ *   TOTAL <bytes>     expected size of the work, if it can be measured
+ *   PID <pid>         the worker process, so it can be cancelled
+ *   PROGRESS <bytes>  repeated while the worker runs
+ *   EXIT <code>       the worker's exit status
+ */
+
+export type OperationKind = 'copy' | 'move' | 'archive' | 'extract' | 'scan';
+export type OperationStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface OperationInfo {
+  id: string;
+  kind: OperationKind;
+  label: string;
+  status: OperationStatus;
+  totalBytes: number | null;
+  doneBytes: number;
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+interface Operation extends OperationInfo {
+  // Operations belong to the login that started them
+  owner: string;
+  credentials: SSHCredentials;
+  pid?: number;
+  cancelRequested: boolean;
+}
+
+const PROGRESS_INTERVAL = 2; // seconds
+const FINISHED_RETENTION = 60 * 60 * 1000; // Finished operations stay listed for an hour
+const MAX_ERROR_LENGTH = 2000;
+
+const globalForOperations = globalThis as unknown as { fileOperations?: Map<string, Operation> };
+const operations: Map<string, Operation> = globalForOperations.fileOperations ?? (globalForOperations.fileOperations = new Map());
+
+function ownerOf(credentials: SSHCredentials) {
+  return credentials.poolId ?? `${credentials.username}@${credentials.host}`;
+}
+
+function toInfo(operation: Operation): OperationInfo {
+  const { id, kind, label, status, totalBytes, doneBytes, error, startedAt, finishedAt } = operation;
+  return { id, kind, label, status, totalBytes, doneBytes, error, startedAt, finishedAt };
+}
+
+function killWorker(operation: Operation) {
+  executeCommand(operation.credentials, sh`kill ${operation.pid as number}`).catch(error => {
+    console.warn(`Could not stop operation ${operation.id}: ${(error as Error).message}`);
+  });
+}
+
+function prune() {
+  const cutoff = Date.now() - FINISHED_RETENTION;
+  for (const [id, operation] of operations) {
+    if (operation.finishedAt && operation.finishedAt < cutoff) operations.delete(id);
+  }
+}
+
+/**
+ * Wraps `work` in the reporting protocol above. `measure` and `progress` are commands that
+ * print a byte count for the total and for what has been done so far. `progress` can refer
+ * to the worker as $pid. `finish` runs after the worker with its exit status in $exit_code,
+ * and may change it.
+ */
+export function monitoredScript(work: string, measure: string | null, progress: string | null, finish: string | null = null): string {
+  const lines = [];
+  if (measure) {
+    lines.push(sh`echo "TOTAL $(${raw(measure)})"`);
+  }
+  lines.push(`${work} &`, 'pid=$!', 'echo "PID $pid"');
+  lines.push(progress
+    ? sh`while kill -0 $pid 2>/dev/null; do echo "PROGRESS $(${raw(progress)})"; sleep ${PROGRESS_INTERVAL}; done`
+    : sh`while kill -0 $pid 2>/dev/null; do sleep ${PROGRESS_INTERVAL}; done`);
+  lines.push('wait $pid', 'exit_code=$?');
+  if (finish) lines.push(finish);
+  lines.push('echo "EXIT $exit_code"');
+  return lines.join('\n');
+}
+
+// Total apparent size in bytes of the given paths, 0 for paths that do not exist
+export function sizeOf(paths: ShellFragment[]): string {
+  return sh`du -sbc -- ${paths} 2>/dev/null | tail -n 1 | cut -f 1`;
+}
+
+/**
+ * Starts `script` in the background and returns straight away.
+ */
+export async function startOperation(
+  credentials: SSHCredentials,
+  kind: OperationKind,
+  label: string,
+  script: string
+): Promise<OperationInfo> {
+  prune();
+  const operation: Operation = {
+    id: randomBytes(8).toString('hex'),
+    kind,
+    label,
+    status: 'running',
+    totalBytes: null,
+    doneBytes: 0,
+    startedAt: Date.now(),
+    owner: ownerOf(credentials),
+    credentials,
+    cancelRequested: false,
+  };
+
+  const channel = await streamCommand(credentials, script);
+  operations.set(operation.id, operation);
+
+  let stdout = '';
+  let stderr = '';
+  let exitCode: number | null = null;
+  channel.on('data', (data: Buffer) => {
+    stdout += data.toString();
+    const lines = stdout.split('\n');
+    stdout = lines.pop() ?? '';
+    for (const line of lines) {
+      const [key, value] = line.trim().split(/\s+/);
+      const number = Number(value);
+      if (!Number.isFinite(number)) continue;
+      if (key === 'TOTAL') {
+        operation.totalBytes = number;
+      } else if (key === 'PID') {
+        operation.pid = number;
+        // Cancelled before the worker had started
+        if (operation.cancelRequested) killWorker(operation);
+      } else if (key === 'PROGRESS') {
+        operation.doneBytes = number;
+      } else if (key === 'EXIT') {
+        exitCode = number;
+      }
+    }
+  });
+  channel.stderr.on('data', (data: Buffer) => {
+    stderr = (stderr + data.toString()).slice(-MAX_ERROR_LENGTH);
+  });
+  channel.on('close', () => {
+    operation.finishedAt = Date.now();
+    if (operation.cancelRequested) {
+      operation.status = 'cancelled';
+    } else if (exitCode === 0) {
+      operation.status = 'done';
+      if (operation.totalBytes !== null) operation.doneBytes = operation.totalBytes;
+    } else {
+      operation.status = 'failed';
+      operation.error = stderr.trim() || (exitCode === null ? 'Connection lost while the operation was running' : `Exited with status ${exitCode}`);
+    }
+  });
+
+  return toInfo(operation);
+}
+
+export function listOperations(credentials: SSHCredentials): OperationInfo[] {
+  prune();
+  const owner = ownerOf(credentials);
+  return [...operations.values()]
+    .filter(operation => operation.owner === owner)
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .map(toInfo);
+}
+
+/**
+ * Stops the worker process. Whatever it already wrote is left in place.
+ */
+export function cancelOperation(credentials: SSHCredentials, id: string) {
+  const operation = operations.get(id);
+  if (!operation || operation.owner !== ownerOf(credentials)) {
+    throw new Error('Operation not found');
+  }
+  if (operation.status !== 'running') return;
+  operation.cancelRequested = true;
+  if (operation.pid) {
+    killWorker(operation);
+  }
+}
+
+export function clearFinishedOperations(credentials: SSHCredentials) {
+  const owner = ownerOf(credentials);
+  for (const [id, operation] of operations) {
+    if (operation.owner === owner && operation.status !== 'running') operations.delete(id);
+  }
+}
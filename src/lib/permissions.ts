@@ -0,0 +1,167 @@
+import { SSHCredentials, executeCommand } from './ssh';
+import { ShellArgumentError, path as shellPath, sh } from './shell';
+
+export type AclType = 'user' | 'group' | 'mask' | 'other';
+
+export interface AclEntry {
+  // Default entries (directories only) are inherited by new files created inside
+  isDefault: boolean;
+  type: AclType;
+  // User or group name; empty for the owner, owning group, mask and other entries
+  qualifier: string;
+  permissions: string; // e.g. "rw-"
+}
+
+export interface FileProperties {
+  path: string;
+  isDirectory: boolean;
+  owner: string;
+  group: string;
+  mode: number; // Permission bits including setuid/setgid/sticky, e.g. 0o2775
+  // Groups the logged-in user belongs to, i.e. what chgrp will accept
+  groups: string[];
+  // Null when the file system or cluster has no ACL support (getfacl missing or failing)
+  acl: AclEntry[] | null;
+}
+
+export interface PermissionChanges {
+  mode?: number;
+  group?: string;
+  aclAdd?: AclEntry[];
+  aclRemove?: AclEntry[];
+  // Apply to everything inside a directory as well
+  recursive?: boolean;
+}
+
+const ACL_TYPES: Record<string, AclType> = { user: 'user', u: 'user', group: 'group', g: 'group', mask: 'mask', m: 'mask', other: 'other', o: 'other' };
+
+function parseAcl(output: string): AclEntry[] {
+  const entries: AclEntry[] = [];
+  for (const rawLine of output.split('\n')) {
+    // Effective rights follow a tab ("#effective:r-x"); they are derived, not stored
+    const line = rawLine.split('\t')[0].trim();
+    if (!line || line.startsWith('#')) continue;
+    const parts = line.split(':');
+    const isDefault = parts[0] === 'default';
+    if (isDefault) parts.shift();
+    const type = ACL_TYPES[parts[0]];
+    if (!type || parts.length !== 3) continue;
+    entries.push({ isDefault, type, qualifier: parts[1], permissions: parts[2] });
+  }
+  return entries;
+}
+
+export async function getProperties(credentials: SSHCredentials, remotePath: string): Promise<FileProperties> {
+  const target = shellPath(remotePath);
+  const script = [
+    sh`stat -L -c '%U:%G:%f:%F' -- ${target} && readlink -f -- ${target} || exit 1`,
+    'echo __GROUPS__; id -Gn',
+    sh`echo __ACL__; getfacl -p -- ${target} 2>/dev/null || echo __NOACL__`,
+  ].join('\n');
+  const result = await executeCommand(credentials, script);
+  if (result.code !== 0 && !result.stdout.includes('__GROUPS__')) {
+    throw new Error(result.stderr.trim() || `Cannot read ${remotePath}`);
+  }
+
+  const [head, rest = ''] = result.stdout.split('__GROUPS__\n');
+  const [groupsOutput, aclOutput = ''] = rest.split('__ACL__\n');
+  const [statLine, resolved] = head.trim().split('\n');
+  const [owner, group, rawMode, type] = statLine.split(':');
+
+  return {
+    path: resolved || remotePath,
+    isDirectory: type === 'directory',
+    owner,
+    group,
+    mode: parseInt(rawMode, 16) & 0o7777,
+    groups: groupsOutput.trim().split(/\s+/).filter(Boolean),
+    acl: aclOutput.includes('__NOACL__') ? null : parseAcl(aclOutput),
+  };
+}
+
+function validateGroup(value: string): string {
+  if (!/^[\w.-]+$/.test(value)) {
+    throw new ShellArgumentError(`Invalid group name "${value}"`);
+  }
+  return value;
+}
+
+// setfacl takes comma-separated entries, so names must not smuggle in extra ones
+function aclSpec(entry: AclEntry, withPermissions: boolean): string {
+  if (!ACL_TYPES[entry.type]) {
+    throw new ShellArgumentError(`Invalid ACL entry type "${entry.type}"`);
+  }
+  if (entry.qualifier && !/^[\w.-]+$/.test(entry.qualifier)) {
+    throw new ShellArgumentError(`Invalid user or group name "${entry.qualifier}"`);
+  }
+  if (withPermissions && !/^[r-][w-][xX-]$/.test(entry.permissions)) {
+    throw new ShellArgumentError(`Invalid ACL permissions "${entry.permissions}"`);
+  }
+  if (!withPermissions && !entry.qualifier) {
+    throw new ShellArgumentError('Only entries for a named user or group can be removed');
+  }
+  const spec = `${entry.isDefault ? 'default:' : ''}${entry.type}:${entry.qualifier}`;
+  return withPermissions ? `${spec}:${entry.permissions}` : spec;
+}
+
+/**
+ * A recursive chmod that does not make every file executable: execute bits become `X`
+ * (directories, and files that were already executable), like `chmod -R u=rwX,g=rX,o=`.
+ */
+function symbolicMode(mode: number): string {
+  const classes: [string, number][] = [['u', 6], ['g', 3], ['o', 0]];
+  return classes.map(([who, shift]) => {
+    const bits = (mode >> shift) & 7;
+    return `${who}=${bits & 4 ? 'r' : ''}${bits & 2 ? 'w' : ''}${bits & 1 ? 'X' : ''}`;
+  }).join(',');
+}
+
+/**
+ * Applies ownership, mode and ACL changes, stopping at the first command that fails.
+ */
+export async function setProperties(credentials: SSHCredentials, remotePath: string, changes: PermissionChanges): Promise<void> {
+  const target = shellPath(remotePath);
+  const recursive = changes.recursive ? '-R' : [];
+  const commands: string[] = [];
+
+  if (changes.group) {
+    commands.push(sh`chgrp ${recursive} -- ${validateGroup(changes.group)} ${target}`);
+  }
+  if (changes.mode !== undefined) {
+    const mode = changes.mode;
+    if (!Number.isInteger(mode) || mode < 0 || mode > 0o7777) {
+      throw new ShellArgumentError('Invalid mode');
+    }
+    if (changes.recursive) {
+      commands.push(sh`chmod -R ${symbolicMode(mode)} -- ${target}`);
+      // setgid on directories makes new files inherit the group; it means nothing useful on files
+      commands.push(sh`find ${target} -type d -exec chmod ${mode & 0o2000 ? 'g+s' : 'g-s'} {} +`);
+    } else {
+      // GNU chmod keeps a directory's setuid/setgid bits when given plain octal, so set them explicitly
+      const special = `u${mode & 0o4000 ? '+' : '-'}s,g${mode & 0o2000 ? '+' : '-'}s`;
+      commands.push(sh`chmod ${mode.toString(8).padStart(4, '0')} -- ${target}`, sh`chmod ${special} -- ${target}`);
+    }
+  }
+  const editAcl = (flag: '-x' | '-m', entries: AclEntry[] = []) => {
+    const specs = (list: AclEntry[]) => list.map(entry => aclSpec(entry, flag === '-m')).join(',');
+    const access = entries.filter(entry => !entry.isDefault);
+    const defaults = entries.filter(entry => entry.isDefault);
+    if (access.length > 0) {
+      commands.push(sh`setfacl ${recursive} ${flag} ${specs(access)} -- ${target}`);
+    }
+    if (defaults.length > 0) {
+      // Only directories can carry default entries, so a recursive change skips files
+      commands.push(changes.recursive
+        ? sh`find ${target} -type d -exec setfacl ${flag} ${specs(defaults)} {} +`
+        : sh`setfacl ${flag} ${specs(defaults)} -- ${target}`);
+    }
+  };
+  editAcl('-x', changes.aclRemove);
+  editAcl('-m', changes.aclAdd);
+  if (commands.length === 0) return;
+
+  const result = await executeCommand(credentials, commands.join(' && '));
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'Failed to change permissions');
+  }
+}
@@ -0,0 +1,35 @@
+import type { ClusterProfile } from './profiles';
+
+// Browser-side storage for profiles users create themselves. They hold no secrets.
+const STORAGE_KEY = 'kamiak-gui.profiles';
+const LAST_PROFILE_KEY = 'kamiak-gui.last-profile';
+
+export function loadUserProfiles(): ClusterProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserProfile(profile: ClusterProfile): ClusterProfile[] {
+  const profiles = loadUserProfiles().filter(p => p.id !== profile.id);
+  profiles.push({ ...profile, managed: false });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function deleteUserProfile(profileId: string): ClusterProfile[] {
+  const profiles = loadUserProfiles().filter(p => p.id !== profileId);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function getLastProfileId(): string | null {
+  return localStorage.getItem(LAST_PROFILE_KEY);
+}
+
+export function setLastProfileId(profileId: string) {
+  localStorage.setItem(LAST_PROFILE_KEY, profileId);
+}
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ClusterProfile } from './profiles';
+
+const config = vi.hoisted(() => ({ profiles: undefined as Partial<ClusterProfile>[] | undefined }));
+vi.mock('./config', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./config')>(),
+  getConfig: () => config,
+}));
+
+import { DEFAULT_PROFILE, resolveProfile } from './profiles';
+
+const GATEWAY_PROFILE: Partial<ClusterProfile> = {
+  id: 'hpc',
+  name: 'Campus HPC',
+  host: 'login.hpc.example.edu',
+  port: 2222,
+  jumpHosts: [{ host: 'gw.example.edu' }],
+};
+
+beforeEach(() => {
+  config.profiles = undefined;
+});
+
+describe('resolveProfile', () => {
+  it('takes a managed profile from the config, not from the browser', () => {
+    const profile = resolveProfile({ ...DEFAULT_PROFILE, partition: 'free', cacheDir: '/tmp' }, { host: 'kamiak.wsu.edu' });
+    expect(profile).toEqual({ ...DEFAULT_PROFILE, managed: true });
+  });
+
+  it('refuses a managed profile for a login to another host', () => {
+    expect(() => resolveProfile({ id: 'kamiak' }, { host: 'attacker.example.com' }))
+      .toThrow('The Kamiak profile only connects to kamiak.wsu.edu. Choose a custom profile to connect elsewhere.');
+    expect(() => resolveProfile({ id: 'kamiak' }, { host: 'kamiak.wsu.edu', port: 2200 })).toThrow(/only connects to/);
+  });
+
+  it('accepts the managed route whatever the case of the host names', () => {
+    config.profiles = [GATEWAY_PROFILE];
+    const login = { host: 'LOGIN.hpc.example.edu', port: 2222, jumpHosts: [{ host: 'gw.example.edu', port: 22 }] };
+    expect(resolveProfile({ id: 'hpc' }, login)).toMatchObject({ id: 'hpc', managed: true });
+  });
+
+  it('refuses a managed profile whose jump hosts were changed', () => {
+    config.profiles = [GATEWAY_PROFILE];
+    const login = { host: 'login.hpc.example.edu', port: 2222 };
+    const message = 'The Campus HPC profile only connects to login.hpc.example.edu through gw.example.edu. Choose a custom profile to connect elsewhere.';
+    expect(() => resolveProfile({ id: 'hpc' }, login)).toThrow(message);
+    expect(() => resolveProfile({ id: 'hpc' }, { ...login, jumpHosts: [{ host: 'other.example.com' }] })).toThrow(message);
+    expect(() => resolveProfile({ id: 'hpc' }, { ...login, jumpHosts: [{ host: 'gw.example.edu' }, { host: 'gw2.example.edu' }] }))
+      .toThrow(message);
+  });
+
+  it('builds a custom profile for the login host otherwise', () => {
+    const profile = resolveProfile({ id: 'user:1', name: 'Lab cluster', host: 'elsewhere', partition: 'short' }, { host: 'lab.example.edu' });
+    expect(profile).toMatchObject({ id: 'user:1', name: 'Lab cluster', host: 'lab.example.edu', partition: 'short', managed: false });
+    expect(resolveProfile(undefined, { host: 'lab.example.edu' })).toMatchObject({ id: 'custom:lab.example.edu', managed: false });
+  });
+
+  it('validates custom profiles', () => {
+    expect(() => resolveProfile({ id: 'user:1', partition: 'short; rm -rf ~' }, { host: 'lab.example.edu' })).toThrow();
+  });
+});
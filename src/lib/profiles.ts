@@ -0,0 +1,137 @@
+import { getConfig } from './config';
+import { sh, validateAccount, validateModule, validatePartition } from './shell';
+import { StorageArea, validateStorageArea } from './storage';
+
+export type AuthMethod = 'password' | 'key' | 'agent';
+
+// Secrets are never part of a profile; they are entered at login
+export interface ProfileHost {
+  host: string;
+  port?: number;
+  username?: string;
+  authMethod?: AuthMethod;
+}
+
+export interface ClusterProfile extends ProfileHost {
+  id: string;
+  name: string;
+  jumpHosts?: ProfileHost[];
+  // Slurm defaults for jobs the console submits
+  partition: string;
+  account?: string;
+  // Partition for the job composer's GPU template
+  gpuPartition: string;
+  // Environment modules loaded by the LLM and notebook jobs
+  modules: {
+    python: string;
+    cuda: string;
+  };
+  // Hugging Face cache used for downloaded models
+  cacheDir: string;
+  // Storage areas and how to read their quotas, for the overview
+  storage?: StorageArea[];
+  // Set for profiles defined by the administrator in the config file
+  managed?: boolean;
+}
+
+export const DEFAULT_PROFILE: ClusterProfile = {
+  id: 'kamiak',
+  name: 'Kamiak',
+  host: 'kamiak.wsu.edu',
+  partition: 'kamiak',
+  gpuPartition: 'gpu',
+  modules: {
+    python: 'python3/3.13.1',
+    cuda: 'cuda/12.2.0',
+  },
+  cacheDir: '$HOME/.cache/huggingface/hub',
+  storage: [
+    { label: 'Home', path: '~', tool: 'quota' },
+    { label: 'Scratch', path: '/scratch', tool: 'quota' },
+    { label: 'Group storage', path: '/data/lab', tool: 'quota', group: true },
+  ],
+};
+
+function withDefaults(profile: Partial<ClusterProfile>): ClusterProfile {
+  return {
+    ...DEFAULT_PROFILE,
+    ...profile,
+    modules: { ...DEFAULT_PROFILE.modules, ...profile.modules },
+  } as ClusterProfile;
+}
+
+/**
+ * Profiles published by the administrator in the config file, or the built-in Kamiak profile.
+ */
+export function getManagedProfiles(): ClusterProfile[] {
+  const profiles = getConfig().profiles;
+  if (!profiles || profiles.length === 0) {
+    return [{ ...DEFAULT_PROFILE, managed: true }];
+  }
+  return profiles.map(profile => ({ ...withDefaults(profile), managed: true }));
+}
+
+// These values end up in #SBATCH lines, where shell quoting does not apply
+export function validateProfile(profile: ClusterProfile) {
+  validatePartition(profile.partition);
+  if (profile.account) validateAccount(profile.account);
+  validatePartition(profile.gpuPartition);
+  validateModule(profile.modules.python);
+  validateModule(profile.modules.cuda);
+  if (!profile.cacheDir.trim()) {
+    throw new Error('Profile needs a model cache directory');
+  }
+  profile.storage?.forEach(area => validateStorageArea(area, profile.managed));
+}
+
+// Where a login connects to, without its secrets
+export interface LoginRoute {
+  host: string;
+  port?: number;
+  jumpHosts?: { host: string; port?: number }[];
+}
+
+const sameHost = (a: { host: string; port?: number }, b: { host: string; port?: number }) =>
+  a.host.toLowerCase() === b.host.toLowerCase() && (a.port ?? 22) === (b.port ?? 22);
+
+/**
+ * Settles which profile a login uses. Managed profiles always come from the config so
+ * their cluster settings cannot be overridden by the browser, and a login that goes
+ * anywhere else than the managed host and jump hosts is refused; anything else is validated.
+ */
+export function resolveProfile(requested: Partial<ClusterProfile> | undefined, login: LoginRoute): ClusterProfile {
+  const managed = getManagedProfiles().find(p => p.id === requested?.id);
+  if (managed) {
+    const jumpHosts = login.jumpHosts ?? [];
+    const expected = managed.jumpHosts ?? [];
+    if (!sameHost(login, managed) || jumpHosts.length !== expected.length || jumpHosts.some((jump, i) => !sameHost(jump, expected[i]))) {
+      const through = expected.length > 0 ? ` through ${expected.map(jump => jump.host).join(', ')}` : '';
+      throw new Error(`The ${managed.name} profile only connects to ${managed.host}${through}. Choose a custom profile to connect elsewhere.`);
+    }
+    return managed;
+  }
+  const profile = withDefaults({
+    id: `custom:${login.host}`,
+    name: login.host,
+    ...requested,
+    host: login.host,
+    managed: false,
+  });
+  validateProfile(profile);
+  return profile;
+}
+
+/**
+ * `#SBATCH` lines for the profile's default partition and account.
+ */
+export function sbatchDefaults(profile: ClusterProfile) {
+  const lines = [`#SBATCH --partition=${profile.partition}`];
+  if (profile.account) {
+    lines.push(`#SBATCH --account=${profile.account}`);
+  }
+  return lines.join('\n');
+}
+
+export function moduleLoads(profile: ClusterProfile) {
+  return sh`module load ${profile.modules.python}\nmodule load ${profile.modules.cuda}`;
+}
@@ -0,0 +1,21 @@
+// Browser-side list of folders recently opened in the file manager, most recent first.
+// Kept per connection, since the same path means different things on different clusters.
+const STORAGE_KEY = 'kamiak-gui.recent-locations';
+const MAX_RECENT = 15;
+
+const keyFor = (connection: string) => `${STORAGE_KEY}:${connection}`;
+
+export function loadRecentLocations(connection: string): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(keyFor(connection)) || '[]');
+    return Array.isArray(stored) ? stored.filter(p => typeof p === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addRecentLocation(connection: string, path: string): string[] {
+  const recent = [path, ...loadRecentLocations(connection).filter(p => p !== path)].slice(0, MAX_RECENT);
+  localStorage.setItem(keyFor(connection), JSON.stringify(recent));
+  return recent;
+}
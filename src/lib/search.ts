@@ -0,0 +1,168 @@
+import { StringDecoder } from 'string_decoder';
+import { SSHCredentials, streamCommand } from './ssh';
+import { ShellArgumentError, path as shellPath, sh } from './shell';
+
+/**
+ * Recursive searches under a folder on the cluster: by name and attributes with `find`, or
+ * by content with ripgrep (grep when rg is not installed). Results are streamed to the
+ * browser as newline-delimited JSON while the search is still running.
+ */
+
+export type SearchMode = 'name' | 'content';
+export type SearchType = 'any' | 'file' | 'directory' | 'symlink';
+
+export interface SearchQuery {
+  mode: SearchMode;
+  // A glob for name searches, a regular expression (or fixed string) for content searches
+  pattern: string;
+  caseSensitive?: boolean;
+  // Name searches
+  type?: SearchType;
+  minSize?: number; // bytes
+  maxSize?: number; // bytes
+  modifiedWithinDays?: number;
+  notModifiedWithinDays?: number;
+  // Content searches
+  fixedString?: boolean;
+  include?: string; // Only search files whose name matches this glob, e.g. *.py
+}
+
+export interface SearchResult {
+  path: string;
+  // Name searches
+  type?: SearchType;
+  size?: number;
+  mtime?: number; // Milliseconds since the epoch
+  // Content searches
+  line?: number;
+  text?: string;
+}
+
+export type SearchEvent =
+  | { type: 'result'; result: SearchResult }
+  | { type: 'done'; count: number; truncated: boolean; timedOut: boolean; error?: string };
+
+const MAX_RESULTS = 1000;
+const SEARCH_TIMEOUT = 60; // seconds
+const MAX_LINE_LENGTH = 300;
+
+const FIND_TYPES: Record<string, SearchType> = { f: 'file', d: 'directory', l: 'symlink' };
+
+function validateNumber(value: number | undefined, label: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (!Number.isFinite(value) || value < 0) {
+    throw new ShellArgumentError(`${label} must be a positive number`);
+  }
+  return value;
+}
+
+function nameSearch(query: SearchQuery, root: string): string {
+  const tests: (string | number)[] = [];
+  const type = query.type && query.type !== 'any' ? query.type[0] : null;
+  if (type) tests.push('-type', type);
+  if (query.pattern) tests.push(query.caseSensitive ? '-name' : '-iname', query.pattern);
+  const minSize = validateNumber(query.minSize, 'Minimum size');
+  const maxSize = validateNumber(query.maxSize, 'Maximum size');
+  // find compares whole units, so "+Nc" means strictly more than N bytes
+  if (minSize) tests.push('-size', `+${Math.ceil(minSize) - 1}c`);
+  if (maxSize !== undefined) tests.push('-size', `-${Math.floor(maxSize) + 1}c`);
+  const within = validateNumber(query.modifiedWithinDays, 'Modified within');
+  const notWithin = validateNumber(query.notModifiedWithinDays, 'Not modified within');
+  if (within) tests.push('-mmin', `-${Math.round(within * 24 * 60)}`);
+  if (notWithin) tests.push('-mmin', `+${Math.round(notWithin * 24 * 60)}`);
+
+  // NUL-terminated records, so any file name survives the trip
+  return sh`{ timeout ${SEARCH_TIMEOUT} find -H ${shellPath(root)} -mindepth 1 ${tests} -printf '%y\\t%s\\t%T@\\t%p\\0' 2>/dev/null; [ $? -ne 124 ] || echo __TIMEOUT__ >&2; } | head -z -n ${MAX_RESULTS + 1}`;
+}
+
+function contentSearch(query: SearchQuery, root: string): string {
+  if (!query.pattern) {
+    throw new ShellArgumentError('Enter text to search for');
+  }
+  const rgFlags: (string | number)[] = ['--null', '--line-number', '--no-heading', '--with-filename', '--color', 'never', '--hidden', '--no-ignore',
+    '--max-columns', MAX_LINE_LENGTH, '--max-columns-preview'];
+  const grepFlags: string[] = ['-rnIHZ'];
+  if (!query.caseSensitive) {
+    rgFlags.push('-i');
+    grepFlags.push('-i');
+  }
+  if (query.fixedString) rgFlags.push('-F');
+  grepFlags.push(query.fixedString ? '-F' : '-E');
+  if (query.include) {
+    rgFlags.push('-g', query.include);
+    grepFlags.push(`--include=${query.include}`);
+  }
+  const target = shellPath(root);
+
+  // Records are "path\0line:text\n" from both tools
+  return sh`{ if command -v rg >/dev/null 2>&1; then timeout ${SEARCH_TIMEOUT} rg ${rgFlags} -e ${query.pattern} -- ${target}; else timeout ${SEARCH_TIMEOUT} grep ${grepFlags} -e ${query.pattern} -- ${target}; fi 2>/dev/null; [ $? -ne 124 ] || echo __TIMEOUT__ >&2; } | head -n ${MAX_RESULTS + 1}`;
+}
+
+function parseNameRecord(record: string): SearchResult | null {
+  const [type, size, mtime, ...rest] = record.split('\t');
+  const path = rest.join('\t');
+  if (!path) return null;
+  return { path, type: FIND_TYPES[type] ?? 'any', size: Number(size), mtime: Math.round(Number(mtime) * 1000) };
+}
+
+function parseContentRecord(record: string): SearchResult | null {
+  const separator = record.indexOf('\0');
+  if (separator < 0) return null;
+  const match = /^(\d+):([\s\S]*)$/.exec(record.slice(separator + 1));
+  if (!match) return null;
+  return { path: record.slice(0, separator), line: Number(match[1]), text: match[2].slice(0, MAX_LINE_LENGTH) };
+}
+
+/**
+ * Starts a search under `root` (which must be a resolved folder path) and returns its
+ * events as newline-delimited JSON. Cancelling the stream stops the search on the cluster.
+ */
+export async function startSearch(credentials: SSHCredentials, root: string, query: SearchQuery): Promise<ReadableStream<Uint8Array>> {
+  const script = query.mode === 'content' ? contentSearch(query, root) : nameSearch(query, root);
+  const [terminator, parse] = query.mode === 'content' ? ['\n', parseContentRecord] : ['\0', parseNameRecord];
+  const channel = await streamCommand(credentials, script);
+  const encoder = new TextEncoder();
+  const decoder = new StringDecoder('utf8');
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let pending = '';
+      let stderr = '';
+      let count = 0;
+      let truncated = false;
+      const send = (event: SearchEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+
+      channel.on('data', (data: Buffer) => {
+        const records = (pending + decoder.write(data)).split(terminator);
+        pending = records.pop() ?? '';
+        for (const record of records) {
+          const result = parse(record);
+          if (!result) continue;
+          // One more than the cap was requested, to tell "exactly the cap" from "more"
+          if (count === MAX_RESULTS) {
+            truncated = true;
+            continue;
+          }
+          count++;
+          send({ type: 'result', result });
+        }
+      });
+      channel.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+      channel.on('close', () => {
+        const timedOut = stderr.includes('__TIMEOUT__');
+        const error = stderr.replace('__TIMEOUT__', '').trim();
+        try {
+          send({ type: 'done', count, truncated, timedOut, error: error || undefined });
+          controller.close();
+        } catch {
+          // The browser went away first
+        }
+      });
+    },
+    cancel() {
+      channel.destroy();
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkResponse, onSessionExpired, watchSession } from './session-expiry';
+
+const expired = vi.fn();
+let stop = onSessionExpired(expired);
+
+afterEach(() => {
+  stop();
+  expired.mockReset();
+  stop = onSessionExpired(expired);
+});
+
+describe('watchSession', () => {
+  const actions = {
+    listFiles: async (path: string) => ({ success: true, files: [path] }),
+    getTrash: async () => ({ success: false, error: 'Not authenticated', sessionExpired: true }),
+    getQueue: async () => ({ success: false, error: 'squeue failed', sessionExpired: false }),
+  };
+
+  it('passes results on unchanged', async () => {
+    const { listFiles, getTrash } = watchSession(actions);
+    expect(await listFiles('/home/alice')).toEqual({ success: true, files: ['/home/alice'] });
+    expect(await getTrash()).toEqual({ success: false, error: 'Not authenticated', sessionExpired: true });
+  });
+
+  it('reports only results flagged sessionExpired', async () => {
+    const { listFiles, getTrash, getQueue } = watchSession(actions);
+    await listFiles('~');
+    await getQueue();
+    expect(expired).not.toHaveBeenCalled();
+    await getTrash();
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops reporting to a listener that unsubscribed', async () => {
+    stop();
+    await watchSession(actions).getTrash();
+    expect(expired).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkResponse', () => {
+  it('reports a 401 from the /api routes', () => {
+    const forbidden = new Response(null, { status: 403 });
+    expect(checkResponse(forbidden)).toBe(forbidden);
+    expect(expired).not.toHaveBeenCalled();
+    checkResponse(new Response(null, { status: 401 }));
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+});
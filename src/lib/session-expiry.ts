@@ -0,0 +1,45 @@
+// Browser side of session expiry. Server actions flag a lost session with `sessionExpired` and
+// the /api routes answer 401; either one sends the user back to the login screen.
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+/**
+ * Calls `listener` whenever a request finds the server session gone. Returns a function
+ * that stops listening.
+ */
+export function onSessionExpired(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function reportSessionExpired() {
+  listeners.forEach(listener => listener());
+}
+
+// Passes an /api response on, reporting a 401
+export function checkResponse(response: Response): Response {
+  if (response.status === 401) reportSessionExpired();
+  return response;
+}
+
+/**
+ * Wraps every server action of a module (imported with `import * as`) so that a result
+ * flagged `sessionExpired` is reported. The results themselves are passed on unchanged.
+ */
+export function watchSession<T extends object>(actions: T): T {
+  const watched: Record<string, unknown> = {};
+  for (const [name, action] of Object.entries(actions)) {
+    watched[name] = typeof action !== 'function' ? action : async (...args: unknown[]) => {
+      const result = await action(...args);
+      if (result && typeof result === 'object' && (result as { sessionExpired?: boolean }).sessionExpired) {
+        reportSessionExpired();
+      }
+      return result;
+    };
+  }
+  return watched as T;
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SSHCredentials } from './ssh';
+import { DEFAULT_PROFILE } from './profiles';
+
+// A cookie jar standing in for the browser's
+const jar = vi.hoisted(() => new Map<string, string>());
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (jar.has(name) ? { value: jar.get(name) } : undefined),
+    set: (name: string, value: string) => jar.set(name, value),
+    delete: (name: string) => jar.delete(name),
+  }),
+}));
+vi.mock('./ssh', () => ({ closeConnections: vi.fn() }));
+vi.mock('./config', () => ({ getConfig: () => ({}) }));
+
+import { SessionError, createSession, destroySession, requireCredentials, requireSessionId } from './session';
+
+const HOUR = 60 * 60 * 1000;
+const credentials: SSHCredentials = { host: 'kamiak.wsu.edu', username: 'alice' };
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  jar.clear();
+  await createSession(credentials, DEFAULT_PROFILE);
+});
+
+afterEach(async () => {
+  await destroySession();
+  vi.useRealTimers();
+});
+
+describe('session idle timeout', () => {
+  it('is pushed back by requests the user starts', async () => {
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(1.5 * HOUR);
+      await expect(requireCredentials()).resolves.toEqual(credentials);
+    }
+  });
+
+  it('is not pushed back by status polls', async () => {
+    // A tab left open polls every few seconds; none of that counts as activity
+    for (let i = 0; i < 8; i++) {
+      vi.advanceTimersByTime(15 * 60 * 1000);
+      await requireCredentials(false).catch(() => undefined);
+      await requireSessionId(false).catch(() => undefined);
+    }
+    vi.advanceTimersByTime(60 * 1000);
+    await expect(requireCredentials(false)).rejects.toBeInstanceOf(SessionError);
+    await expect(requireCredentials()).rejects.toBeInstanceOf(SessionError);
+  });
+
+  it('still ends at the absolute limit however active the user is', async () => {
+    for (let i = 0; i < 11; i++) {
+      vi.advanceTimersByTime(HOUR);
+      await requireCredentials();
+    }
+    vi.advanceTimersByTime(HOUR + 1000);
+    await expect(requireCredentials()).rejects.toBeInstanceOf(SessionError);
+  });
+});
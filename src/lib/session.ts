@@ -0,0 +1,229 @@
+import { cookies } from 'next/headers';
+import { randomBytes } from 'crypto';
+import { SSHCredentials, closeConnections } from './ssh';
+import { ClusterProfile } from './profiles';
+
+export interface SessionConnection {
+  host: string;
+  username: string;
+  profile: ClusterProfile;
+}
+
+// The active connection, plus every profile logged in to in this session
+export interface SessionUser extends SessionConnection {
+  connections: SessionConnection[];
+}
+
+interface ProfileLogin {
+  profile: ClusterProfile;
+  credentials: SSHCredentials;
+}
+
+interface Session {
+  id: string;
+  // Keyed by profile id; one browser session can stay logged in to several clusters
+  logins: Map<string, ProfileLogin>;
+  activeProfileId: string;
+  createdAt: number;
+  lastSeen: number;
+}
+
+export const SESSION_COOKIE = 'kamiak_session';
+const SESSION_IDLE_TIMEOUT = 2 * 60 * 60 * 1000; // 2 hours without activity
+const SESSION_MAX_AGE = 12 * 60 * 60 * 1000; // 12 hours absolute
+const SWEEP_INTERVAL = 5 * 60 * 1000;
+
+// Secrets live only in server memory; the browser holds an opaque id
+const globalForSessions = globalThis as unknown as {
+  sessions?: Map<string, Session>;
+  sessionSweeper?: NodeJS.Timeout;
+};
+const sessions: Map<string, Session> = globalForSessions.sessions ?? (globalForSessions.sessions = new Map());
+
+export class SessionError extends Error {
+  constructor(message = 'Not authenticated') {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+function isExpired(session: Session, now = Date.now()) {
+  return now - session.lastSeen > SESSION_IDLE_TIMEOUT || now - session.createdAt > SESSION_MAX_AGE;
+}
+
+function endSession(session: Session) {
+  sessions.delete(session.id);
+  // Each login has its own pool slot, so its connections can always be closed
+  session.logins.forEach(login => closeConnections(login.credentials));
+}
+
+function activeLogin(session: Session): ProfileLogin {
+  return session.logins.get(session.activeProfileId) as ProfileLogin;
+}
+
+function toConnection({ profile, credentials }: ProfileLogin): SessionConnection {
+  return { host: credentials.host, username: credentials.username, profile };
+}
+
+function toSessionUser(session: Session): SessionUser {
+  return {
+    ...toConnection(activeLogin(session)),
+    connections: [...session.logins.values()].map(toConnection),
+  };
+}
+
+function sweep() {
+  const now = Date.now();
+  for (const session of [...sessions.values()]) {
+    if (isExpired(session, now)) endSession(session);
+  }
+}
+
+function ensureSweeper() {
+  if (!globalForSessions.sessionSweeper) {
+    globalForSessions.sessionSweeper = setInterval(sweep, SWEEP_INTERVAL);
+    globalForSessions.sessionSweeper.unref();
+  }
+}
+
+/**
+ * Looks up a session by id. `touch` slides its idle expiry; background status polls pass
+ * false so a tab left open still times out. Usable outside of a request scope.
+ */
+export function getSessionById(id: string | undefined, touch = true): Session | null {
+  if (!id) return null;
+  const session = sessions.get(id);
+  if (!session) return null;
+  if (isExpired(session)) {
+    endSession(session);
+    return null;
+  }
+  if (touch) session.lastSeen = Date.now();
+  return session;
+}
+
+/**
+ * Records a successful login. If this browser already has a session the profile is added
+ * to it (replacing an earlier login to the same profile) and becomes the active one.
+ */
+export async function createSession(credentials: SSHCredentials, profile: ClusterProfile): Promise<SessionUser> {
+  ensureSweeper();
+  const cookieStore = await cookies();
+
+  const existing = getSessionById(cookieStore.get(SESSION_COOKIE)?.value);
+  if (existing) {
+    const previous = existing.logins.get(profile.id);
+    if (previous) closeConnections(previous.credentials);
+    existing.logins.set(profile.id, { profile, credentials });
+    existing.activeProfileId = profile.id;
+    return toSessionUser(existing);
+  }
+
+  const now = Date.now();
+  const session: Session = {
+    id: randomBytes(32).toString('base64url'),
+    logins: new Map([[profile.id, { profile, credentials }]]),
+    activeProfileId: profile.id,
+    createdAt: now,
+    lastSeen: now,
+  };
+  sessions.set(session.id, session);
+
+  cookieStore.set(SESSION_COOKIE, session.id, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE / 1000,
+  });
+
+  return toSessionUser(session);
+}
+
+export async function getSession(touch = true): Promise<Session | null> {
+  const cookieStore = await cookies();
+  return getSessionById(cookieStore.get(SESSION_COOKIE)?.value, touch);
+}
+
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = await getSession();
+  return session ? toSessionUser(session) : null;
+}
+
+async function requireLogin(touch = true): Promise<ProfileLogin> {
+  const session = await getSession(touch);
+  if (!session) {
+    throw new SessionError();
+  }
+  return activeLogin(session);
+}
+
+/**
+ * Resolves the SSH credentials of the active profile. Throws SessionError when logged out.
+ * Pass `touch` false for requests the user did not start, such as status polls.
+ */
+export async function requireCredentials(touch = true): Promise<SSHCredentials> {
+  return (await requireLogin(touch)).credentials;
+}
+
+/**
+ * The id of the logged-in session, which owns per-session server state such as tunnels.
+ * Never send it to the browser beyond the cookie.
+ */
+export async function requireSessionId(touch = true): Promise<string> {
+  const session = await getSession(touch);
+  if (!session) {
+    throw new SessionError();
+  }
+  return session.id;
+}
+
+/**
+ * Resolves the active profile (partition, modules, ...) for building job scripts.
+ */
+export async function requireProfile(): Promise<ClusterProfile> {
+  return (await requireLogin()).profile;
+}
+
+/**
+ * Makes another profile this session is logged in to the active one.
+ */
+export async function switchProfile(profileId: string): Promise<SessionUser> {
+  const session = await getSession();
+  if (!session) {
+    throw new SessionError();
+  }
+  if (!session.logins.has(profileId)) {
+    throw new Error('Not logged in to that profile');
+  }
+  session.activeProfileId = profileId;
+  return toSessionUser(session);
+}
+
+/**
+ * Logs out of one profile, keeping the rest of the session. Logging out of the last
+ * profile ends the session.
+ */
+export async function removeProfileLogin(profileId: string): Promise<SessionUser | null> {
+  const session = await getSession();
+  if (!session) return null;
+  const login = session.logins.get(profileId);
+  if (!login) return toSessionUser(session);
+  if (session.logins.size === 1) {
+    await destroySession();
+    return null;
+  }
+  session.logins.delete(profileId);
+  closeConnections(login.credentials);
+  if (session.activeProfileId === profileId) {
+    session.activeProfileId = session.logins.keys().next().value as string;
+  }
+  return toSessionUser(session);
+}
+
+export async function destroySession() {
+  const cookieStore = await cookies();
+  const session = getSessionById(cookieStore.get(SESSION_COOKIE)?.value);
+  if (session) endSession(session);
+  cookieStore.delete(SESSION_COOKIE);
+}
@@ -0,0 +1,429 @@
+import { randomBytes } from 'crypto';
+import posixPath from 'path/posix';
+import { Readable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import { Client, FileEntryWithStats, SFTPWrapper, Stats } from 'ssh2';
+import { SSHCredentials, withConnection } from './ssh';
+
+export interface RemoteEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  size: number;
+  mode: number;
+  permissions: string;
+  uid: number;
+  gid: number;
+  mtime: number; // Milliseconds since the epoch
+}
+
+// The server's partial upload is not where the client thought; `offset` is where to resume
+export class UploadOffsetError extends Error {
+  offset: number;
+
+  constructor(offset: number) {
+    super(`Upload is at byte ${offset}`);
+    this.name = 'UploadOffsetError';
+    this.offset = offset;
+  }
+}
+
+export class FileExistsError extends Error {
+  path: string;
+
+  constructor(path: string) {
+    super(`${path} already exists`);
+    this.name = 'FileExistsError';
+    this.path = path;
+  }
+}
+
+// The file changed on the cluster since the version the caller last read
+export class FileChangedError extends Error {
+  path: string;
+
+  constructor(path: string) {
+    super(`${path} was changed on the cluster`);
+    this.name = 'FileChangedError';
+    this.path = path;
+  }
+}
+
+// What a file looked like when it was read, to notice changes made by someone else
+export interface FileVersion {
+  mtime: number; // Milliseconds since the epoch
+  size: number;
+}
+
+export interface ReadOptions {
+  start?: number;
+  end?: number; // Inclusive, like fs.createReadStream
+}
+
+function openSftp(client: Client): Promise<SFTPWrapper> {
+  return new Promise((resolve, reject) => {
+    client.sftp((err, sftp) => err ? reject(err) : resolve(sftp));
+  });
+}
+
+// Wraps a callback-style SFTP call in a promise
+function call<T>(fn: (callback: (err: Error | undefined | null, result: T) => void) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    fn((err, result) => err ? reject(err) : resolve(result));
+  });
+}
+
+/**
+ * Runs `fn` on an SFTP session over a pooled connection. The session only lives for the call.
+ */
+export function withSftp<T>(credentials: SSHCredentials, fn: (sftp: SFTPWrapper) => Promise<T>): Promise<T> {
+  return withConnection(credentials, async (client) => {
+    const sftp = await openSftp(client);
+    try {
+      return await fn(sftp);
+    } finally {
+      sftp.end();
+    }
+  });
+}
+
+/**
+ * Turns `~`, `~/...` and relative paths into an absolute, normalised remote path.
+ * SFTP sessions start in the home directory, so relative paths resolve against it.
+ */
+export async function resolvePath(sftp: SFTPWrapper, remotePath: string): Promise<string> {
+  const relative = remotePath === '~' ? '.' : remotePath.replace(/^~\//, '');
+  return call<string>(cb => sftp.realpath(relative || '.', cb));
+}
+
+// ls -l style permission string, e.g. drwxr-xr-x
+export function formatMode(mode: number): string {
+  const type = (mode & 0o170000) === 0o040000 ? 'd' : (mode & 0o170000) === 0o120000 ? 'l' : '-';
+  const bits = ['r', 'w', 'x'];
+  let result = type;
+  for (let i = 8; i >= 0; i--) {
+    result += mode & (1 << i) ? bits[(8 - i) % 3] : '-';
+  }
+  // setuid, setgid and sticky bits replace the matching execute slot
+  const chars = result.split('');
+  if (mode & 0o4000) chars[3] = chars[3] === 'x' ? 's' : 'S';
+  if (mode & 0o2000) chars[6] = chars[6] === 'x' ? 's' : 'S';
+  if (mode & 0o1000) chars[9] = chars[9] === 'x' ? 't' : 'T';
+  return chars.join('');
+}
+
+function toEntry(remotePath: string, attrs: Stats, isSymlink = attrs.isSymbolicLink()): RemoteEntry {
+  return {
+    name: posixPath.basename(remotePath) || '/',
+    path: remotePath,
+    isDirectory: attrs.isDirectory(),
+    isSymlink,
+    size: attrs.size,
+    mode: attrs.mode,
+    permissions: formatMode(attrs.mode),
+    uid: attrs.uid,
+    gid: attrs.gid,
+    mtime: attrs.mtime * 1000,
+  };
+}
+
+export async function stat(credentials: SSHCredentials, remotePath: string): Promise<RemoteEntry> {
+  return withSftp(credentials, async (sftp) => {
+    const resolved = await resolveParent(sftp, remotePath);
+    const attrs = await call<Stats>(cb => sftp.lstat(resolved, cb));
+    if (!attrs.isSymbolicLink()) {
+      return toEntry(resolved, attrs);
+    }
+    // Describe what the link points at, but remember it is a link
+    const target = await call<Stats>(cb => sftp.stat(resolved, cb)).catch(() => attrs);
+    return toEntry(resolved, target, true);
+  });
+}
+
+/**
+ * Absolute path of an entry without following it if it is a symlink (realpath would).
+ * Only the folder it is in is resolved.
+ */
+export async function resolveParent(sftp: SFTPWrapper, remotePath: string): Promise<string> {
+  const name = posixPath.basename(remotePath);
+  if (remotePath === '~' || !name || name === '.' || name === '..') {
+    return resolvePath(sftp, remotePath);
+  }
+  const dir = await resolvePath(sftp, posixPath.dirname(remotePath));
+  return posixPath.join(dir, name);
+}
+
+/**
+ * Lists a directory with metadata from the SFTP server rather than parsed `ls` output.
+ */
+export async function readDirectory(credentials: SSHCredentials, remotePath: string): Promise<{ path: string; entries: RemoteEntry[] }> {
+  return withSftp(credentials, async (sftp) => {
+    const resolved = await resolvePath(sftp, remotePath);
+    const list = await call<FileEntryWithStats[]>(cb => sftp.readdir(resolved, cb));
+
+    const entries = await Promise.all(list
+      .filter(item => item.filename !== '.' && item.filename !== '..')
+      .map(async (item) => {
+        const itemPath = posixPath.join(resolved, item.filename);
+        if (!item.attrs.isSymbolicLink()) {
+          return toEntry(itemPath, item.attrs);
+        }
+        // Follow links so linked directories can be browsed into; broken links stay as links
+        const target = await call<Stats>(cb => sftp.stat(itemPath, cb)).catch(() => item.attrs);
+        return toEntry(itemPath, target, true);
+      }));
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    return { path: resolved, entries };
+  });
+}
+
+/**
+ * Opens a streaming read. The SFTP session and its connection slot are held until the
+ * stream ends or is destroyed.
+ */
+export function openReadStream(
+  credentials: SSHCredentials,
+  remotePath: string,
+  options: ReadOptions = {}
+): Promise<{ stream: Readable; entry: RemoteEntry }> {
+  return new Promise((resolve, reject) => {
+    let opened = false;
+    withSftp(credentials, async (sftp) => {
+      const resolved = await resolvePath(sftp, remotePath);
+      const attrs = await call<Stats>(cb => sftp.stat(resolved, cb));
+      if (attrs.isDirectory()) {
+        throw new Error(`${resolved} is a directory`);
+      }
+      const stream = sftp.createReadStream(resolved, options);
+      opened = true;
+      resolve({ stream, entry: toEntry(resolved, attrs) });
+      await finished(stream).catch(() => undefined);
+    }).catch(error => {
+      if (!opened) reject(error);
+    });
+  });
+}
+
+export async function readFile(credentials: SSHCredentials, remotePath: string, options: ReadOptions = {}): Promise<Buffer> {
+  const { stream } = await openReadStream(credentials, remotePath, options);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Writes a file atomically: the data goes to a temporary file next to the target, which
+ * then replaces it with a rename. Readers never see a half-written file, and an existing
+ * file keeps its permissions. With `expected`, throws FileChangedError instead of writing
+ * if the file no longer matches that version.
+ */
+export async function writeFileAtomic(
+  credentials: SSHCredentials,
+  remotePath: string,
+  data: string | Buffer | Readable,
+  expected?: FileVersion
+): Promise<RemoteEntry> {
+  return withSftp(credentials, async (sftp) => {
+    const target = await resolveTarget(sftp, remotePath);
+    const existing = await call<Stats>(cb => sftp.stat(target, cb)).catch(() => null);
+    if (existing?.isDirectory()) {
+      throw new Error(`${target} is a directory`);
+    }
+    if (expected && (!existing || existing.mtime * 1000 !== expected.mtime || existing.size !== expected.size)) {
+      throw new FileChangedError(target);
+    }
+
+    const temp = posixPath.join(posixPath.dirname(target), `.${posixPath.basename(target)}.kamiak-${randomBytes(4).toString('hex')}`);
+    const mode = existing ? existing.mode & 0o7777 : 0o644;
+    try {
+      const source = typeof data === 'string' || Buffer.isBuffer(data) ? Readable.from([Buffer.from(data)]) : data;
+      await pipeline(source, sftp.createWriteStream(temp, { mode }));
+      if (existing) {
+        await call<void>(cb => sftp.chmod(temp, mode, cb));
+      }
+      await rename(sftp, temp, target);
+    } catch (error) {
+      await call<void>(cb => sftp.unlink(temp, cb)).catch(() => undefined);
+      throw error;
+    }
+
+    return toEntry(target, await call<Stats>(cb => sftp.stat(target, cb)));
+  });
+}
+
+// Saving through a symlink should update the file it points to, not replace the link.
+// A new file does not exist yet, so resolve its directory instead.
+async function resolveTarget(sftp: SFTPWrapper, remotePath: string): Promise<string> {
+  if (remotePath === '~' || remotePath.endsWith('/')) {
+    throw new Error('A file name is required');
+  }
+  const existing = await resolvePath(sftp, remotePath).catch(() => null);
+  if (existing) {
+    return existing;
+  }
+  return resolveParent(sftp, remotePath);
+}
+
+async function exists(sftp: SFTPWrapper, remotePath: string): Promise<boolean> {
+  return call<Stats>(cb => sftp.lstat(remotePath, cb)).then(() => true, () => false);
+}
+
+export async function makeDirectory(credentials: SSHCredentials, remotePath: string): Promise<RemoteEntry> {
+  return withSftp(credentials, async (sftp) => {
+    const target = await resolveParent(sftp, remotePath);
+    if (await exists(sftp, target)) {
+      throw new FileExistsError(target);
+    }
+    await call<void>(cb => sftp.mkdir(target, cb));
+    return toEntry(target, await call<Stats>(cb => sftp.stat(target, cb)));
+  });
+}
+
+export async function createEmptyFile(credentials: SSHCredentials, remotePath: string): Promise<RemoteEntry> {
+  return withSftp(credentials, async (sftp) => {
+    const target = await resolveParent(sftp, remotePath);
+    // 'wx' fails if the file exists, so nothing is ever truncated
+    const handle = await call<Buffer>(cb => sftp.open(target, 'wx', cb)).catch(async (error) => {
+      throw await exists(sftp, target) ? new FileExistsError(target) : error;
+    });
+    await call<void>(cb => sftp.close(handle, cb));
+    return toEntry(target, await call<Stats>(cb => sftp.stat(target, cb)));
+  });
+}
+
+/**
+ * Renames or moves a single entry. Symlinks are renamed themselves, not their targets.
+ * An existing destination is only replaced when `overwrite` is set.
+ */
+export async function renameEntry(credentials: SSHCredentials, from: string, to: string, overwrite: boolean): Promise<void> {
+  return withSftp(credentials, async (sftp) => {
+    const source = await resolveParent(sftp, from);
+    const target = await resolveParent(sftp, to);
+    if (source === target) return;
+    if (await exists(sftp, target)) {
+      if (!overwrite) throw new FileExistsError(target);
+      await rename(sftp, source, target);
+    } else {
+      await call<void>(cb => sftp.rename(source, target, cb));
+    }
+  });
+}
+
+/**
+ * Which of `names` already exist in `remoteDir`.
+ */
+export async function findExisting(credentials: SSHCredentials, remoteDir: string, names: string[]): Promise<string[]> {
+  return withSftp(credentials, async (sftp) => {
+    const dir = await resolvePath(sftp, remoteDir);
+    const found = await Promise.all(names.map(name => exists(sftp, posixPath.join(dir, name))));
+    return names.filter((_, i) => found[i]);
+  });
+}
+
+// Creates `remoteDir` and any missing parents, like mkdir -p
+async function ensureDirectory(sftp: SFTPWrapper, remoteDir: string): Promise<void> {
+  const home = await resolvePath(sftp, '~');
+  const absolute = posixPath.resolve(home, remoteDir.replace(/^~(\/|$)/, ''));
+  let current = '/';
+  for (const part of absolute.split('/').filter(Boolean)) {
+    current = posixPath.join(current, part);
+    const existing = await call<Stats>(cb => sftp.stat(current, cb)).catch(() => null);
+    if (!existing) {
+      await call<void>(cb => sftp.mkdir(current, cb));
+    } else if (!existing.isDirectory()) {
+      throw new Error(`${current} is not a directory`);
+    }
+  }
+}
+
+// Uploads go to a hidden file next to the target, so an interrupted transfer leaves the
+// original untouched and can carry on from where it stopped
+function partialPath(target: string) {
+  return posixPath.join(posixPath.dirname(target), `.${posixPath.basename(target)}.kamiak-upload`);
+}
+
+/**
+ * How many bytes of an interrupted upload to `remotePath` are already on the server.
+ */
+export async function getUploadOffset(credentials: SSHCredentials, remotePath: string): Promise<number> {
+  return withSftp(credentials, async (sftp) => {
+    const target = await resolveTarget(sftp, remotePath).catch(() => null);
+    if (!target) return 0;
+    const partial = await call<Stats>(cb => sftp.stat(partialPath(target), cb)).catch(() => null);
+    return partial ? partial.size : 0;
+  });
+}
+
+/**
+ * Appends one chunk of an upload at `offset`, which must match what is already stored
+ * (otherwise UploadOffsetError says where to resume). Offset 0 starts over and creates
+ * missing folders. The last chunk moves the finished file into place.
+ */
+export async function writeUploadChunk(
+  credentials: SSHCredentials,
+  remotePath: string,
+  data: Readable,
+  offset: number,
+  last: boolean
+): Promise<{ offset: number; entry?: RemoteEntry }> {
+  return withSftp(credentials, async (sftp) => {
+    if (offset === 0) {
+      await ensureDirectory(sftp, posixPath.dirname(remotePath));
+    }
+    const target = await resolveTarget(sftp, remotePath);
+    const existing = await call<Stats>(cb => sftp.stat(target, cb)).catch(() => null);
+    if (existing?.isDirectory()) {
+      throw new Error(`${target} is a directory`);
+    }
+
+    const partial = partialPath(target);
+    if (offset > 0) {
+      const stored = await call<Stats>(cb => sftp.stat(partial, cb)).catch(() => null);
+      if ((stored?.size ?? 0) !== offset) {
+        throw new UploadOffsetError(stored?.size ?? 0);
+      }
+    }
+
+    const writer = sftp.createWriteStream(partial, { flags: offset === 0 ? 'w' : 'r+', start: offset });
+    await pipeline(data, writer);
+    const written = (await call<Stats>(cb => sftp.stat(partial, cb))).size;
+    if (!last) {
+      return { offset: written };
+    }
+
+    if (existing) {
+      await call<void>(cb => sftp.chmod(partial, existing.mode & 0o7777, cb));
+    }
+    await rename(sftp, partial, target);
+    return { offset: written, entry: toEntry(target, await call<Stats>(cb => sftp.stat(target, cb))) };
+  });
+}
+
+export async function discardUpload(credentials: SSHCredentials, remotePath: string): Promise<void> {
+  return withSftp(credentials, async (sftp) => {
+    const target = await resolveTarget(sftp, remotePath).catch(() => null);
+    if (target) {
+      await call<void>(cb => sftp.unlink(partialPath(target), cb)).catch(() => undefined);
+    }
+  });
+}
+
+/**
+ * Renames over an existing file. Plain SFTP rename refuses to overwrite, so this uses
+ * the OpenSSH posix-rename extension when the server has it.
+ */
+export async function rename(sftp: SFTPWrapper, from: string, to: string): Promise<void> {
+  try {
+    await call<void>(cb => sftp.ext_openssh_rename(from, to, cb));
+  } catch (error) {
+    if (!/not support/i.test((error as Error).message)) {
+      throw error;
+    }
+    await call<void>(cb => sftp.unlink(to, cb)).catch(() => undefined);
+    await call<void>(cb => sftp.rename(from, to, cb));
+  }
+}
@@ -0,0 +1,228 @@
+import { execFileSync } from 'child_process';
+import { describe, expect, it } from 'vitest';
+import {
+  ShellArgumentError,
+  heredoc,
+  path,
+  quote,
+  raw,
+  sh,
+  validateAccount,
+  validateCount,
+  validateJobId,
+  validateJobName,
+  validateMemory,
+  validateModule,
+  validatePartition,
+  validateTime,
+} from './shell';
+
+const HOME = '/home/tester';
+const env = { ...process.env, HOME };
+
+// Runs a command through a real POSIX shell and returns the arguments it saw, NUL-separated
+function argsSeen(command: string): string[] {
+  const output = execFileSync('/bin/sh', ['-c', `printf '%s\\0' ${command}`], {
+    env,
+    encoding: 'utf8',
+  });
+  return output.split('\0').slice(0, -1);
+}
+
+function run(command: string): string {
+  return execFileSync('/bin/sh', ['-c', command], { env, encoding: 'utf8' });
+}
+
+const HOSTILE_NAMES = [
+  "it's",
+  'say "hi"',
+  '$(touch /tmp/kamiak-pwned)',
+  '`touch /tmp/kamiak-pwned`',
+  '${HOME}',
+  'two\nlines',
+  'trailing newline\n',
+  '-rf',
+  '--help',
+  'a b\tc',
+  '*',
+  '; rm -rf ~',
+  '| cat',
+  '\'"\'"',
+  '',
+  'ünïcødé ✓',
+  '~',
+  '~root',
+];
+
+describe('quote', () => {
+  it.each(HOSTILE_NAMES)('passes %j through the shell unchanged', (name) => {
+    expect(argsSeen(quote(name))).toEqual([name]);
+  });
+
+  it('leaves plain words unquoted', () => {
+    expect(quote('job_1.out')).toBe('job_1.out');
+    expect(quote(42)).toBe('42');
+  });
+
+  it('rejects NUL bytes', () => {
+    expect(() => quote('a\0b')).toThrow(ShellArgumentError);
+  });
+});
+
+describe('path', () => {
+  it('expands a leading ~ or $HOME and quotes the rest', () => {
+    expect(argsSeen(path('~').text)).toEqual([HOME]);
+    // The same directory; the trailing slash is dropped
+    expect(argsSeen(path('~/').text)).toEqual([HOME]);
+    expect(argsSeen(path('~/my files/$(whoami)').text)).toEqual([`${HOME}/my files/$(whoami)`]);
+    expect(argsSeen(path('$HOME/data').text)).toEqual([`${HOME}/data`]);
+    expect(argsSeen(path('$HOME').text)).toEqual([HOME]);
+  });
+
+  it('does not expand ~ or $HOME anywhere else', () => {
+    expect(argsSeen(path('~root/x').text)).toEqual(['~root/x']);
+    expect(argsSeen(path('/data/~/x').text)).toEqual(['/data/~/x']);
+    expect(argsSeen(path('$HOMEDIR/x').text)).toEqual(['$HOMEDIR/x']);
+    expect(argsSeen(path('/data/$HOME').text)).toEqual(['/data/$HOME']);
+  });
+
+  it('keeps relative paths that start with - from being read as options', () => {
+    expect(argsSeen(path('-rf').text)).toEqual(['./-rf']);
+    expect(argsSeen(path('--no-preserve-root').text)).toEqual(['./--no-preserve-root']);
+    expect(argsSeen(path('~/-rf').text)).toEqual([`${HOME}/-rf`]);
+  });
+
+  it.each(HOSTILE_NAMES.filter(name => name && !name.startsWith('-') && !name.startsWith('~')))(
+    'quotes the file name %j under the home directory',
+    (name) => {
+      expect(argsSeen(path(`~/${name}`).text)).toEqual([`${HOME}/${name}`]);
+    }
+  );
+
+  it('rejects NUL bytes', () => {
+    expect(() => path('/tmp/a\0b')).toThrow(ShellArgumentError);
+    expect(() => path('~/a\0b')).toThrow(ShellArgumentError);
+  });
+});
+
+describe('heredoc', () => {
+  it('passes the body through without expansion', () => {
+    const body = 'echo $HOME `id` $(whoami)\n\'single\' "double"\n\\n\n';
+    expect(run(sh`cat ${heredoc(body)}`)).toBe(body);
+  });
+
+  it('adds the final newline the shell needs', () => {
+    expect(run(sh`cat ${heredoc('no newline')}`)).toBe('no newline\n');
+  });
+
+  it('picks a delimiter that does not occur in the body', () => {
+    const fragment = heredoc('x').text;
+    const delimiter = /^<< '([^']+)'/.exec(fragment)![1];
+    // A body that ends early on the first delimiter would run the rest as commands
+    const body = `${delimiter}\ntouch /tmp/kamiak-pwned\n${delimiter}`;
+    const doc = heredoc(body);
+    expect(doc.text).not.toContain(`'${delimiter}'`);
+    expect(run(sh`cat ${doc}`)).toBe(`${body}\n`);
+  });
+});
+
+describe('sh', () => {
+  it('quotes every interpolated value', () => {
+    const name = '$(rm -rf ~)';
+    expect(argsSeen(sh`${name} ${'a b'} ${7}`)).toEqual([name, 'a b', '7']);
+  });
+
+  it('joins arrays as separate arguments', () => {
+    expect(argsSeen(sh`${['-r', 'gpu;id']} ${[]}`)).toEqual(['-r', 'gpu;id']);
+  });
+
+  it('inserts fragments verbatim', () => {
+    expect(sh`ls ${raw('| wc -l')}`).toBe('ls | wc -l');
+  });
+});
+
+describe('validators', () => {
+  const hostile = [
+    "lab'",
+    'lab"',
+    '$(id)',
+    '`id`',
+    'lab\n#SBATCH --uid=0',
+    'lab\0',
+    '-lab',
+    '--uid=0',
+    'lab lab',
+    'lab;id',
+    '',
+  ];
+
+  it.each(hostile)('rejects the partition, account and module %j', (value) => {
+    expect(() => validatePartition(value)).toThrow(ShellArgumentError);
+    expect(() => validateAccount(value)).toThrow(ShellArgumentError);
+    expect(() => validateModule(value)).toThrow(ShellArgumentError);
+  });
+
+  it.each(hostile)('rejects the job name %j', (value) => {
+    expect(() => validateJobName(value)).toThrow(ShellArgumentError);
+  });
+
+  it('rejects job names longer than Slurm keeps', () => {
+    expect(() => validateJobName('x'.repeat(129))).toThrow(ShellArgumentError);
+    expect(validateJobName('x'.repeat(128))).toHaveLength(128);
+  });
+
+  it('accepts ordinary names', () => {
+    expect(validatePartition('cpu.long-2')).toBe('cpu.long-2');
+    expect(validateAccount('my_lab')).toBe('my_lab');
+    expect(validateJobName('sim+v2.run-1')).toBe('sim+v2.run-1');
+    expect(validateModule('python3/3.13.1')).toBe('python3/3.13.1');
+  });
+
+  it.each(['4G', '500m', '1024', '1T'])('accepts the memory %j', (value) => {
+    expect(validateMemory(value)).toBe(value);
+  });
+
+  it.each(['4GB', '4 G', '-4G', '4G;id', '$(id)', '4G\n#SBATCH --uid=0', 'G', '1.5G'])('rejects the memory %j', (value) => {
+    expect(() => validateMemory(value)).toThrow(ShellArgumentError);
+  });
+
+  it.each(['30', '30:00', '01:00:00', '2-00', '2-12:00', '2-12:00:00', 'UNLIMITED', 'infinite'])('accepts the time %j', (value) => {
+    expect(validateTime(value)).toBe(value);
+  });
+
+  it.each(['1h', '-1', '01:00:00;id', '`id`', '1:2:3:4', '01:00:00\n#SBATCH --uid=0', ''])('rejects the time %j', (value) => {
+    expect(() => validateTime(value)).toThrow(ShellArgumentError);
+  });
+
+  it('accepts job, array task and step IDs only', () => {
+    expect(validateJobId('123')).toBe('123');
+    expect(validateJobId('123_4')).toBe('123_4');
+    expect(validateJobId('123.batch')).toBe('123.batch');
+    for (const value of ['123;id', '-1', '$(id)', '123 456', 'abc', '', '123_', '123_x']) {
+      expect(() => validateJobId(value)).toThrow(ShellArgumentError);
+    }
+  });
+
+  it.each(['88124_[1-10%2]', '88124_[3]', '88124_[1,4,7-9]', '88124_[5-100%10]'])(
+    'accepts the pending array tasks %j',
+    (value) => {
+      expect(validateJobId(value)).toBe(value);
+      // scancel gets the range as one argument
+      expect(argsSeen(sh`${validateJobId(value)}`)).toEqual([value]);
+    }
+  );
+
+  it.each(['88124_[]', '88124_[1-10', '88124_[1-10]x', '88124_[$(id)]', '88124_[1 2]', '88124_[1-10];id', '88124_*'])(
+    'rejects the array task range %j',
+    (value) => {
+      expect(() => validateJobId(value)).toThrow(ShellArgumentError);
+    }
+  );
+
+  it('accepts whole counts of at least 1', () => {
+    expect(validateCount(2, 'Nodes')).toBe(2);
+    for (const value of [0, -1, 1.5, NaN]) {
+      expect(() => validateCount(value, 'Nodes')).toThrow(ShellArgumentError);
+    }
+  });
+});
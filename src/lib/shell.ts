@@ -0,0 +1,142 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Builds remote shell commands without string interpolation bugs. Every value that
+ * reaches `executeCommand` should pass through `sh` (which quotes it) or one of the
+ * validators below; only `raw` fragments are inserted verbatim.
+ */
+
+export class ShellArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellArgumentError';
+  }
+}
+
+// Text that `sh` inserts as-is; only create these from trusted strings or other helpers here
+export class ShellFragment {
+  readonly text: string;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  toString() {
+    return this.text;
+  }
+}
+
+export type ShellValue = string | number | ShellFragment | (string | number | ShellFragment)[];
+
+/**
+ * POSIX single-quoting: safe for any byte sequence except NUL.
+ */
+export function quote(value: string | number): string {
+  const text = String(value);
+  if (text.includes('\0')) {
+    throw new ShellArgumentError('Arguments cannot contain NUL bytes');
+  }
+  if (/^[\w@%+=:,./-]+$/.test(text)) {
+    return text;
+  }
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+export function raw(text: string): ShellFragment {
+  return new ShellFragment(text);
+}
+
+/**
+ * Quotes a remote path, keeping a leading `~` or `$HOME` expandable. Relative paths that
+ * start with `-` get a `./` prefix so commands cannot mistake them for options.
+ */
+export function path(value: string): ShellFragment {
+  const home = /^(~|\$HOME)(\/|$)/.exec(value);
+  if (!home) {
+    return raw(quote(value.startsWith('-') ? `./${value}` : value));
+  }
+  const rest = value.slice(home[0].length);
+  return raw(rest ? `"$HOME"/${quote(rest)}` : '"$HOME"');
+}
+
+/**
+ * A quoted here-document (no expansion inside). Must be the last thing on its command line.
+ */
+export function heredoc(content: string): ShellFragment {
+  let delimiter: string;
+  do {
+    delimiter = `KAMIAK_EOF_${randomBytes(6).toString('hex')}`;
+  } while (content.includes(delimiter));
+  const body = content.endsWith('\n') ? content : `${content}\n`;
+  return raw(`<< '${delimiter}'\n${body}${delimiter}\n`);
+}
+
+function render(value: ShellValue): string {
+  if (Array.isArray(value)) {
+    return value.map(render).join(' ');
+  }
+  if (value instanceof ShellFragment) {
+    return value.text;
+  }
+  return quote(value);
+}
+
+/**
+ * Tagged template that quotes every interpolated value: sh`rm -rf ${path(target)}`.
+ */
+export function sh(strings: TemplateStringsArray, ...values: ShellValue[]): string {
+  return strings.reduce((command, text, i) => command + text + (i < values.length ? render(values[i]) : ''), '');
+}
+
+// Names that reach command lines must not start with '-', or they could be read as options
+function check(value: string, pattern: RegExp, message: string): string {
+  const text = String(value ?? '').trim();
+  if (!pattern.test(text)) {
+    throw new ShellArgumentError(message);
+  }
+  return text;
+}
+
+// Plain job ids, array tasks (123_4), the pending task ranges squeue lists (123_[1-10%2])
+// and steps (123.batch)
+export function validateJobId(value: string): string {
+  return check(value, /^\d+(_(\d+|\[[\d,%-]+\]))?(\.\w+)?$/, `Invalid job ID "${value}"`);
+}
+
+export function validatePartition(value: string): string {
+  return check(value, /^\w[\w.-]*$/, `Invalid partition name "${value}"`);
+}
+
+export function validateAccount(value: string): string {
+  return check(value, /^\w[\w.-]*$/, `Invalid account name "${value}"`);
+}
+
+export function validateJobName(value: string): string {
+  return check(value, /^[\w.+][\w.+-]{0,127}$/, "Job names may only use letters, numbers, '.', '_', '+' and '-', and cannot start with '-'");
+}
+
+// Slurm memory sizes such as 500M, 4G or 1T
+export function validateMemory(value: string): string {
+  return check(value, /^\d+[KMGT]?$/i, `Invalid memory "${value}". Use a number with an optional K, M, G or T suffix.`);
+}
+
+// Every time format sbatch accepts: MM, MM:SS, HH:MM:SS, D-HH, D-HH:MM, D-HH:MM:SS
+export function validateTime(value: string): string {
+  return check(
+    value,
+    /^(\d+(:\d{1,2}){0,2}|\d+-\d{1,2}(:\d{1,2}){0,2}|UNLIMITED|INFINITE)$/i,
+    `Invalid time limit "${value}". Use D-HH:MM:SS, HH:MM:SS or minutes.`
+  );
+}
+
+export function validateCount(value: number, label: string): number {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new ShellArgumentError(`${label} must be a whole number of at least 1`);
+  }
+  return value;
+}
+
+// Environment module names such as python3/3.13.1
+export function validateModule(value: string): string {
+  return check(value, /^\w[\w.+/-]*$/, `Invalid module name "${value}"`);
+}
@@ -0,0 +1,317 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CommandResult, SSHCredentials } from './ssh';
+import {
+  FIELD_SEPARATOR,
+  parseDuration,
+  parseExitCode,
+  parseJobState,
+  parseKeyValues,
+  parseMemory,
+  parseRecords,
+  parseTres,
+} from './slurm';
+import { validateJobId } from './shell';
+import { STEP_FIELDS, getCachedHistory, getHistory, getQueue, inspectJob } from './jobs';
+
+// jobs.ts reaches the cluster only through executeCommand; each test answers it from fixtures
+const executeCommand = vi.hoisted(() => vi.fn<(credentials: SSHCredentials, command: string) => Promise<CommandResult>>());
+vi.mock('./ssh', () => ({ executeCommand }));
+
+const RELEASES = ['20.11', '23.02'] as const;
+
+const fixture = (release: string, name: string) =>
+  readFileSync(join(__dirname, '__fixtures__', 'slurm', release, name), 'utf8');
+
+const ok = (stdout: string): CommandResult => ({ stdout, stderr: '', code: 0 });
+const failed = (stderr = ''): CommandResult => ({ stdout: '', stderr, code: 1 });
+
+const credentials: SSHCredentials = { host: 'cluster', username: 'alice' };
+
+// Answers the commands jobs.ts runs with one release's fixtures
+function answerFrom(release: string) {
+  executeCommand.mockImplementation(async (_credentials, command) => {
+    if (command.startsWith('squeue ')) return ok(fixture(release, 'squeue.txt'));
+    if (command.startsWith('scontrol show job')) return ok(fixture(release, 'scontrol-show-job.txt'));
+    if (command.includes(' -X -u ')) return ok(fixture(release, 'sacct-history.txt'));
+    if (command.includes(`--format=${STEP_FIELDS.join(',')}`)) {
+      // Only the job the fixture has steps for
+      const steps = fixture(release, 'sacct-steps.txt');
+      return ok(command.includes(` -j ${steps.split(FIELD_SEPARATOR)[0]} `) ? steps : '');
+    }
+    // No batch script on record and no rerun lineage file
+    return failed();
+  });
+}
+
+beforeEach(() => {
+  executeCommand.mockReset();
+});
+
+describe('parseRecords', () => {
+  it('keeps separators and spaces inside fields apart', () => {
+    const output = ['1', 'a name with  spaces', 'x|y,z'].join(FIELD_SEPARATOR) + '\n\n';
+    expect(parseRecords(output, ['id', 'name', 'other'])).toEqual([{ id: '1', name: 'a name with  spaces', other: 'x|y,z' }]);
+  });
+
+  it('fails on a field count mismatch instead of shifting columns', () => {
+    // An sacct that ignored --delimiter and used its default |
+    const output = '4001|rna seq run|cpu\n';
+    expect(() => parseRecords(output, ['JobID', 'JobName', 'Partition'])).toThrow('expected 3 fields, got 1');
+    const extra = ['1', '2', '3', '4'].join(FIELD_SEPARATOR);
+    expect(() => parseRecords(extra, ['a', 'b', 'c'])).toThrow('expected 3 fields, got 4');
+  });
+});
+
+describe('parseJobState', () => {
+  it.each([
+    ['RUNNING', 'RUNNING'],
+    ['CANCELLED by 1000', 'CANCELLED'],
+    ['PD', 'PENDING'],
+    ['CG', 'COMPLETING'],
+    ['OOM', 'OUT_OF_MEMORY'],
+    ['out_of_memory', 'OUT_OF_MEMORY'],
+    ['', 'UNKNOWN'],
+    ['SOMETHING_NEW', 'UNKNOWN'],
+  ])('reads %j as %s', (text, state) => {
+    expect(parseJobState(text)).toBe(state);
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['0:00', 0],
+    ['10:05', 605],
+    ['45:10', 2710],
+    ['4:00:00', 14400],
+    ['02:00:00', 7200],
+    ['1-02:03:04', 93784],
+    ['2-12', 216000],
+    ['2-12:30', 217800],
+    ['00:00.001', 0.001],
+    ['02:09.512', 129.512],
+    ['1-01:01:59.750', 90119.75],
+  ])('reads %j as %d seconds', (text, seconds) => {
+    expect(parseDuration(text)).toBeCloseTo(seconds, 6);
+  });
+
+  it.each(['UNLIMITED', 'Partition_Limit', 'INVALID', 'N/A', ''])('has no length for %j', (text) => {
+    expect(parseDuration(text)).toBeNull();
+  });
+});
+
+describe('parseMemory', () => {
+  const MB = 1024 ** 2;
+
+  it.each([
+    ['3927412K', 3927412 * 1024],
+    ['1200M', 1200 * MB],
+    ['7.50G', 7.5 * 1024 * MB],
+    ['16G', 16 * 1024 * MB],
+    ['1024', 1024 * MB],
+    ['0', 0],
+    // ReqMem before Slurm 21.08: per node and per CPU
+    ['4000Mn', 4000 * MB],
+    ['2000Mc', 2000 * MB],
+    ['1Gn', 1024 * MB],
+  ])('reads %j', (text, bytes) => {
+    expect(parseMemory(text)).toBe(bytes);
+  });
+
+  it.each(['', '(null)', 'N/A', '16 GB'])('has no size for %j', (text) => {
+    expect(parseMemory(text)).toBeNull();
+  });
+});
+
+describe('parseExitCode and parseTres', () => {
+  it('splits exit codes into code and signal', () => {
+    expect(parseExitCode('0:125')).toEqual({ code: 0, signal: 125 });
+    expect(parseExitCode('1:0')).toEqual({ code: 1, signal: 0 });
+    expect(parseExitCode('')).toEqual({ code: 0, signal: 0 });
+  });
+
+  it('reads TRES lists', () => {
+    expect(parseTres('cpu=8,mem=64G,node=2,billing=8,gres/gpu=2')).toEqual({
+      cpu: '8', mem: '64G', node: '2', billing: '8', 'gres/gpu': '2',
+    });
+    expect(parseTres('(null)')).toEqual({});
+    expect(parseTres(undefined)).toEqual({});
+  });
+});
+
+describe('parseKeyValues', () => {
+  it('keeps values with spaces, "=" and punctuation whole (20.11)', () => {
+    const fields = parseKeyValues(fixture('20.11', 'scontrol-show-job.txt').trim());
+    expect(fields.JobName).toBe('train model v2');
+    expect(fields.Command).toBe('/home/alice/train model/run.sh --epochs 10');
+    expect(fields.WorkDir).toBe('/home/alice/train model');
+    expect(fields.TRES).toBe('cpu=8,mem=64G,node=2,billing=8,gres/gpu=2');
+    expect(fields['NtasksPerN:B:S:C']).toBe('0:0:*:*');
+    expect(fields['CPUs/Task']).toBe('4');
+    expect(fields.Power).toBe('');
+    expect(fields.MailType).toBe('NONE');
+  });
+
+  it('reads dependencies and empty values (23.02)', () => {
+    const fields = parseKeyValues(fixture('23.02', 'scontrol-show-job.txt').trim());
+    expect(fields.JobName).toBe('post process');
+    expect(fields.Dependency).toBe('afterok:88120_*(unfulfilled)');
+    expect(fields.NodeList).toBe('');
+    expect(fields.TimeLimit).toBe('UNLIMITED');
+    expect(fields.ReqTRES).toBe('cpu=4,mem=16G,node=1,billing=4');
+  });
+});
+
+describe.each(RELEASES)('jobs.ts against Slurm %s output', (release) => {
+  beforeEach(() => answerFrom(release));
+
+  it('reads the queue', async () => {
+    const jobs = await getQueue(credentials, 'alice');
+    expect(executeCommand.mock.calls[0][1]).toContain(`-o '%i${FIELD_SEPARATOR}%P`);
+    for (const job of jobs) {
+      expect(job.user).toBe('alice');
+      expect(job.state).not.toBe('UNKNOWN');
+    }
+    const pending = jobs.filter(job => job.state === 'PENDING');
+    expect(pending.length).toBeGreaterThan(0);
+    for (const job of pending) {
+      expect(job.reason).toMatch(/^\w+$/);
+      expect(job.nodeList).toBe('');
+    }
+    for (const job of jobs.filter(job => job.state !== 'PENDING')) {
+      expect(job.reason).toBe('');
+    }
+  });
+
+  it('lists queue IDs the job actions accept', async () => {
+    const jobs = await getQueue(credentials, 'alice');
+    for (const job of jobs) {
+      expect(validateJobId(job.jobId)).toBe(job.jobId);
+    }
+  });
+
+  it('reads the history', async () => {
+    const jobs = await getHistory(credentials, 'alice', { start: '2023-01-01', end: '2024-12-31' });
+    expect(jobs.length).toBe(fixture(release, 'sacct-history.txt').trim().split('\n').length);
+    expect(jobs.every(job => job.state !== 'UNKNOWN')).toBe(true);
+    // Newest first
+    expect(jobs.map(job => job.submitTime)).toEqual([...jobs.map(job => job.submitTime)].sort().reverse());
+    expect(jobs.find(job => job.name === 'rna seq run')).toMatchObject({ state: 'COMPLETED', elapsed: 7200, cpus: 8 });
+    expect(jobs.find(job => job.state === 'CANCELLED')?.exitCode.signal).toBeGreaterThan(0);
+  });
+
+  it('fails loudly when sacct ignores the delimiter', async () => {
+    executeCommand.mockImplementation(async (_credentials, command) =>
+      command.includes(' -X -u ')
+        ? ok(fixture(release, 'sacct-history.txt').split(FIELD_SEPARATOR).join('|'))
+        : failed());
+    await expect(getHistory(credentials, 'alice', { start: '2023-01-01', end: '2024-12-31' }))
+      .rejects.toThrow('expected 11 fields, got 1');
+  });
+});
+
+describe('jobs.ts release differences', () => {
+  it('reads Slurm 20.11 queue entries', async () => {
+    answerFrom('20.11');
+    const jobs = await getQueue(credentials, 'alice');
+    expect(jobs.map(job => [job.jobId, job.state, job.reason])).toEqual([
+      ['4099', 'RUNNING', ''],
+      ['4100', 'COMPLETING', ''],
+      ['4101', 'PENDING', 'Resources'],
+      ['4102', 'PENDING', 'Dependency'],
+    ]);
+    expect(jobs[0]).toMatchObject({ name: 'train model v2', elapsed: 93784, timeLimit: 3 * 86400, nodes: 2, nodeList: 'gn[3-4]' });
+    expect(jobs[3].timeLimit).toBeNull();
+  });
+
+  it('reads Slurm 23.02 queue entries', async () => {
+    answerFrom('23.02');
+    const jobs = await getQueue(credentials, 'alice');
+    expect(jobs[0]).toMatchObject({ name: 'my analysis (final)', elapsed: 2710, timeLimit: 14400, nodeList: 'cn45' });
+    expect(jobs[1]).toMatchObject({ reason: 'Priority', timeLimit: 86400 });
+    // Partition_Limit: the job takes the partition's limit, which squeue does not show
+    expect(jobs[2]).toMatchObject({ jobId: '88124_[1-10%2]', reason: 'JobArrayTaskLimit', timeLimit: null });
+  });
+
+  it('reads "CANCELLED by N" and unknown times from Slurm 20.11 accounting', async () => {
+    answerFrom('20.11');
+    const jobs = await getHistory(credentials, 'alice', { start: '2023-01-01', end: '2023-12-31' });
+    expect(jobs.find(job => job.jobId === '4002')).toMatchObject({ state: 'CANCELLED', exitCode: { code: 0, signal: 15 } });
+    expect(jobs.find(job => job.jobId === '4004')).toMatchObject({ state: 'PENDING', startTime: '', endTime: '' });
+    expect(jobs.find(job => job.jobId === '4005_1')).toMatchObject({ state: 'TIMEOUT', elapsed: 86418 });
+  });
+
+  it('inspects a running job from Slurm 20.11, whose allocation is called TRES', async () => {
+    answerFrom('20.11');
+    const job = await inspectJob(credentials, '4099');
+    expect(job).toMatchObject({
+      source: 'scontrol',
+      name: 'train model v2',
+      user: 'alice',
+      state: 'RUNNING',
+      reason: '',
+      dependency: '',
+      timeLimit: 3 * 86400,
+      elapsed: 93784,
+      workDir: '/home/alice/train model',
+      output: { stdout: '/home/alice/train model/train-4099.out', stderr: '/home/alice/train model/train-4099.err' },
+      batchScript: null,
+    });
+    expect(job.allocatedTres).toMatchObject({ cpu: '8', mem: '64G', 'gres/gpu': '2' });
+    // Steps with fractional TotalCPU
+    expect(job.steps.map(step => step.stepId)).toEqual(['4099.batch', '4099.extern', '4099.0']);
+    expect(job.steps[1].totalCpu).toBeCloseTo(0.001, 6);
+    expect(job.steps[2]).toMatchObject({ name: 'python', maxRss: 1200 * 1024 ** 2 });
+    expect(job.steps[2].totalCpu).toBeCloseTo(129.512, 6);
+  });
+
+  it('inspects a pending job from Slurm 23.02', async () => {
+    answerFrom('23.02');
+    const job = await inspectJob(credentials, '88125');
+    expect(job).toMatchObject({
+      name: 'post process',
+      state: 'PENDING',
+      reason: 'Dependency',
+      dependency: 'afterok:88120_*(unfulfilled)',
+      startTime: '',
+      timeLimit: null,
+      nodeList: '',
+      // %j expanded the way Slurm will
+      output: { stdout: '/home/alice/post-88125.out', stderr: '/home/alice/post-88125.err' },
+      allocatedTres: {},
+    });
+    expect(job.requestedTres).toMatchObject({ cpu: '4', mem: '16G' });
+    expect(job.steps).toEqual([]);
+  });
+
+  it('reads Slurm 23.02 step accounting', () => {
+    const steps = parseRecords(fixture('23.02', 'sacct-steps.txt'), STEP_FIELDS);
+    const step = steps.find(row => row.JobID === '88001.0')!;
+    expect(step.JobName).toBe('my step');
+    expect(parseDuration(step.TotalCPU)).toBeCloseTo(90119.75, 6);
+    expect(parseMemory(step.MaxRSS)).toBe(7.5 * 1024 ** 3);
+    expect(parseDuration(steps[1].TotalCPU)).toBeCloseTo(3.25, 6);
+  });
+});
+
+describe('getCachedHistory', () => {
+  const login = { ...credentials, poolId: 'paging' };
+  const filter = { start: '2024-01-01', end: '2024-12-31' };
+  const sacctRuns = () => executeCommand.mock.calls.filter(([, command]) => command.includes(' -X -u ')).length;
+
+  it('runs sacct once for every page of the same query', async () => {
+    answerFrom('23.02');
+    const first = await getCachedHistory(login, 'alice', filter, true);
+    expect(await getCachedHistory(login, 'alice', { ...filter, states: [], name: '' })).toBe(first);
+    expect(sacctRuns()).toBe(1);
+
+    await getCachedHistory(login, 'alice', { ...filter, name: 'sweep' });
+    expect(sacctRuns()).toBe(2);
+    await getCachedHistory(login, 'alice', { ...filter, name: 'sweep' }, true);
+    expect(sacctRuns()).toBe(3);
+    // Another login never sees this one's history
+    await getCachedHistory({ ...login, poolId: 'other' }, 'alice', { ...filter, name: 'sweep' });
+    expect(sacctRuns()).toBe(4);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Parsing for Slurm's command output. Commands are run with an explicit field list and a
+ * separator that cannot appear in job names or reasons, so a name with spaces or an
+ * unexpected column never shifts the others. (Slurm's --json output would avoid this too,
+ * but its schema changes between releases and it needs plugins many sites do not build.)
+ * Nothing here runs commands, so the formatting helpers can be used in the browser.
+ */
+
+// ASCII unit separator, for squeue -o and sacct --delimiter
+export const FIELD_SEPARATOR = '\x1f';
+
+export type JobState =
+  | 'PENDING' | 'CONFIGURING' | 'RUNNING' | 'COMPLETING' | 'SUSPENDED' | 'STOPPED' | 'RESIZING' | 'SIGNALING'
+  | 'STAGE_OUT' | 'REQUEUED' | 'REQUEUE_FED' | 'REQUEUE_HOLD' | 'RESV_DEL_HOLD' | 'SPECIAL_EXIT' | 'REVOKED'
+  | 'COMPLETED' | 'CANCELLED' | 'FAILED' | 'TIMEOUT' | 'OUT_OF_MEMORY' | 'NODE_FAIL' | 'PREEMPTED'
+  | 'BOOT_FAIL' | 'DEADLINE' | 'UNKNOWN';
+
+export const JOB_STATES: JobState[] = [
+  'PENDING', 'CONFIGURING', 'RUNNING', 'COMPLETING', 'SUSPENDED', 'STOPPED', 'RESIZING', 'SIGNALING',
+  'STAGE_OUT', 'REQUEUED', 'REQUEUE_FED', 'REQUEUE_HOLD', 'RESV_DEL_HOLD', 'SPECIAL_EXIT', 'REVOKED',
+  'COMPLETED', 'CANCELLED', 'FAILED', 'TIMEOUT', 'OUT_OF_MEMORY', 'NODE_FAIL', 'PREEMPTED',
+  'BOOT_FAIL', 'DEADLINE', 'UNKNOWN',
+];
+
+// States a job does not leave again
+export const FINISHED_STATES: JobState[] = [
+  'COMPLETED', 'CANCELLED', 'FAILED', 'TIMEOUT', 'OUT_OF_MEMORY', 'NODE_FAIL', 'PREEMPTED', 'BOOT_FAIL', 'DEADLINE',
+];
+
+export interface ExitStatus {
+  code: number;
+  // The signal that ended the job, 0 if none
+  signal: number;
+}
+
+export interface JobQueueEntry {
+  jobId: string;
+  partition: string;
+  name: string;
+  user: string;
+  state: JobState;
+  elapsed: number; // Seconds
+  timeLimit: number | null; // Seconds; null when unlimited
+  nodes: number;
+  // Empty until the job has nodes
+  nodeList: string;
+  // Why the job is pending (Resources, Priority, Dependency, ...); empty when it is not
+  reason: string;
+}
+
+export interface JobHistoryEntry {
+  jobId: string;
+  name: string;
+  partition: string;
+  account: string;
+  state: JobState;
+  exitCode: ExitStatus;
+  submitTime: string;
+  startTime: string;
+  endTime: string;
+  elapsed: number; // Seconds
+  cpus: number;
+  // The job this one was resubmitted from, if it was
+  parentJobId?: string;
+}
+
+// Placeholders Slurm prints for unset values
+const EMPTY_VALUES = new Set(['(null)', 'None', 'Unknown', 'N/A', '(N/A)', '']);
+
+export const present = (value: string | undefined) => (value === undefined || EMPTY_VALUES.has(value) ? '' : value);
+
+/**
+ * Accepts the long names from squeue %T, sacct and scontrol, including sacct's
+ * "CANCELLED by 1234", and the short codes from squeue %t.
+ */
+export function parseJobState(text: string): JobState {
+  const SHORT: Record<string, JobState> = {
+    PD: 'PENDING', CF: 'CONFIGURING', R: 'RUNNING', CG: 'COMPLETING', S: 'SUSPENDED', ST: 'STOPPED',
+    RS: 'RESIZING', SI: 'SIGNALING', SO: 'STAGE_OUT', RQ: 'REQUEUED', RF: 'REQUEUE_FED', RH: 'REQUEUE_HOLD',
+    RD: 'RESV_DEL_HOLD', SE: 'SPECIAL_EXIT', RV: 'REVOKED', CD: 'COMPLETED', CA: 'CANCELLED', F: 'FAILED',
+    TO: 'TIMEOUT', OOM: 'OUT_OF_MEMORY', NF: 'NODE_FAIL', PR: 'PREEMPTED', BF: 'BOOT_FAIL', DL: 'DEADLINE',
+  };
+  const word = text.trim().split(/\s+/)[0].toUpperCase();
+  if (SHORT[word]) return SHORT[word];
+  return JOB_STATES.includes(word as JobState) ? word as JobState : 'UNKNOWN';
+}
+
+/**
+ * Seconds in a Slurm duration: [days-]hours:minutes:seconds, minutes:seconds, or with
+ * fractional seconds as in TotalCPU. Null for UNLIMITED, Partition_Limit and the like.
+ */
+export function parseDuration(text: string): number | null {
+  const match = /^(?:(\d+)-)?(\d+)(?::(\d+))?(?::(\d+(?:\.\d+)?))?$/.exec(text.trim());
+  if (!match) return null;
+  const [, days, ...rest] = match;
+  const parts = rest.filter(part => part !== undefined).map(Number);
+  let [hours, minutes, seconds] = [0, 0, 0];
+  if (days !== undefined || parts.length === 3) {
+    // With a day count the hours always come first, even when the rest is missing ("2-12")
+    [hours, minutes = 0, seconds = 0] = parts;
+  } else {
+    [minutes, seconds = 0] = parts;
+  }
+  return Number(days ?? 0) * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+export function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  const days = Math.floor(whole / 86400);
+  const time = [Math.floor(whole / 3600) % 24, Math.floor(whole / 60) % 60, whole % 60]
+    .map(n => String(n).padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}-${time}` : time;
+}
+
+/**
+ * Bytes in a Slurm memory size such as "16G", "1200K" or "4000Mn". The n/c suffix older
+ * versions add to ReqMem (per node/per CPU) is ignored; plain numbers are megabytes, as in
+ * --mem. Null when there is no size.
+ */
+export function parseMemory(text: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)([KMGTP]?)[nc]?$/i.exec(text.trim());
+  if (!match) return null;
+  const power = 'KMGTP'.indexOf((match[2] || 'M').toUpperCase()) + 1;
+  return Math.round(Number(match[1]) * 1024 ** power);
+}
+
+export function formatMemory(bytes: number): string {
+  const units = ['B', 'K', 'M', 'G', 'T', 'P'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 || value >= 100 ? Math.round(value) : value.toFixed(1)}${units[unit]}`;
+}
+
+// "0:0" style exit codes; the part after the colon is the signal
+export function parseExitCode(text: string): ExitStatus {
+  const [code, signal] = text.split(':').map(Number);
+  return { code: code || 0, signal: signal || 0 };
+}
+
+export const formatExitCode = ({ code, signal }: ExitStatus) => `${code}:${signal}`;
+
+export const formatTimeLimit = (seconds: number | null) => (seconds === null ? 'UNLIMITED' : formatDuration(seconds));
+
+/**
+ * Splits the one-line `scontrol show job -o` format into its Key=Value fields. Values may
+ * contain spaces (commands, comments) and "=" (TRES lists), so a field only ends where the
+ * next " Key=" begins.
+ */
+export function parseKeyValues(line: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const keys = [...line.matchAll(/(?:^|\s)([A-Za-z][\w:/.]*)=/g)];
+  keys.forEach((match, i) => {
+    const start = (match.index ?? 0) + match[0].length;
+    const end = i + 1 < keys.length ? keys[i + 1].index : line.length;
+    fields[match[1]] = line.slice(start, end).trim();
+  });
+  return fields;
+}
+
+// "cpu=4,mem=16G,node=1,gres/gpu=1" as a map
+export function parseTres(value: string | undefined): Record<string, string> {
+  const tres: Record<string, string> = {};
+  for (const item of present(value).split(',')) {
+    const eq = item.indexOf('=');
+    if (eq > 0) tres[item.slice(0, eq)] = item.slice(eq + 1);
+  }
+  return tres;
+}
+
+// One record per line, keyed by `fields`
+export function parseRecords(output: string, fields: string[]): Record<string, string>[] {
+  return output.split('\n').filter(line => line.trim()).map(line => {
+    const values = line.split(FIELD_SEPARATOR);
+    if (values.length !== fields.length) {
+      throw new Error(`Unexpected Slurm output: expected ${fields.length} fields, got ${values.length}`);
+    }
+    return Object.fromEntries(fields.map((field, i) => [field, values[i].trim()]));
+  });
+}
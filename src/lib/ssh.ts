@@ -1,11 +1,78 @@
-import { Client } from 'ssh2';
+import { AnyAuthMethod, Client, ClientChannel, ParsedKey, Prompt, utils } from 'ssh2';
+import { createHash } from 'crypto';
+import { Duplex } from 'stream';
+import { HostKeyCheck, HostKeyInfo, checkHostKey, trustHostKey } from './known-hosts';
 
-export interface SSHCredentials {
+// One SSH server to log in to: the cluster itself or a jump host in front of it
+export interface SSHHost {
+  host: string;
+  port?: number;
+  username: string;
+  password?: string;
+  // Decrypted at login (see loadPrivateKey) so the passphrase never needs to be kept
+  privateKey?: string | ParsedKey;
+  // ssh-agent socket path, only honoured when agent logins are enabled
+  agent?: string;
+}
+
+export interface SSHCredentials extends SSHHost {
+  // Bastions to pass through, in order, before reaching `host` (like ProxyJump)
+  jumpHosts?: SSHHost[];
+  // Pool slot for this login; set per session so connections are never shared across logins
+  poolId?: string;
+  // False when login needed interactive answers (e.g. Duo), so a dropped connection cannot be re-opened
+  reconnect?: boolean;
+}
+
+export interface AuthChallenge {
+  // Which server is asking, since each jump host may prompt too
+  host: string;
+  name: string;
+  instructions: string;
+  prompts: Prompt[];
+}
+
+// What the Login screen submits; keys may still be encrypted here
+export interface LoginHost {
   host: string;
   port?: number;
   username: string;
   password?: string;
   privateKey?: string;
+  passphrase?: string;
+  agent?: string;
+}
+
+export interface LoginCredentials extends LoginHost {
+  jumpHosts?: LoginHost[];
+}
+
+export type PromptHandler = (challenge: AuthChallenge) => Promise<string[]>;
+
+// Asked to accept a host key seen for the first time; resolves true to trust it
+export type HostKeyHandler = (hostKey: HostKeyInfo) => Promise<boolean>;
+
+export class ConnectionLostError extends Error {
+  isFatal = true;
+
+  constructor(message = 'SSH connection lost. Please log in again.') {
+    super(message);
+    this.name = 'ConnectionLostError';
+  }
+}
+
+export class HostKeyError extends Error {
+  isFatal = true;
+  check: HostKeyCheck;
+
+  constructor(check: HostKeyCheck) {
+    const { host } = check.hostKey;
+    super(check.status === 'mismatch'
+      ? `The host key for ${host} does not match the trusted key. The connection was refused so your credentials were not sent.`
+      : `The host key for ${host} is not trusted. Please log in again to verify it.`);
+    this.name = 'HostKeyError';
+    this.check = check;
+  }
 }
 
 export interface CommandResult {
@@ -17,65 +84,442 @@ export interface CommandResult {
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000; // 1 second
 
+// Pool tuning
+const MAX_CONNECTIONS_PER_KEY = 2;
+const MAX_CHANNELS_PER_CONNECTION = 8; // OpenSSH MaxSessions defaults to 10
+const IDLE_TIMEOUT = 5 * 60 * 1000; // Close connections unused for 5 minutes
+const HEALTH_CHECK_INTERVAL = 60 * 1000;
+const HEALTH_CHECK_TIMEOUT = 5000;
+const SWEEP_INTERVAL = 30 * 1000;
+
+interface PooledConnection {
+  key: string;
+  client: Client;
+  channels: number; // Open exec/sftp channels
+  holds: number; // Long-lived users such as port forwards
+  lastUsed: number;
+  lastChecked: number;
+  reconnectable: boolean;
+  closed: boolean;
+}
+
+interface PoolEntry {
+  connections: PooledConnection[];
+  connecting: Promise<void> | null;
+  waiters: (() => void)[];
+}
+
+export interface ConnectionLease {
+  client: Client;
+  release: () => void;
+}
+
+// Kept on globalThis so server actions and route handlers share one pool
+const globalForSSH = globalThis as unknown as {
+  sshPool?: Map<string, PoolEntry>;
+  sshPoolSweeper?: NodeJS.Timeout;
+};
+const pool: Map<string, PoolEntry> = globalForSSH.sshPool ?? (globalForSSH.sshPool = new Map());
+
 function sleep(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export async function executeCommand(
+// Secrets are hashed into the key so a login with different credentials never reuses a live session
+function poolKey(credentials: SSHCredentials) {
+  if (credentials.poolId) {
+    return `${credentials.username}@${credentials.host}:${credentials.port || 22}#${credentials.poolId}`;
+  }
+  const hash = createHash('sha256');
+  for (const hop of [...(credentials.jumpHosts || []), credentials]) {
+    hash
+      .update(`${hop.username}@${hop.host}:${hop.port || 22}\0`)
+      .update(hop.password || '')
+      .update('\0')
+      .update(typeof hop.privateKey === 'object' ? hop.privateKey.getPublicSSH() : hop.privateKey || '')
+      .update('\0');
+  }
+  const secret = hash.digest('hex').slice(0, 16);
+  return `${credentials.username}@${credentials.host}:${credentials.port || 22}#${secret}`;
+}
+
+function getEntry(key: string): PoolEntry {
+  let entry = pool.get(key);
+  if (!entry) {
+    entry = { connections: [], connecting: null, waiters: [] };
+    pool.set(key, entry);
+  }
+  return entry;
+}
+
+function notifyWaiters(entry: PoolEntry) {
+  const waiters = entry.waiters.splice(0);
+  waiters.forEach(wake => wake());
+}
+
+function removeConnection(conn: PooledConnection) {
+  if (conn.closed) return;
+  conn.closed = true;
+  const entry = pool.get(conn.key);
+  if (entry) {
+    entry.connections = entry.connections.filter(c => c !== conn);
+    notifyWaiters(entry);
+    if (entry.connections.length === 0 && !entry.connecting && entry.waiters.length === 0) {
+      pool.delete(conn.key);
+    }
+  }
+  conn.client.end();
+}
+
+// Password prompts are answered from the stored password; anything else (OTP, Duo) goes to onPrompt
+function isPasswordPrompt(prompt: Prompt) {
+  return !prompt.echo && /password/i.test(prompt.prompt);
+}
+
+// Methods are tried in order; keyboard-interactive comes last so it can serve as a second factor
+function authMethods(credentials: SSHHost, onPrompt?: PromptHandler): AnyAuthMethod[] {
+  const { username } = credentials;
+  const methods: AnyAuthMethod[] = [];
+
+  if (credentials.privateKey) {
+    methods.push({ type: 'publickey', username, key: credentials.privateKey });
+  }
+  if (credentials.agent) {
+    methods.push({ type: 'agent', username, agent: credentials.agent });
+  }
+  if (credentials.password) {
+    methods.push({ type: 'password', username, password: credentials.password });
+  }
+  methods.push({
+    type: 'keyboard-interactive',
+    username,
+    prompt: (name, instructions, _lang, prompts, finish) => {
+      if (prompts.length === 0) {
+        return finish([]);
+      }
+      if (credentials.password && prompts.every(isPasswordPrompt)) {
+        return finish(prompts.map(() => credentials.password as string));
+      }
+      if (!onPrompt) {
+        return finish([]);
+      }
+      onPrompt({ host: credentials.host, name, instructions, prompts }).then(finish, () => finish([]));
+    },
+  });
+
+  return methods;
+}
+
+/**
+ * Parses (and with a passphrase, decrypts) an OpenSSH, PEM or PuTTY PPK private key.
+ */
+export function loadPrivateKey(keyData: string, passphrase?: string): ParsedKey {
+  const parsed = utils.parseKey(keyData, passphrase || undefined);
+  const key = Array.isArray(parsed) ? parsed[0] : parsed;
+
+  if (key instanceof Error) {
+    if (/no passphrase given/i.test(key.message)) {
+      throw new Error('This private key is encrypted. Please enter its passphrase.');
+    }
+    if (/bad passphrase|integrity check failed/i.test(key.message)) {
+      throw new Error('Incorrect passphrase for private key.');
+    }
+    throw new Error(`Cannot read private key: ${key.message}`);
+  }
+  if (!key.isPrivateKey()) {
+    throw new Error('The supplied key is a public key. Please provide the private key.');
+  }
+  return key;
+}
+
+// Logs in to a single server, optionally over `sock` (a channel forwarded by the previous hop)
+function openClient(
+  target: SSHHost,
+  onPrompt?: PromptHandler,
+  onHostKey?: HostKeyHandler,
+  sock?: Duplex
+): Promise<Client> {
+  return new Promise<Client>((resolve, reject) => {
+    const client = new Client();
+    const port = target.port || 22;
+    let settled = false;
+    let hostKeyError: Error | null = null;
+
+    client.on('ready', () => {
+      settled = true;
+      resolve(client);
+    }).on('error', (err) => {
+      if (!settled) {
+        settled = true;
+        // A refused host key surfaces as a generic handshake error; report why instead
+        if (hostKeyError) {
+          return reject(hostKeyError);
+        }
+        // Treat auth errors as fatal, no retry
+        if ((err as Error & { level?: string }).level === 'client-authentication') {
+          (err as Error & { isFatal?: boolean }).isFatal = true;
+        }
+        reject(err);
+      } else {
+        console.warn(`SSH connection ${target.username}@${target.host}:${port} error: ${err.message}`);
+      }
+    }).connect({
+      host: target.host,
+      port,
+      sock,
+      username: target.username,
+      // Runs before any credentials are sent
+      hostVerifier: (hostKey: Buffer, verify: (valid: boolean) => void) => {
+        const check = checkHostKey(target.host, port, hostKey);
+        if (check.status === 'trusted') {
+          return verify(true);
+        }
+        if (check.status === 'unknown' && onHostKey) {
+          onHostKey(check.hostKey).then(accepted => {
+            if (accepted) {
+              trustHostKey(target.host, port, hostKey);
+            } else {
+              hostKeyError = Object.assign(new Error('Host key was not accepted.'), { isFatal: true });
+            }
+            verify(accepted);
+          }, () => verify(false));
+          return;
+        }
+        hostKeyError = new HostKeyError(check);
+        verify(false);
+      },
+      authHandler: authMethods(target, onPrompt),
+      // Interactive logins may wait on a push approval, so give them longer to complete
+      readyTimeout: onPrompt || onHostKey ? 5 * 60 * 1000 : 10000,
+      keepaliveInterval: 15000,
+      keepaliveCountMax: 4,
+    });
+  });
+}
+
+function forwardTo(client: Client, host: string, port: number): Promise<Duplex> {
+  return new Promise<Duplex>((resolve, reject) => {
+    client.forwardOut('127.0.0.1', 0, host, port, (err, stream) => err ? reject(err) : resolve(stream));
+  });
+}
+
+// Logs in through each jump host in turn; every hop is tunnelled over the one before it
+async function connect(
   credentials: SSHCredentials,
-  command: string
-): Promise<CommandResult> {
-  let lastError: any;
+  key: string,
+  onPrompt?: PromptHandler,
+  onHostKey?: HostKeyHandler
+): Promise<PooledConnection> {
+  const jumpHosts = credentials.jumpHosts || [];
+  const hops: Client[] = [];
+  let client: Client;
+
+  try {
+    let sock: Duplex | undefined;
+    for (const [i, jump] of jumpHosts.entries()) {
+      hops.push(await openClient(jump, onPrompt, onHostKey, sock).catch(error => {
+        throw Object.assign(error, { message: `Jump host ${jump.host}: ${(error as Error).message}` });
+      }));
+      const next = jumpHosts[i + 1] || credentials;
+      sock = await forwardTo(hops[i], next.host, next.port || 22).catch(error => {
+        throw Object.assign(error, { message: `Jump host ${jump.host} could not reach ${next.host}: ${(error as Error).message}` });
+      });
+    }
+    client = await openClient(credentials, onPrompt, onHostKey, sock);
+  } catch (error) {
+    hops.forEach(hop => hop.end());
+    throw error;
+  }
+
+  const conn: PooledConnection = {
+    key,
+    client,
+    channels: 0,
+    holds: 0,
+    lastUsed: Date.now(),
+    lastChecked: Date.now(),
+    reconnectable: credentials.reconnect !== false,
+    closed: false,
+  };
+  client.on('close', () => {
+    removeConnection(conn);
+    hops.forEach(hop => hop.end());
+  });
+  client.on('end', () => removeConnection(conn));
+  // Losing any hop drops the forwarded channel underneath, which closes the client too
+  hops.forEach(hop => hop.on('close', () => client.end()));
+  return conn;
+}
+
+async function acquire(credentials: SSHCredentials): Promise<PooledConnection> {
+  const key = poolKey(credentials);
+  const entry = getEntry(key);
+  ensureSweeper();
+
+  for (;;) {
+    const conn = entry.connections.find(c => !c.closed && c.channels < MAX_CHANNELS_PER_CONNECTION);
+    if (conn) {
+      conn.channels++;
+      conn.lastUsed = Date.now();
+      return conn;
+    }
+
+    if (entry.connecting) {
+      await entry.connecting.catch(() => undefined);
+      continue;
+    }
+
+    if (credentials.reconnect === false) {
+      if (entry.connections.length === 0) {
+        throw new ConnectionLostError();
+      }
+      // Interactive logins are limited to the one connection they authenticated
+      await new Promise<void>(resolve => entry.waiters.push(resolve));
+      continue;
+    }
+
+    if (entry.connections.length < MAX_CONNECTIONS_PER_KEY) {
+      let fail: (err: unknown) => void = () => undefined;
+      let done: () => void = () => undefined;
+      entry.connecting = new Promise<void>((res, rej) => { done = res; fail = rej; });
+      entry.connecting.catch(() => undefined);
+      try {
+        const fresh = await connect(credentials, key);
+        entry.connections.push(fresh);
+        done();
+      } catch (error) {
+        fail(error);
+        throw error;
+      } finally {
+        entry.connecting = null;
+      }
+      continue;
+    }
+
+    // Every connection is saturated; wait for a channel to free up
+    await new Promise<void>(resolve => entry.waiters.push(resolve));
+  }
+}
+
+function release(conn: PooledConnection) {
+  conn.channels = Math.max(0, conn.channels - 1);
+  conn.lastUsed = Date.now();
+  const entry = pool.get(conn.key);
+  if (entry) notifyWaiters(entry);
+}
+
+function runOnClient(client: Client, command: string, timeout?: number): Promise<CommandResult> {
+  return new Promise<CommandResult>((resolve, reject) => {
+    client.exec(command, (err, stream) => {
+      if (err) {
+        return reject(err);
+      }
+
+      let stdout = '';
+      let stderr = '';
+      const timer = timeout ? setTimeout(() => {
+        stream.close();
+        reject(new Error(`Command timed out after ${timeout}ms`));
+      }, timeout) : null;
+
+      stream.on('close', (code: unknown) => {
+        if (timer) clearTimeout(timer);
+        resolve({ stdout, stderr, code: typeof code === 'number' ? code : null });
+      }).on('data', (data: Buffer) => {
+        stdout += data.toString();
+      }).stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+    });
+  });
+}
+
+async function checkHealth(conn: PooledConnection) {
+  conn.lastChecked = Date.now();
+  conn.channels++;
+  try {
+    const result = await runOnClient(conn.client, 'true', HEALTH_CHECK_TIMEOUT);
+    if (result.code !== 0) throw new Error('Health check failed');
+  } catch (error) {
+    console.warn(`Dropping unhealthy SSH connection ${conn.key.split('#')[0]}: ${(error as Error).message}`);
+    removeConnection(conn);
+  } finally {
+    release(conn);
+  }
+}
+
+function sweep() {
+  const now = Date.now();
+  for (const entry of pool.values()) {
+    for (const conn of [...entry.connections]) {
+      if (conn.channels > 0) continue;
+      if (conn.reconnectable && conn.holds === 0 && now - conn.lastUsed > IDLE_TIMEOUT) {
+        removeConnection(conn);
+      } else if (now - conn.lastChecked > HEALTH_CHECK_INTERVAL) {
+        checkHealth(conn);
+      }
+    }
+  }
+}
+
+function ensureSweeper() {
+  if (!globalForSSH.sshPoolSweeper) {
+    globalForSSH.sshPoolSweeper = setInterval(sweep, SWEEP_INTERVAL);
+    globalForSSH.sshPoolSweeper.unref();
+  }
+}
+
+// Channel-level failures mean the pooled connection is stale; drop it and let the caller retry
+function isChannelFailure(error: unknown) {
+  const message = (error as Error)?.message || '';
+  return /Channel open failure|No response from server|Not connected|Unable to exec/i.test(message);
+}
+
+/**
+ * Opens a fresh, fully authenticated connection and adds it to the pool. Unlike
+ * `withConnection` this never reuses a live connection, so it is what login uses.
+ * Returns whether any prompt had to be answered by the user.
+ */
+export async function authenticate(
+  credentials: SSHCredentials,
+  onPrompt?: PromptHandler,
+  onHostKey?: HostKeyHandler
+): Promise<{ interactive: boolean }> {
+  const key = poolKey(credentials);
+  let interactive = false;
+  const conn = await connect(credentials, key, onPrompt && (challenge => {
+    interactive = true;
+    return onPrompt(challenge);
+  }), onHostKey);
+  conn.reconnectable = !interactive;
+  getEntry(key).connections.push(conn);
+  ensureSweeper();
+  return { interactive };
+}
+
+/**
+ * Runs `fn` with a pooled client, holding one channel slot for its duration.
+ */
+export async function withConnection<T>(credentials: SSHCredentials, fn: (client: Client) => Promise<T>): Promise<T> {
+  let lastError: unknown;
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    let conn: PooledConnection | null = null;
     try {
-      return await new Promise<CommandResult>((resolve, reject) => {
-        const conn = new Client();
-        
-        conn.on('ready', () => {
-          conn.exec(command, (err, stream) => {
-            if (err) {
-              conn.end();
-              return reject(err);
-            }
-            
-            let stdout = '';
-            let stderr = '';
-            
-            stream.on('close', (code: any, signal: any) => {
-              conn.end();
-              resolve({ stdout, stderr, code: typeof code === 'number' ? code : null });
-            }).on('data', (data: any) => {
-              stdout += data.toString();
-            }).stderr.on('data', (data: any) => {
-              stderr += data.toString();
-            });
-          });
-        }).on('error', (err) => {
-          // Reject immediately for invalid auth, otherwise let outer loop handle retry
-          if ((err as any).level === 'client-authentication') {
-             // Treat auth errors as fatal, no retry
-             (err as any).isFatal = true;
-          }
-          reject(err);
-        }).connect({
-          host: credentials.host,
-          port: credentials.port || 22,
-          username: credentials.username,
-          password: credentials.password,
-          privateKey: credentials.privateKey,
-          // Add timeouts
-          readyTimeout: 10000,
-          keepaliveInterval: 0 
-        });
-      });
+      conn = await acquire(credentials);
+      return await fn(conn.client);
     } catch (error) {
       lastError = error;
-      
+
       // Check if fatal error (like auth failure)
-      if ((error as any).isFatal) {
+      if ((error as Error & { isFatal?: boolean }).isFatal) {
         throw error;
       }
+      // Errors from the command itself (not the transport) are not retried
+      if (conn && !conn.closed && !isChannelFailure(error)) {
+        throw error;
+      }
+      if (conn) removeConnection(conn);
 
       console.warn(`SSH Attempt ${attempt} failed: ${(error as Error).message}`);
 
@@ -83,8 +527,75 @@ export async function executeCommand(
         await sleep(RETRY_DELAY * attempt); // Exponential-ish backoff
         continue;
       }
+    } finally {
+      if (conn) release(conn);
     }
   }
 
   throw lastError || new Error('SSH command failed after retries');
 }
+
+/**
+ * Keeps a pooled connection alive (exempt from idle eviction) until released.
+ * Used by long-lived port forwards.
+ */
+export async function holdConnection(credentials: SSHCredentials): Promise<ConnectionLease> {
+  const conn = await withConnection(credentials, async (client) => {
+    const entry = pool.get(poolKey(credentials));
+    return entry?.connections.find(c => c.client === client && !c.closed) ?? null;
+  });
+  if (!conn) {
+    throw new Error('SSH connection unavailable');
+  }
+  conn.holds++;
+
+  let released = false;
+  return {
+    client: conn.client,
+    release: () => {
+      if (released) return;
+      released = true;
+      conn.holds = Math.max(0, conn.holds - 1);
+      conn.lastUsed = Date.now();
+    },
+  };
+}
+
+/**
+ * Closes every pooled connection (and any tunnel held on them) for these credentials.
+ */
+export function closeConnections(credentials: SSHCredentials) {
+  const entry = pool.get(poolKey(credentials));
+  if (!entry) return;
+  [...entry.connections].forEach(removeConnection);
+}
+
+export async function executeCommand(
+  credentials: SSHCredentials,
+  command: string
+): Promise<CommandResult> {
+  return withConnection(credentials, client => runOnClient(client, command));
+}
+
+/**
+ * Runs a command and hands back its channel so large output (e.g. a tar archive) can be
+ * streamed instead of buffered. The channel slot is held until the channel closes;
+ * destroying the stream closes it early.
+ */
+export function streamCommand(credentials: SSHCredentials, command: string): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    let opened = false;
+    withConnection(credentials, client => new Promise<void>((done, fail) => {
+      client.exec(command, (err, stream) => {
+        if (err) {
+          return fail(err);
+        }
+        opened = true;
+        resolve(stream);
+        stream.on('close', () => done());
+      });
+    })).catch(error => {
+      if (!opened) reject(error);
+    });
+  });
+}
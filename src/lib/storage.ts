@@ -0,0 +1,261 @@
+import { createHash } from 'crypto';
+import posixPath from 'path/posix';
+import { SSHCredentials, executeCommand } from './ssh';
+import { ShellArgumentError, path as shellPath, raw, sh } from './shell';
+import { monitoredScript } from './operations';
+
+/**
+ * Storage quotas and disk usage. Each cluster profile lists its storage areas (home,
+ * scratch, group storage) and the tool that reports the quota for each one, since every
+ * site does this differently: quota(1) for NFS and XFS, `lfs quota` for Lustre, plain `df`
+ * for file systems sized per group, or a site-specific command.
+ */
+
+export type QuotaTool = 'quota' | 'lfs' | 'df' | 'command';
+
+export interface StorageArea {
+  label: string;
+  // May start with ~ or $HOME
+  path: string;
+  tool: QuotaTool;
+  // Report group quotas instead of the user's: true for all of the user's groups (quota) or
+  // the primary group (lfs), or a group name
+  group?: boolean | string;
+  // For the "command" tool: prints "<used bytes> <limit bytes> [<files> <file limit>]" per line.
+  // Only managed profiles may set it
+  command?: string;
+}
+
+export interface QuotaUsage {
+  // User or group the quota applies to; null for a whole file system (df)
+  owner: string | null;
+  usedBytes: number;
+  // The soft quota if there is one, otherwise the hard limit; null when unlimited
+  limitBytes: number | null;
+  files: number | null;
+  fileLimit: number | null;
+}
+
+export interface StorageQuota {
+  label: string;
+  path: string;
+  usage: QuotaUsage[];
+  error?: string;
+}
+
+export interface DiskUsageEntry {
+  path: string;
+  name: string;
+  size: number; // Bytes on disk
+  // False for the files directly inside the folder, counted together
+  isDirectory: boolean;
+}
+
+export interface DiskUsage {
+  root: string;
+  dir: string;
+  size: number;
+  scannedAt: number; // Milliseconds since the epoch
+  entries: DiskUsageEntry[];
+}
+
+export const QUOTA_TOOLS: QuotaTool[] = ['quota', 'lfs', 'df', 'command'];
+
+// Scans are kept here on the cluster, one file per scanned folder
+const SCAN_DIR = '~/.kamiak-gui/du';
+
+// 0 means "no limit" in quota and lfs output
+const limitOrNull = (value: string | undefined) => (Number(value) > 0 ? Number(value) : null);
+
+/**
+ * Parses the table quota(1) and `lfs quota` share: mount point, KB used, soft and hard
+ * limits, grace, then the same four columns for file counts. An asterisk marks values
+ * over the quota.
+ */
+function parseQuotaTable(output: string, defaultOwner: string | null): QuotaUsage[] {
+  const usage: QuotaUsage[] = [];
+  let owner = defaultOwner;
+  let wrapped = '';
+  for (const line of output.split('\n')) {
+    const header = /^Disk quotas for (?:user|group) (\S+)/.exec(line.trim());
+    if (header) {
+      owner = header[1];
+      continue;
+    }
+    const fields = `${wrapped} ${line}`.trim().split(/\s+/);
+    // Long file system names get a line of their own
+    if (fields.length === 1 && fields[0].startsWith('/')) {
+      wrapped = fields[0];
+      continue;
+    }
+    wrapped = '';
+    if (fields.length < 8 || !/^\d+\*?$/.test(fields[1])) continue;
+    const [used, soft, hard, files, fileSoft, fileHard] = [1, 2, 3, 5, 6, 7].map(i => fields[i].replace('*', ''));
+    const limit = limitOrNull(soft) ?? limitOrNull(hard);
+    usage.push({
+      owner,
+      usedBytes: Number(used) * 1024,
+      limitBytes: limit === null ? null : limit * 1024,
+      files: Number(files),
+      fileLimit: limitOrNull(fileSoft) ?? limitOrNull(fileHard),
+    });
+  }
+  return usage;
+}
+
+function quotaCommand(area: StorageArea): string {
+  const target = shellPath(area.path);
+  switch (area.tool) {
+    case 'quota':
+      // Without -f quota reports every file system; -f wants the mount point
+      return sh`quota -w -p --show-mntpoint --hide-device ${area.group ? '-g' : '-u'} -f "$(df -P ${target} | awk 'NR == 2 { print $6 }')"`;
+    case 'lfs': {
+      const owner = typeof area.group === 'string' ? area.group : raw(area.group ? '"$(id -gn)"' : '"$(id -un)"');
+      return sh`lfs quota -q ${area.group ? '-g' : '-u'} ${owner} ${target}`;
+    }
+    case 'df':
+      return sh`df -P -B1 ${target} | tail -n 1`;
+    case 'command':
+      if (!area.command) {
+        throw new ShellArgumentError(`No quota command is configured for ${area.label}`);
+      }
+      // Only managed profiles, which come from the administrator's config, get this far with
+      // a command (see validateStorageArea), so it runs as written
+      return area.command;
+  }
+}
+
+function parseQuota(area: StorageArea, stdout: string): QuotaUsage[] {
+  switch (area.tool) {
+    case 'quota':
+    case 'lfs': {
+      const usage = parseQuotaTable(stdout, typeof area.group === 'string' ? area.group : null);
+      return typeof area.group === 'string' ? usage.filter(u => u.owner === area.group) : usage;
+    }
+    case 'df': {
+      const fields = stdout.trim().split(/\s+/);
+      if (fields.length < 6) return [];
+      return [{ owner: null, usedBytes: Number(fields[2]), limitBytes: Number(fields[1]), files: null, fileLimit: null }];
+    }
+    case 'command':
+      return stdout.split('\n').filter(line => line.trim()).map(line => {
+        const [used, limit, files, fileLimit] = line.trim().split(/\s+/);
+        return {
+          owner: null,
+          usedBytes: Number(used) || 0,
+          limitBytes: limitOrNull(limit),
+          files: files === undefined ? null : Number(files),
+          fileLimit: limitOrNull(fileLimit),
+        };
+      });
+  }
+}
+
+export function validateStorageArea(area: StorageArea, managed = false) {
+  if (!area.label?.trim() || !area.path?.trim()) {
+    throw new Error('Storage areas need a label and a path');
+  }
+  if (!QUOTA_TOOLS.includes(area.tool)) {
+    throw new Error(`Unknown quota tool "${area.tool}" for ${area.label}`);
+  }
+  // A browser-supplied profile must not choose what runs on the server's connection
+  if (!managed && (area.tool === 'command' || area.command !== undefined)) {
+    throw new Error(`Only profiles managed by the administrator can use a quota command (${area.label})`);
+  }
+}
+
+/**
+ * Usage and limits for each storage area. An area whose tool fails or reports nothing
+ * comes back with an error or no usage rather than failing the others.
+ */
+export async function getQuotas(credentials: SSHCredentials, areas: StorageArea[]): Promise<StorageQuota[]> {
+  return Promise.all(areas.map(async (area): Promise<StorageQuota> => {
+    try {
+      const result = await executeCommand(credentials, quotaCommand(area));
+      // quota exits with 1 when over quota, so judge by the output
+      const usage = parseQuota(area, result.stdout);
+      if (usage.length === 0 && result.stderr.trim()) {
+        return { label: area.label, path: area.path, usage, error: result.stderr.trim() };
+      }
+      return { label: area.label, path: area.path, usage };
+    } catch (error) {
+      return { label: area.label, path: area.path, usage: [], error: (error as Error).message };
+    }
+  }));
+}
+
+// Absolute, symlink-free path of a folder, so a scan is found again under any spelling
+export async function resolveFolder(credentials: SSHCredentials, path: string): Promise<string> {
+  const result = await executeCommand(credentials, sh`cd ${shellPath(path)} && pwd -P`);
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || `${path} is not a folder`);
+  }
+  return result.stdout.trim();
+}
+
+function scanFile(root: string): string {
+  return `${SCAN_DIR}/${createHash('sha1').update(root).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Script for a background operation that runs `du` over `root` (an absolute path) and
+ * keeps the result for `getDiskUsage`. A scan only replaces the previous one once it has
+ * finished; folders it cannot read are left out rather than failing it.
+ */
+export function diskUsageScanScript(root: string): string {
+  const file = shellPath(scanFile(root));
+  const partial = shellPath(`${scanFile(root)}.partial`);
+  const work = sh`du -0 -x -B1 -- ${shellPath(root)} > ${partial} 2>/dev/null`;
+  // du exits with 1 when some folders were unreadable
+  const finish = sh`if [ $exit_code -le 1 ] && [ -s ${partial} ]; then mv -f -- ${partial} ${file}; exit_code=$?; else rm -f -- ${partial}; fi`;
+  return [
+    sh`mkdir -p ${shellPath(SCAN_DIR)} && chmod 700 ${shellPath(SCAN_DIR)} || exit 1`,
+    monitoredScript(work, null, null, finish),
+  ].join('\n');
+}
+
+/**
+ * The sizes of the folders directly inside `dir` from the last scan of `root`, plus the
+ * files directly in `dir` as one entry. Null when `root` has not been scanned yet.
+ */
+export async function getDiskUsage(credentials: SSHCredentials, root: string, dir: string): Promise<DiskUsage | null> {
+  if (dir !== root && !dir.startsWith(`${root}/`)) {
+    throw new ShellArgumentError(`${dir} is not inside ${root}`);
+  }
+  const file = shellPath(scanFile(root));
+  // du -0 writes "<size>\t<path>\0" records; keep the folder itself and its children
+  const filter = `BEGIN { dir = ENVIRON["DU_DIR"]; n = length(dir) }
+{ path = substr($0, index($0, "\\t") + 1)
+  if (path == dir || (substr(path, 1, n + 1) == dir "/" && index(substr(path, n + 2), "/") == 0)) printf "%s%c", $0, 0 }`;
+  const result = await executeCommand(credentials,
+    sh`[ -f ${file} ] || exit 3; stat -c %Y ${file}; DU_DIR=${dir} awk -v RS='\\0' ${filter} ${file}`);
+  if (result.code === 3) return null;
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'Could not read the disk usage scan');
+  }
+
+  const newline = result.stdout.indexOf('\n');
+  const scannedAt = Number(result.stdout.slice(0, newline)) * 1000;
+  let size: number | null = null;
+  const entries: DiskUsageEntry[] = [];
+  for (const record of result.stdout.slice(newline + 1).split('\0')) {
+    const tab = record.indexOf('\t');
+    if (tab < 0) continue;
+    const bytes = Number(record.slice(0, tab));
+    const path = record.slice(tab + 1);
+    if (path === dir) {
+      size = bytes;
+    } else {
+      entries.push({ path, name: posixPath.basename(path), size: bytes, isDirectory: true });
+    }
+  }
+  if (size === null) {
+    throw new Error(`${dir} was not part of the last scan. Scan again to include it.`);
+  }
+  const files = size - entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (files > 0) {
+    entries.push({ path: dir, name: 'Files in this folder', size: files, isDirectory: false });
+  }
+  entries.sort((a, b) => b.size - a.size);
+  return { root, dir, size, scannedAt, entries };
+}
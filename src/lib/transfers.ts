@@ -0,0 +1,152 @@
+// Browser helpers for the /api/files upload and download routes
+
+import { checkResponse, reportSessionExpired } from './session-expiry';
+
+// Each PUT carries one chunk, so a dropped connection only loses the chunk in flight
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+export interface UploadItem {
+  file: File;
+  // Path below the folder being uploaded into, e.g. "data/run1/out.csv"
+  relativePath: string;
+}
+
+export type TransferStatus = 'queued' | 'uploading' | 'paused' | 'done' | 'error' | 'cancelled';
+
+export interface Transfer {
+  id: string;
+  name: string;
+  target: string;
+  size: number;
+  loaded: number;
+  status: TransferStatus;
+  error?: string;
+}
+
+function uploadUrl(target: string, params: Record<string, string> = {}) {
+  return `/api/files/upload?${new URLSearchParams({ path: target, ...params })}`;
+}
+
+// `inline` serves images and PDFs for display rather than as a download
+export function downloadUrl(path: string, inline = false) {
+  return `/api/files/download?${new URLSearchParams({ path, ...(inline ? { inline: '1' } : {}) })}`;
+}
+
+async function readError(response: Response) {
+  const body = await response.json().catch(() => null);
+  return body?.error || `${response.status} ${response.statusText}`;
+}
+
+/**
+ * Bytes of an earlier, interrupted upload to `target` that the server already has.
+ */
+export async function fetchUploadOffset(target: string): Promise<number> {
+  const response = checkResponse(await fetch(uploadUrl(target)));
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  return (await response.json()).offset;
+}
+
+/**
+ * Reads bytes `start` to `end` (inclusive) of a file. `data` is shorter near the end of
+ * the file; `size` is the size of the whole file.
+ */
+export async function fetchRange(path: string, start: number, end: number): Promise<{ data: Uint8Array; size: number }> {
+  const response = checkResponse(await fetch(downloadUrl(path), { headers: { Range: `bytes=${start}-${end}` } }));
+  if (response.status === 416) {
+    // Past the end, or an empty file
+    const size = Number(response.headers.get('content-range')?.split('/')[1]);
+    return { data: new Uint8Array(0), size: Number.isFinite(size) ? size : 0 };
+  }
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const data = new Uint8Array(await response.arrayBuffer());
+  const total = response.status === 206 ? Number(response.headers.get('content-range')?.split('/')[1]) : data.length;
+  return { data, size: total };
+}
+
+export async function discardUpload(target: string): Promise<void> {
+  checkResponse(await fetch(uploadUrl(target), { method: 'DELETE' }));
+}
+
+/**
+ * Sends one chunk. Uses XHR rather than fetch because only XHR reports upload progress.
+ * `conflict` means the server holds a different amount than `offset`; resume from the
+ * returned offset instead.
+ */
+export function uploadChunk(
+  target: string,
+  chunk: Blob,
+  offset: number,
+  last: boolean,
+  onProgress: (loaded: number) => void,
+  signal: AbortSignal
+): Promise<{ offset: number; conflict: boolean }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', uploadUrl(target, { offset: String(offset), ...(last ? { last: '1' } : {}) }));
+    xhr.responseType = 'json';
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => {
+      const body = xhr.response || {};
+      if (xhr.status === 200) {
+        resolve({ offset: body.offset, conflict: false });
+      } else if (xhr.status === 409 && typeof body.offset === 'number') {
+        resolve({ offset: body.offset, conflict: true });
+      } else {
+        if (xhr.status === 401) reportSessionExpired();
+        reject(new Error(body.error || `Upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+    signal.addEventListener('abort', () => xhr.abort());
+    xhr.send(chunk);
+  });
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function walkEntry(entry: FileSystemEntry, prefix: string, items: UploadItem[]) {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    items.push({ file, relativePath: prefix + entry.name });
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns at most ~100 entries per call; keep asking until it returns none
+    for (;;) {
+      const batch = await readEntries(reader);
+      if (batch.length === 0) break;
+      for (const child of batch) {
+        await walkEntry(child, `${prefix}${entry.name}/`, items);
+      }
+    }
+  }
+}
+
+/**
+ * Expands a drop into files with their relative paths, descending into dropped folders.
+ */
+export async function collectDroppedItems(dataTransfer: DataTransfer): Promise<UploadItem[]> {
+  // Entries must be taken synchronously; the DataTransfer is emptied once the handler yields
+  const entries = [...dataTransfer.items]
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) {
+    return [...dataTransfer.files].map(file => ({ file, relativePath: file.name }));
+  }
+  const items: UploadItem[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry, '', items);
+  }
+  return items;
+}
+
+// Files from <input type="file">, which carry webkitRelativePath when a folder was picked
+export function collectInputItems(files: FileList): UploadItem[] {
+  return [...files].map(file => ({ file, relativePath: file.webkitRelativePath || file.name }));
+}
@@ -0,0 +1,130 @@
+import posixPath from 'path/posix';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CommandResult, SSHCredentials } from './ssh';
+import { ProtectedPathError, assertDeletable, deletePermanently } from './trash';
+
+const HOME = '/home/alice';
+const ROOTS = ['~', '/data', '/scratch'];
+
+const executeCommand = vi.hoisted(() => vi.fn<(credentials: SSHCredentials, command: string) => Promise<CommandResult>>());
+vi.mock('./ssh', () => ({ executeCommand }));
+
+const config = vi.hoisted(() => ({ files: {} as { allowedRoots?: string[] } }));
+vi.mock('./config', () => ({ getConfig: () => config }));
+
+// An SFTP session on a cluster where /scratch is a symlink into the parallel file system
+const sftp = vi.hoisted(() => ({
+  realpath: (path: string, callback: (err: Error | undefined, resolved: string) => void) => {
+    const absolute = posixPath.resolve('/home/alice', path);
+    callback(undefined, absolute.replace(/^\/scratch(?=\/|$)/, '/mnt/lustre/scratch'));
+  },
+  lstat: (_path: string, callback: (err: Error | undefined, stats: { isDirectory: () => boolean }) => void) => {
+    callback(undefined, { isDirectory: () => false });
+  },
+}));
+vi.mock('./sftp', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./sftp')>(),
+  withSftp: async (_credentials: SSHCredentials, fn: (session: typeof sftp) => Promise<unknown>) => fn(sftp),
+}));
+
+const credentials: SSHCredentials = { host: 'cluster', username: 'alice' };
+
+const refusal = (target: string, roots = ROOTS) => {
+  try {
+    assertDeletable(target, HOME, roots);
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProtectedPathError);
+    return (error as Error).message;
+  }
+};
+
+beforeEach(() => {
+  executeCommand.mockReset();
+  executeCommand.mockResolvedValue({ stdout: '', stderr: '', code: 0 });
+  config.files = {};
+});
+
+describe('assertDeletable', () => {
+  it('allows ordinary files and folders inside the roots', () => {
+    expect(refusal(`${HOME}/results/run1.csv`)).toBeNull();
+    expect(refusal(`${HOME}/.cache`)).toBeNull();
+    expect(refusal('/data/lab/old')).toBeNull();
+    expect(refusal('/scratch/alice')).toBeNull();
+  });
+
+  it('refuses /, the home directory and the roots themselves', () => {
+    expect(refusal('/')).toBe('/ cannot be deleted');
+    expect(refusal(HOME)).toBe(`${HOME} cannot be deleted`);
+    expect(refusal('/data')).toBe('/data cannot be deleted');
+    expect(refusal('/scratch')).toBe('/scratch cannot be deleted');
+  });
+
+  it('refuses paths outside the roots', () => {
+    expect(refusal('/etc/passwd')).toBe(`/etc/passwd is outside the folders the file manager may delete from (${HOME}, /data, /scratch)`);
+    expect(refusal('/home/bob/notes')).toMatch(/outside the folders/);
+    // A sibling that only shares a prefix with a root is not inside it
+    expect(refusal('/database/x')).toMatch(/outside the folders/);
+  });
+
+  it('refuses anything inside the protected trees', () => {
+    expect(refusal(`${HOME}/.ssh`)).toBe('~/.ssh is protected and cannot be deleted from the file manager');
+    expect(refusal(`${HOME}/.ssh/authorized_keys`)).toBe('~/.ssh/authorized_keys is protected and cannot be deleted from the file manager');
+    expect(refusal(`${HOME}/.gnupg/private-keys-v1.d`)).toMatch(/protected/);
+    expect(refusal(`${HOME}/.kamiak-gui/trash/files`)).toMatch(/protected/);
+  });
+
+  it('refuses protected entries as a whole but not what is inside them', () => {
+    expect(refusal(`${HOME}/.bashrc`)).toBe('~/.bashrc is protected and cannot be deleted from the file manager');
+    expect(refusal(`${HOME}/.config`)).toMatch(/protected/);
+    expect(refusal(`${HOME}/.config/htop/htoprc`)).toBeNull();
+    expect(refusal(`${HOME}/.local/share/jupyter`)).toBeNull();
+  });
+
+  it('reads roots relative to the home directory or absolute alike', () => {
+    expect(refusal(`${HOME}/projects`, ['~/projects'])).toBe(`${HOME}/projects cannot be deleted`);
+    expect(refusal(`${HOME}/projects`, [`${HOME}/projects`])).toBe(`${HOME}/projects cannot be deleted`);
+    expect(refusal(`${HOME}/projects/a`, ['~/projects'])).toBeNull();
+    expect(refusal(`${HOME}/projects/a`, [`${HOME}/projects`])).toBeNull();
+    expect(refusal(`${HOME}/other`, ['~/projects'])).toMatch(/outside the folders/);
+  });
+
+  it('protects home dotfiles even when / is a root', () => {
+    expect(refusal('/etc/passwd', ['/'])).toBeNull();
+    expect(refusal(`${HOME}/.ssh/id_ed25519`, ['/'])).toMatch(/protected/);
+  });
+});
+
+describe('deletePermanently', () => {
+  it('removes an allowed path resolved against the home directory', async () => {
+    await deletePermanently(credentials, '~/results/old');
+    expect(executeCommand).toHaveBeenCalledWith(credentials, `rm -rf -- ${HOME}/results/old`);
+  });
+
+  it('runs nothing for a protected path', async () => {
+    await expect(deletePermanently(credentials, '~/.ssh')).rejects.toBeInstanceOf(ProtectedPathError);
+    await expect(deletePermanently(credentials, '~/../bob/data')).rejects.toThrow(/outside the folders/);
+    await expect(deletePermanently(credentials, '~')).rejects.toThrow(`${HOME} cannot be deleted`);
+    expect(executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('compares with where symlinked roots lead', async () => {
+    // The link itself is not inside the root it leads to
+    await expect(deletePermanently(credentials, '/scratch')).rejects.toBeInstanceOf(ProtectedPathError);
+    await expect(deletePermanently(credentials, '/scratch/alice/..')).rejects.toThrow('/mnt/lustre/scratch cannot be deleted');
+    await deletePermanently(credentials, '/scratch/alice/tmp');
+    expect(executeCommand).toHaveBeenCalledWith(credentials, 'rm -rf -- /mnt/lustre/scratch/alice/tmp');
+  });
+
+  it('uses the configured roots', async () => {
+    config.files = { allowedRoots: ['~/projects'] };
+    await expect(deletePermanently(credentials, '/data/lab/old')).rejects.toThrow(/outside the folders/);
+    await deletePermanently(credentials, '~/projects/a');
+    expect(executeCommand).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a failed rm', async () => {
+    executeCommand.mockResolvedValue({ stdout: '', stderr: 'rm: cannot remove: Permission denied\n', code: 1 });
+    await expect(deletePermanently(credentials, '~/results/old')).rejects.toThrow('rm: cannot remove: Permission denied');
+  });
+});
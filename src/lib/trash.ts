@@ -0,0 +1,217 @@
+import { randomBytes } from 'crypto';
+import posixPath from 'path/posix';
+import { Stats } from 'ssh2';
+import { getConfig } from './config';
+import { SSHCredentials, executeCommand } from './ssh';
+import { FileExistsError, resolveParent, resolvePath, withSftp } from './sftp';
+import { heredoc, path as shellPath, sh } from './shell';
+
+/**
+ * Deleting from the file manager moves items into a trash folder on the cluster instead of
+ * removing them. Each item is stored as files/<id>, next to info/<id>.json describing where
+ * it came from (the same split the freedesktop trash uses).
+ */
+
+export interface TrashItem {
+  id: string;
+  name: string;
+  originalPath: string;
+  isDirectory: boolean;
+  deletedAt: number; // Milliseconds since the epoch
+}
+
+export class ProtectedPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtectedPathError';
+  }
+}
+
+// The item is on another file system than the trash, so trashing it would mean copying it
+export class CrossDeviceError extends Error {
+  constructor(path: string) {
+    super(`${path} is on a different file system than the trash, so it can only be deleted permanently`);
+    this.name = 'CrossDeviceError';
+  }
+}
+
+const TRASH_DIR = '~/.kamiak-gui/trash';
+const FILES_DIR = `${TRASH_DIR}/files`;
+const INFO_DIR = `${TRASH_DIR}/info`;
+
+const DEFAULT_ALLOWED_ROOTS = ['~', '/data', '/scratch'];
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Home directory entries that are never deleted, including anything inside them
+const PROTECTED_TREES = ['.ssh', '.gnupg', '.kamiak-gui'];
+// Home directory entries that cannot be deleted as a whole
+const PROTECTED_ENTRIES = ['.bashrc', '.bash_profile', '.bash_logout', '.profile', '.config', '.local'];
+
+const ID_PATTERN = /^\d+-[0-9a-f]{8}$/;
+
+export function trashRetentionDays(): number {
+  const days = getConfig().files?.trashRetentionDays;
+  return typeof days === 'number' && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+function validateId(id: string): string {
+  if (!ID_PATTERN.test(id)) {
+    throw new Error(`Invalid trash item "${id}"`);
+  }
+  return id;
+}
+
+// Removes items older than the retention period (a no-op when purging is disabled).
+// Runs in a subshell so the cd does not leak into the rest of the script.
+function purgeExpiredScript(): string {
+  const days = trashRetentionDays();
+  if (days === 0) return 'true';
+  return sh`(cd ${shellPath(TRASH_DIR)} 2>/dev/null && find info -maxdepth 1 -name '*.json' -mmin +${days * 24 * 60} | while read -r f; do id=$(basename "$f" .json); rm -rf -- "files/$id" "$f"; done)`;
+}
+
+// An absolute path for a configured root, which may be given relative to the home directory
+function expandRoot(root: string, home: string): string {
+  return posixPath.resolve(home, root.replace(/^~(\/|$)/, ''));
+}
+
+/**
+ * Throws ProtectedPathError unless `target` (absolute and resolved) may be deleted: never
+ * `/`, the home directory or an allowed root itself, nothing outside the roots and no
+ * protected dotfiles. `roots` may be absolute or `~`-relative.
+ */
+export function assertDeletable(target: string, home: string, roots: string[]): void {
+  const absoluteRoots = roots.map(root => expandRoot(root, home));
+  if (target === '/' || target === home || absoluteRoots.includes(target)) {
+    throw new ProtectedPathError(`${target} cannot be deleted`);
+  }
+  if (!absoluteRoots.some(root => target.startsWith(root === '/' ? '/' : `${root}/`))) {
+    throw new ProtectedPathError(`${target} is outside the folders the file manager may delete from (${absoluteRoots.join(', ')})`);
+  }
+  const relative = posixPath.relative(home, target);
+  if (relative !== '..' && !relative.startsWith('../')) {
+    const top = relative.split('/')[0];
+    if (PROTECTED_TREES.includes(top) || (relative === top && PROTECTED_ENTRIES.includes(top))) {
+      throw new ProtectedPathError(`~/${relative} is protected and cannot be deleted from the file manager`);
+    }
+  }
+}
+
+/**
+ * Resolves `remotePath` and the allowed roots on the cluster, then applies assertDeletable.
+ */
+export async function checkDeletable(credentials: SSHCredentials, remotePath: string): Promise<{ path: string; isDirectory: boolean }> {
+  return withSftp(credentials, async (sftp) => {
+    const home = await resolvePath(sftp, '~');
+    // Symlinked roots (e.g. /scratch pointing into a parallel file system) compare by their target
+    const roots = await Promise.all((getConfig().files?.allowedRoots ?? DEFAULT_ALLOWED_ROOTS)
+      .map(root => resolvePath(sftp, expandRoot(root, home)).catch(() => expandRoot(root, home))));
+    const target = await resolveParent(sftp, remotePath);
+    assertDeletable(target, home, roots);
+
+    const attrs = await new Promise<Stats>((resolve, reject) => {
+      sftp.lstat(target, (err, result) => err ? reject(err) : resolve(result));
+    });
+    return { path: target, isDirectory: attrs.isDirectory() };
+  });
+}
+
+/**
+ * Moves an item into the trash. Throws CrossDeviceError rather than copying it there.
+ */
+export async function moveToTrash(credentials: SSHCredentials, remotePath: string): Promise<TrashItem> {
+  const { path: target, isDirectory } = await checkDeletable(credentials, remotePath);
+  const id = `${Date.now()}-${randomBytes(4).toString('hex')}`;
+  const item: TrashItem = { id, name: posixPath.basename(target), originalPath: target, isDirectory, deletedAt: Date.now() };
+
+  const files = shellPath(FILES_DIR);
+  const script = [
+    sh`mkdir -p ${files} ${shellPath(INFO_DIR)} && chmod 700 ${shellPath('~/.kamiak-gui')} ${shellPath(TRASH_DIR)} || exit 1`,
+    sh`[ "$(stat -c %d -- ${shellPath(target)})" = "$(stat -c %d -- ${files})" ] || { echo CROSS_DEVICE; exit 3; }`,
+    purgeExpiredScript(),
+    sh`mv -- ${shellPath(target)} ${shellPath(`${FILES_DIR}/${id}`)} && cat > ${shellPath(`${INFO_DIR}/${id}.json`)} ${heredoc(JSON.stringify(item))}`,
+  ].join('\n');
+
+  const result = await executeCommand(credentials, script);
+  if (result.stdout.includes('CROSS_DEVICE')) {
+    throw new CrossDeviceError(target);
+  }
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'Failed to move to trash');
+  }
+  return item;
+}
+
+/**
+ * Deletes immediately, for items that cannot go to the trash. The same guards apply.
+ */
+export async function deletePermanently(credentials: SSHCredentials, remotePath: string): Promise<void> {
+  const { path: target } = await checkDeletable(credentials, remotePath);
+  const result = await executeCommand(credentials, sh`rm -rf -- ${shellPath(target)}`);
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'Delete failed');
+  }
+}
+
+/**
+ * Lists the trash, newest first, after purging expired items.
+ */
+export async function listTrash(credentials: SSHCredentials): Promise<TrashItem[]> {
+  const script = [
+    purgeExpiredScript(),
+    sh`cd ${shellPath(INFO_DIR)} 2>/dev/null || exit 0`,
+    `for f in *.json; do [ -f "$f" ] && cat -- "$f" && echo; done`,
+  ].join('\n');
+  const result = await executeCommand(credentials, script);
+
+  const items: TrashItem[] = [];
+  for (const line of result.stdout.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const item = JSON.parse(line) as TrashItem;
+      if (ID_PATTERN.test(item.id)) items.push(item);
+    } catch {
+      // Skip metadata that was edited or truncated by hand
+    }
+  }
+  return items.sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+/**
+ * Puts an item back where it was deleted from, or at `targetPath`. Never overwrites;
+ * an occupied location throws FileExistsError.
+ */
+export async function restoreFromTrash(credentials: SSHCredentials, id: string, targetPath?: string): Promise<string> {
+  validateId(id);
+  const item = (await listTrash(credentials)).find(i => i.id === id);
+  if (!item) {
+    throw new Error('That item is no longer in the trash');
+  }
+  const target = targetPath || item.originalPath;
+  const quoted = shellPath(target);
+  const script = [
+    sh`if [ -e ${quoted} ] || [ -L ${quoted} ]; then echo EXISTS; exit 3; fi`,
+    sh`mkdir -p ${shellPath(posixPath.dirname(target))} && mv -- ${shellPath(`${FILES_DIR}/${id}`)} ${quoted} && rm -f -- ${shellPath(`${INFO_DIR}/${id}.json`)}`,
+  ].join('\n');
+
+  const result = await executeCommand(credentials, script);
+  if (result.stdout.includes('EXISTS')) {
+    throw new FileExistsError(target);
+  }
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'Restore failed');
+  }
+  return target;
+}
+
+/**
+ * Permanently deletes the given trash items, or everything in the trash.
+ */
+export async function purgeTrash(credentials: SSHCredentials, ids?: string[]): Promise<void> {
+  const command = ids
+    ? sh`cd ${shellPath(TRASH_DIR)} && rm -rf -- ${ids.map(id => [`files/${validateId(id)}`, `info/${id}.json`]).flat()}`
+    : sh`rm -rf -- ${shellPath(FILES_DIR)} ${shellPath(INFO_DIR)}`;
+  const result = await executeCommand(credentials, command);
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || 'Failed to empty the trash');
+  }
+}
@@ -0,0 +1,66 @@
+// Squarified treemap layout (Bruls, Huizing and van Wijk): rows of rectangles kept as
+// close to square as possible, largest first.
+
+export interface TreemapRect<T> {
+  item: T;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The worst aspect ratio in a row of areas laid along a side of length `side`
+function worstRatio(row: number[], side: number): number {
+  const sum = row.reduce((a, b) => a + b, 0);
+  const largest = Math.max(...row);
+  const smallest = Math.min(...row);
+  return Math.max((side * side * largest) / (sum * sum), (sum * sum) / (side * side * smallest));
+}
+
+/**
+ * Lays out `items` in a `width` x `height` rectangle with areas proportional to `size`.
+ * Items with no size are left out.
+ */
+export function squarify<T>(items: T[], size: (item: T) => number, width: number, height: number): TreemapRect<T>[] {
+  const sorted = items.filter(item => size(item) > 0).sort((a, b) => size(b) - size(a));
+  const total = sorted.reduce((sum, item) => sum + size(item), 0);
+  if (total === 0 || width <= 0 || height <= 0) return [];
+
+  const scale = (width * height) / total;
+  const areas = sorted.map(item => size(item) * scale);
+  const rects: TreemapRect<T>[] = [];
+  let x = 0;
+  let y = 0;
+  let w = width;
+  let h = height;
+  let i = 0;
+
+  while (i < areas.length) {
+    const side = Math.min(w, h);
+    const row = [areas[i]];
+    while (i + row.length < areas.length && worstRatio([...row, areas[i + row.length]], side) <= worstRatio(row, side)) {
+      row.push(areas[i + row.length]);
+    }
+    const rowArea = row.reduce((a, b) => a + b, 0);
+    const thickness = rowArea / side;
+    let offset = 0;
+    row.forEach((area, j) => {
+      const length = area / thickness;
+      rects.push(w >= h
+        // A column along the left edge
+        ? { item: sorted[i + j], x, y: y + offset, width: thickness, height: length }
+        // A row along the top edge
+        : { item: sorted[i + j], x: x + offset, y, width: length, height: thickness });
+      offset += length;
+    });
+    if (w >= h) {
+      x += thickness;
+      w -= thickness;
+    } else {
+      y += thickness;
+      h -= thickness;
+    }
+    i += row.length;
+  }
+  return rects;
+}
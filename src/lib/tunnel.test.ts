@@ -0,0 +1,92 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SSHCredentials } from './ssh';
+import { closeTunnel, openTunnel, tunnelPort } from './tunnel';
+
+// A pooled connection that records where each local connection was forwarded to
+class FakeClient extends EventEmitter {
+  forwarded: { host: string; port: number }[] = [];
+
+  forwardOut(_srcHost: string, _srcPort: number, host: string, port: number, callback: (err: Error) => void) {
+    this.forwarded.push({ host, port });
+    callback(new Error('not a real connection'));
+  }
+}
+
+const client = vi.hoisted(() => ({ current: null as FakeClient | null }));
+const holdConnection = vi.hoisted(() => vi.fn(async () => ({ client: client.current, release: () => {} })));
+vi.mock('./ssh', () => ({ holdConnection }));
+
+const credentials: SSHCredentials = { host: 'cluster', username: 'alice' };
+
+// Connects to the local end of a tunnel and waits for the forward to be attempted
+function connectTo(port: number) {
+  return new Promise<void>((resolve) => {
+    const socket = net.connect(port, '127.0.0.1');
+    socket.on('close', () => resolve());
+    socket.on('error', () => resolve());
+  });
+}
+
+afterEach(() => {
+  closeTunnel('session-a', 'llm');
+  closeTunnel('session-a', 'notebook');
+});
+
+describe('openTunnel', () => {
+  it('is found again by its session and name', async () => {
+    client.current = new FakeClient();
+    const { alreadyRunning, localPort } = await openTunnel({
+      owner: 'session-a',
+      credentials,
+      name: 'llm',
+      remoteHost: 'cn42',
+      remotePort: 8000,
+    });
+
+    expect(alreadyRunning).toBe(false);
+    expect(tunnelPort('session-a', 'llm')).toBe(localPort);
+    expect(tunnelPort('session-a', 'notebook')).toBeNull();
+    expect(tunnelPort('session-b', 'llm')).toBeNull();
+  });
+
+  it('forwards to the remote host, not to a host named after the tunnel', async () => {
+    const fake = client.current = new FakeClient();
+    const { localPort } = await openTunnel({
+      owner: 'session-a',
+      credentials,
+      name: 'notebook',
+      remoteHost: 'cn07',
+      remotePort: 8001,
+    });
+
+    await connectTo(localPort);
+    expect(fake.forwarded).toEqual([{ host: 'cn07', port: 8001 }]);
+  });
+
+  it('reuses a running tunnel to the same place and replaces one to another node', async () => {
+    client.current = new FakeClient();
+    const request = { owner: 'session-a', credentials, name: 'llm', remoteHost: 'cn42', remotePort: 8000 };
+    const first = await openTunnel(request);
+
+    expect(await openTunnel(request)).toEqual({ alreadyRunning: true, localPort: first.localPort });
+
+    const moved = await openTunnel({ ...request, remoteHost: 'cn43' });
+    expect(moved.alreadyRunning).toBe(false);
+    expect(tunnelPort('session-a', 'llm')).toBe(moved.localPort);
+  });
+});
+
+describe('closeTunnel', () => {
+  it('stops the tunnel so it is no longer found', async () => {
+    client.current = new FakeClient();
+    await openTunnel({ owner: 'session-a', credentials, name: 'llm', remoteHost: 'cn42', remotePort: 8000 });
+
+    closeTunnel('session-b', 'llm');
+    expect(tunnelPort('session-a', 'llm')).not.toBeNull();
+
+    closeTunnel('session-a', 'llm');
+    expect(tunnelPort('session-a', 'llm')).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import net from 'net';
+import { SSHCredentials, holdConnection } from './ssh';
+
+interface Tunnel {
+  // The session that opened it; no other session can use or close it
+  owner: string;
+  localPort: number;
+  server: net.Server;
+  remoteHost: string;
+  remotePort: number;
+  // The pooled connection it runs over
+  poolId?: string;
+  close: () => void;
+}
+
+// Tunnels are keyed by owning session and name (one 'llm' tunnel per session); kept on
+// globalThis so they survive module reloads
+const globalForTunnels = globalThis as unknown as {
+  sshSessionTunnels?: Map<string, Tunnel>;
+  sshOpeningTunnels?: Map<string, Promise<number>>;
+};
+const tunnels: Map<string, Tunnel> = globalForTunnels.sshSessionTunnels ?? (globalForTunnels.sshSessionTunnels = new Map());
+// Tunnels still being opened, so a second open of the same key waits instead of starting
+// a listener nothing tracks
+const opening: Map<string, Promise<number>> =
+  globalForTunnels.sshOpeningTunnels ?? (globalForTunnels.sshOpeningTunnels = new Map());
+
+const tunnelKey = (owner: string, name: string) => `${owner}\0${name}`;
+
+export interface TunnelRequest {
+  // The session opening it
+  owner: string;
+  credentials: SSHCredentials;
+  // Which of the session's tunnels, e.g. 'llm'
+  name: string;
+  // Where it forwards to, e.g. the compute node a job runs on
+  remoteHost: string;
+  remotePort: number;
+}
+
+/**
+ * Forwards a free local port to remoteHost:remotePort over a pooled SSH connection, for
+ * the session `owner` only. Its tunnel of the same name is kept only if it goes to the
+ * same place over the same login; otherwise (the job moved to another node, the profile
+ * changed) it is replaced.
+ */
+export async function openTunnel(request: TunnelRequest): Promise<{ alreadyRunning: boolean; localPort: number }> {
+  const { owner, credentials, name, remoteHost, remotePort } = request;
+  const key = tunnelKey(owner, name);
+  const pending = opening.get(key);
+  if (pending) {
+    // Once it is up, this open reuses or replaces it like any other
+    await pending.catch(() => undefined);
+    return openTunnel(request);
+  }
+
+  const existing = tunnels.get(key);
+  if (existing) {
+    if (existing.remoteHost === remoteHost && existing.remotePort === remotePort && existing.poolId === credentials.poolId) {
+      return { alreadyRunning: true, localPort: existing.localPort };
+    }
+    existing.close();
+  }
+
+  // Registered before the first await, so a concurrent open of the key finds it
+  const start = startTunnel(key, owner, credentials, remoteHost, remotePort);
+  opening.set(key, start);
+  try {
+    return { alreadyRunning: false, localPort: await start };
+  } finally {
+    opening.delete(key);
+  }
+}
+
+async function startTunnel(
+  key: string,
+  owner: string,
+  credentials: SSHCredentials,
+  remoteHost: string,
+  remotePort: number
+): Promise<number> {
+  const lease = await holdConnection(credentials);
+  // Open client connections; server.close() alone would leave keep-alive ones going to the old host
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    lease.client.forwardOut('127.0.0.1', 12345, remoteHost, remotePort, (err, stream) => {
+      if (err) {
+        console.error('Forwarding error:', err);
+        socket.end();
+        return;
+      }
+      socket.pipe(stream).pipe(socket);
+      socket.on('error', () => stream.close());
+      stream.on('error', () => socket.destroy());
+    });
+  });
+
+  const close = () => {
+    if (tunnels.get(key)?.server === server) {
+      tunnels.delete(key);
+    }
+    lease.client.removeListener('close', close);
+    server.close();
+    sockets.forEach(socket => socket.destroy());
+    lease.release();
+  };
+
+  // Tear the tunnel down if the underlying connection dies
+  lease.client.once('close', close);
+
+  try {
+    // Port 0: every session gets its own port, which the OS picks
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+  } catch (error) {
+    close();
+    throw error;
+  }
+
+  server.on('error', (err) => {
+    console.error('Tunnel server error:', err);
+    close();
+  });
+
+  const localPort = (server.address() as net.AddressInfo).port;
+  tunnels.set(key, { owner, localPort, server, remoteHost, remotePort, poolId: credentials.poolId, close });
+  console.log(`Tunnel listening on 127.0.0.1:${localPort} -> ${remoteHost}:${remotePort}`);
+  return localPort;
+}
+
+// The local port of the session's tunnel, or null when it has none running
+export function tunnelPort(owner: string, name: string): number | null {
+  const tunnel = tunnels.get(tunnelKey(owner, name));
+  return tunnel && tunnel.owner === owner ? tunnel.localPort : null;
+}
+
+export function closeTunnel(owner: string, name: string) {
+  const tunnel = tunnels.get(tunnelKey(owner, name));
+  if (tunnel && tunnel.owner === owner) tunnel.close();
+}